@@ -1,26 +1,105 @@
 
-import React, { useState, useEffect } from 'react';
-import { MessageSquare, Mic, BookOpen, GraduationCap, Settings, AlertTriangle, Lock, KeyRound, LogOut, Unlock, Moon, Sun } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { MessageSquare, Mic, BookOpen, GraduationCap, Settings, AlertTriangle, Lock, KeyRound, LogOut, Unlock, Moon, Sun, Library, ShieldCheck, UserRound, Loader2, Scale, BookA, Layers, ClipboardCheck, Timer, RefreshCw } from 'lucide-react';
 import { TextChat } from './components/TextChat';
 import { VoiceChat } from './components/VoiceChat';
 import { CourseEditor } from './components/CourseEditor';
-import { AppMode } from './types';
-import { DEFAULT_COURSE_CONTENT, DEFAULT_SYSTEM_INSTRUCTION } from './constants';
+import { CourseCatalogue } from './components/CourseCatalogue';
+import { WorkspaceAdmin } from './components/WorkspaceAdmin';
+import { JurisprudenceIndex } from './components/JurisprudenceIndex';
+import { CourseGlossary } from './components/CourseGlossary';
+import { Flashcards } from './components/Flashcards';
+import { CasePractice } from './components/CasePractice';
+import { ExamSimulator } from './components/ExamSimulator';
+import { useChatStore } from './hooks/useChatStore';
+import { AppMode, CourseConfig, CourseContext, CoursePersona, CourseSummary, ModelSettings, RetrievalConfig, RubricCriterion, TeacherSession } from './types';
+import { parseCourse } from './services/courseParser';
+import { resolveProviderConfig, createProvider } from './services/llmProvider';
+import { login, logout, checkSession, fetchCatalogue, fetchCourse, saveCourse, fetchVersions, fetchVersion, fetchQuoteReports, clearQuoteReports, AuthError, PublishedCourse } from './services/professorClient';
+import { VersionHistorySource } from './components/VersionHistory';
+import { QuoteReportSource } from './components/QuoteReports';
+import { DEFAULT_COURSE_ID, DEFAULT_PERSONA, WELCOME_TEMPLATE, applyPersona, resolveCourseConfig } from './services/courses';
+
+// Without the workspace API (static hosting), the app offers the built-in course only
+const STATIC_CATALOGUE: CourseSummary[] = [{
+  id: DEFAULT_COURSE_ID,
+  title: DEFAULT_PERSONA.subject,
+  description: '',
+  professorName: DEFAULT_PERSONA.professorName
+}];
+
+// Course configuration left in local storage by versions without a server
+function readLegacyConfig(): Partial<CourseConfig> {
+  try {
+    return {
+      courseContent: localStorage.getItem('course_content') || undefined,
+      systemInstruction: localStorage.getItem('system_instruction') || undefined,
+      retrievalConfig: JSON.parse(localStorage.getItem('retrieval_config') || 'null') || undefined,
+      modelSettings: JSON.parse(localStorage.getItem('model_settings') || 'null') || undefined
+    };
+  } catch (e) {
+    console.error("Failed to read local course configuration", e);
+    return {};
+  }
+}
 
 const App = () => {
   const [activeMode, setActiveMode] = useState<AppMode>(AppMode.TEXT);
-  const [courseContent, setCourseContent] = useState<string>(DEFAULT_COURSE_CONTENT);
-  const [systemInstruction, setSystemInstruction] = useState<string>(DEFAULT_SYSTEM_INSTRUCTION);
-  const apiKey = import.meta.env.VITE_API_KEY || '';
-  
-  // Security: Get password from environment variable, fallback to 'admin' if not set
-  const teacherPassword = process.env.TEACHER_PASSWORD || 'admin';
-  const isDefaultPassword = teacherPassword === 'admin';
+  // Question asked from the glossary, sent by the chat once it is open
+  const [pendingPrompt, setPendingPrompt] = useState<string | null>(null);
+
+  // Workspace: published courses and the one the student is revising
+  const [catalogue, setCatalogue] = useState<CourseSummary[] | null>(null);
+  const [isStaticSite, setIsStaticSite] = useState(false);
+  const [activeCourseId, setActiveCourseId] = useState<string | null>(() => localStorage.getItem('active_course'));
+  const [courseConfig, setCourseConfig] = useState<CourseConfig | null>(null);
+  // A failed load is kept apart from a course without settings: nothing is shown (or edited) until it succeeds
+  const [courseLoadError, setCourseLoadError] = useState<string | null>(null);
+  const [courseLoadAttempt, setCourseLoadAttempt] = useState(0);
+
+  // Model backend: Gemini when a key is configured, offline simulator otherwise
+  const providerConfig = useMemo(() => resolveProviderConfig(), []);
+  const provider = useMemo(() => createProvider(providerConfig), [providerConfig]);
+
+  const courses = useMemo(() => (catalogue || []).map(c => (
+    c.id === DEFAULT_COURSE_ID && !c.professorName ? { ...c, professorName: DEFAULT_PERSONA.professorName } : c
+  )), [catalogue]);
+  const activeSummary = courses.find(c => c.id === activeCourseId) || null;
+
+  // Structured view of the course (outline, definitions, cited decisions and statutes)
+  const course = useMemo<CourseContext | null>(() => courseConfig && activeCourseId ? {
+    id: activeCourseId,
+    content: courseConfig.courseContent,
+    title: activeSummary?.title || courseConfig.persona.subject,
+    persona: courseConfig.persona,
+    structure: parseCourse(courseConfig.courseContent)
+  } : null, [courseConfig, activeCourseId, activeSummary?.title]);
+
+  // The instruction is written with {{...}} markers, filled in from the course persona
+  const systemInstruction = courseConfig ? applyPersona(courseConfig.systemInstruction, courseConfig.persona) : '';
 
-  // Auth State for Professor Mode
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  // Conversations of the course, shared by the written chat and the oral transcripts
+  const chatStore = useChatStore(course?.id ?? null, course ? applyPersona(WELCOME_TEMPLATE, course.persona) : '');
+  
+  // Auth State for Professor Mode: credentials are checked by the server, which issues an expiring session token
+  const [teacherSession, setTeacherSession] = useState<TeacherSession | null>(() => {
+    try {
+      return JSON.parse(sessionStorage.getItem('teacher_session') || 'null');
+    } catch {
+      return null;
+    }
+  });
+  const isAuthenticated = teacherSession !== null;
+  const [usernameInput, setUsernameInput] = useState('');
   const [passwordInput, setPasswordInput] = useState('');
-  const [loginError, setLoginError] = useState(false);
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [showWorkspaceAdmin, setShowWorkspaceAdmin] = useState(false);
+
+  const account = teacherSession?.account;
+  const editableCourses = courses.filter(c => account && (account.isAdmin || account.courseIds.includes(c.id)));
+  const canEditActiveCourse = editableCourses.some(c => c.id === activeCourseId);
 
   // Dark Mode State
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -40,59 +119,173 @@ const App = () => {
 
   const toggleDarkMode = () => setIsDarkMode(prev => !prev);
 
-  // Load from local storage
+  const endSession = useCallback((message: string | null) => {
+    sessionStorage.removeItem('teacher_session');
+    setTeacherSession(null);
+    setShowWorkspaceAdmin(false);
+    setLoginError(message);
+  }, []);
+
+  // Drop a stored session the server no longer knows (restart, logout elsewhere, expiry) and refresh the account rights
   useEffect(() => {
-    const storedContent = localStorage.getItem('course_content');
-    const storedInstruction = localStorage.getItem('system_instruction');
-    if (storedContent) setCourseContent(storedContent);
-    if (storedInstruction) setSystemInstruction(storedInstruction);
+    if (!teacherSession) return;
+    checkSession(teacherSession).then(session => {
+      if (!session) {
+        endSession(null);
+        return;
+      }
+      sessionStorage.setItem('teacher_session', JSON.stringify(session));
+      setTeacherSession(session);
+    });
   }, []);
 
-  // Save to local storage
-  const handleContentSave = (content: string) => {
-    setCourseContent(content);
-    localStorage.setItem('course_content', content);
+  // Log out automatically when the session expires
+  useEffect(() => {
+    if (!teacherSession) return;
+    const timer = setTimeout(() => endSession('Votre session a expiré. Veuillez vous reconnecter.'), Math.max(0, teacherSession.expiresAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [teacherSession, endSession]);
+
+  const selectCourse = (courseId: string) => {
+    localStorage.setItem('active_course', courseId);
+    setActiveCourseId(courseId);
+    setSaveError(null);
   };
 
-  const handleInstructionSave = (instruction: string) => {
-    setSystemInstruction(instruction);
-    localStorage.setItem('system_instruction', instruction);
+  const refreshCatalogue = useCallback(async () => {
+    const list = await fetchCatalogue();
+    setIsStaticSite(list === null);
+    setCatalogue(list || STATIC_CATALOGUE);
+    return list || STATIC_CATALOGUE;
+  }, []);
+
+  // Load the catalogue; a single course is opened directly, otherwise the student picks one
+  useEffect(() => {
+    refreshCatalogue().then(list => {
+      if (list.some(c => c.id === activeCourseId)) return;
+      if (list.length === 1) {
+        selectCourse(list[0].id);
+      } else {
+        setActiveCourseId(null);
+        setActiveMode(AppMode.CATALOGUE);
+      }
+    });
+  }, []);
+
+  // Load the published configuration of the selected course
+  useEffect(() => {
+    if (!activeCourseId || catalogue === null) return;
+    let cancelled = false;
+    setCourseConfig(null);
+    setCourseLoadError(null);
+    const load = isStaticSite ? Promise.resolve<Partial<PublishedCourse>>(readLegacyConfig()) : fetchCourse(activeCourseId);
+    load
+      .then(stored => {
+        if (!cancelled) setCourseConfig(resolveCourseConfig(activeCourseId, stored));
+      })
+      .catch(error => {
+        console.error(error);
+        if (!cancelled) setCourseLoadError(error.message);
+      });
+    return () => { cancelled = true; };
+  }, [activeCourseId, catalogue === null, isStaticSite, courseLoadAttempt]);
+
+  // Save to the server (requires a professor session with rights on the course); content and instruction saves create versions
+  const persistCourse = (patch: Partial<CourseConfig>, versionMessage?: string) => {
+    if (!teacherSession || !activeCourseId) return Promise.resolve();
+    setCourseConfig(prev => prev && { ...prev, ...patch });
+    return saveCourse(teacherSession.token, activeCourseId, { ...patch, versionMessage })
+      .then(() => setSaveError(null))
+      .catch(error => {
+        if (error instanceof AuthError) {
+          endSession(error.message);
+        } else {
+          console.error(error);
+          setSaveError(error.message);
+        }
+      });
   };
 
-  // Simple check for API key
-  if (!apiKey) {
-    return (
-      <div className="flex h-screen items-center justify-center bg-slate-50 dark:bg-slate-900 p-4">
-        <div className="max-w-md w-full bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-red-200 dark:border-red-900 p-8 text-center">
-            <div className="mx-auto w-16 h-16 bg-red-100 dark:bg-red-900/30 rounded-full flex items-center justify-center mb-4 text-red-600 dark:text-red-400">
-                <AlertTriangle size={32} />
-            </div>
-            <h1 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Clé API manquante</h1>
-            <p className="text-slate-600 dark:text-slate-300">
-                Cette application nécessite une clé API Google Gemini pour fonctionner. 
-                Veuillez vous assurer que la variable d'environnement <code>process.env.API_KEY</code> est configurée.
-            </p>
+  const handleContentSave = (content: string, versionMessage?: string) => persistCourse({ courseContent: content }, versionMessage);
+
+  const handleInstructionSave = (instruction: string, versionMessage?: string) => persistCourse({ systemInstruction: instruction }, versionMessage);
+
+  const handleRetrievalConfigSave = (config: RetrievalConfig) => persistCourse({ retrievalConfig: config });
+
+  const handleModelSettingsSave = (settings: ModelSettings) => persistCourse({ modelSettings: settings });
+
+  // The professor's name is shown in the catalogue
+  const handlePersonaSave = (persona: CoursePersona) => persistCourse({ persona }).then(refreshCatalogue);
+
+  const handleCaseRubricSave = (caseRubric: RubricCriterion[]) => persistCourse({ caseRubric });
+
+  // An expired session while browsing the history logs the professor out, like a failed save
+  const withSession = <T,>(call: Promise<T>) => call.catch(error => {
+    if (error instanceof AuthError) endSession(error.message);
+    throw error;
+  });
+
+  const versionHistory: VersionHistorySource = {
+    listVersions: (field) => withSession(fetchVersions(teacherSession!.token, activeCourseId!, field)),
+    readVersion: (field, versionId) => withSession(fetchVersion(teacherSession!.token, activeCourseId!, field, versionId))
+  };
+
+  const quoteReports: QuoteReportSource = {
+    listReports: () => withSession(fetchQuoteReports(teacherSession!.token, activeCourseId!)),
+    clearReports: () => withSession(clearQuoteReports(teacherSession!.token, activeCourseId!))
+  };
+
+  const courseLoadFailure = courseLoadError && (
+    <div className="flex flex-col items-center justify-center h-full gap-3 py-12 text-center">
+        <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+            <AlertTriangle size={18} className="shrink-0" />
+            <span>Le cours n'a pas pu être chargé : {courseLoadError}</span>
         </div>
-      </div>
-    );
-  }
+        <button
+          onClick={() => setCourseLoadAttempt(n => n + 1)}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 dark:bg-slate-200 text-white dark:text-slate-900 hover:opacity-90"
+        >
+            <RefreshCw size={16} />
+            <span>Réessayer</span>
+        </button>
+    </div>
+  );
+
+  const handleCourseCreated = (created: PublishedCourse) => {
+    refreshCatalogue();
+    selectCourse(created.id);
+  };
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (passwordInput === teacherPassword) {
-      setIsAuthenticated(true);
-      setLoginError(false);
+    setIsLoggingIn(true);
+    try {
+      const session = await login(usernameInput.trim(), passwordInput);
+      sessionStorage.setItem('teacher_session', JSON.stringify(session));
+      setTeacherSession(session);
+      setLoginError(null);
       setPasswordInput('');
-    } else {
-      setLoginError(true);
+      // Open a course the professor can edit
+      const { isAdmin, courseIds } = session.account;
+      if (!isAdmin && activeCourseId && !courseIds.includes(activeCourseId) && courseIds.length > 0) {
+        selectCourse(courseIds[0]);
+      }
+    } catch (error) {
+      setLoginError((error as Error).message);
+    } finally {
+      setIsLoggingIn(false);
     }
   };
 
   const handleLogout = () => {
-    setIsAuthenticated(false);
+    if (teacherSession) logout(teacherSession.token).catch(console.error);
+    endSession(null);
     setActiveMode(AppMode.TEXT); // Redirect to student view
   };
 
+  // Student modes that need a course to be open
+  const isCourseMode = activeMode === AppMode.TEXT || activeMode === AppMode.VOICE || activeMode === AppMode.JURISPRUDENCE || activeMode === AppMode.GLOSSARY || activeMode === AppMode.FLASHCARDS || activeMode === AppMode.CASE_STUDY || activeMode === AppMode.EXAM;
+
   return (
     <div className="flex h-screen bg-slate-100 dark:bg-slate-950 overflow-hidden text-slate-900 dark:text-slate-100 font-sans transition-colors duration-300">
       
@@ -133,6 +326,84 @@ const App = () => {
                 <span className="hidden md:block font-medium">Mode Oral (Live)</span>
             </button>
 
+            <button 
+                onClick={() => setActiveMode(AppMode.JURISPRUDENCE)}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${
+                    activeMode === AppMode.JURISPRUDENCE 
+                    ? 'bg-blue-600 text-white shadow-md' 
+                    : 'hover:bg-slate-800'
+                }`}
+            >
+                <Scale size={20} />
+                <span className="hidden md:block font-medium">Jurisprudence</span>
+            </button>
+
+            <button 
+                onClick={() => setActiveMode(AppMode.GLOSSARY)}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${
+                    activeMode === AppMode.GLOSSARY 
+                    ? 'bg-blue-600 text-white shadow-md' 
+                    : 'hover:bg-slate-800'
+                }`}
+            >
+                <BookA size={20} />
+                <span className="hidden md:block font-medium">Glossaire</span>
+            </button>
+
+            <button 
+                onClick={() => setActiveMode(AppMode.FLASHCARDS)}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${
+                    activeMode === AppMode.FLASHCARDS 
+                    ? 'bg-blue-600 text-white shadow-md' 
+                    : 'hover:bg-slate-800'
+                }`}
+            >
+                <Layers size={20} />
+                <span className="hidden md:block font-medium">Fiches</span>
+            </button>
+
+            <button 
+                onClick={() => setActiveMode(AppMode.CASE_STUDY)}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${
+                    activeMode === AppMode.CASE_STUDY 
+                    ? 'bg-blue-600 text-white shadow-md' 
+                    : 'hover:bg-slate-800'
+                }`}
+            >
+                <ClipboardCheck size={20} />
+                <span className="hidden md:block font-medium">Cas pratique</span>
+            </button>
+
+            <button 
+                onClick={() => setActiveMode(AppMode.EXAM)}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${
+                    activeMode === AppMode.EXAM 
+                    ? 'bg-blue-600 text-white shadow-md' 
+                    : 'hover:bg-slate-800'
+                }`}
+            >
+                <Timer size={20} />
+                <span className="hidden md:block font-medium">Examen blanc</span>
+            </button>
+
+            <button 
+                onClick={() => setActiveMode(AppMode.CATALOGUE)}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${
+                    activeMode === AppMode.CATALOGUE 
+                    ? 'bg-blue-600 text-white shadow-md' 
+                    : 'hover:bg-slate-800'
+                }`}
+            >
+                <Library size={20} />
+                <span className="hidden md:block font-medium">Catalogue des cours</span>
+            </button>
+            {activeSummary && (
+                <div className="px-4 pt-1 text-xs text-slate-500 hidden md:flex items-center gap-2">
+                    <BookOpen size={14} className="shrink-0" />
+                    <span className="truncate" title={activeSummary.title}>{activeSummary.title}</span>
+                </div>
+            )}
+
             <div className="mt-8 px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider hidden md:block">
                 Espace Professeur
             </div>
@@ -174,6 +445,12 @@ const App = () => {
             <h1 className="text-2xl md:text-3xl font-montserrat font-bold text-slate-800 dark:text-white pt-1">
                 {activeMode === AppMode.TEXT && 'Lex publica IA by Coulibaly'}
                 {activeMode === AppMode.VOICE && 'Salle de Classe Virtuelle'}
+                {activeMode === AppMode.JURISPRUDENCE && 'Jurisprudence du cours'}
+                {activeMode === AppMode.GLOSSARY && 'Glossaire du cours'}
+                {activeMode === AppMode.FLASHCARDS && 'Fiches de révision'}
+                {activeMode === AppMode.CASE_STUDY && 'Cas pratique'}
+                {activeMode === AppMode.EXAM && 'Examen blanc'}
+                {activeMode === AppMode.CATALOGUE && 'Catalogue des cours'}
                 {activeMode === AppMode.SETTINGS && 'Administration du Cours'}
             </h1>
             
@@ -187,39 +464,189 @@ const App = () => {
                         <span>Se déconnecter</span>
                     </button>
                 ) : (
-                    <div className="flex items-center gap-2">
-                        <div className="h-2 w-2 rounded-full bg-green-500"></div>
-                        <span className="text-sm font-medium text-slate-600 dark:text-slate-400">Système prêt</span>
-                    </div>
+                    provider.id === 'mock' ? (
+                        <div className="flex items-center gap-2" title={providerConfig.fallbackReason || "Réponses simulées, aucune requête n'est envoyée à un modèle d'IA."}>
+                            <div className="h-2 w-2 rounded-full bg-amber-500"></div>
+                            <span className="text-sm font-medium text-amber-700 dark:text-amber-400">Mode démo hors ligne</span>
+                            {providerConfig.fallbackReason && <AlertTriangle size={14} className="text-amber-500" />}
+                        </div>
+                    ) : (
+                        <div className="flex items-center gap-2">
+                            <div className="h-2 w-2 rounded-full bg-green-500"></div>
+                            <span className="text-sm font-medium text-slate-600 dark:text-slate-400">Système prêt</span>
+                        </div>
+                    )
                 )}
             </div>
         </header>
 
         <div className="flex-1 p-4 md:p-6 overflow-hidden">
-            {activeMode === AppMode.TEXT && (
+            {(activeMode === AppMode.CATALOGUE || (isCourseMode && !activeCourseId)) && (
+                <CourseCatalogue
+                  courses={courses}
+                  activeCourseId={activeCourseId}
+                  onSelect={(courseId) => {
+                    selectCourse(courseId);
+                    setActiveMode(AppMode.TEXT);
+                  }}
+                />
+            )}
+
+            {isCourseMode && activeCourseId && !course && courseLoadFailure}
+
+            {isCourseMode && activeCourseId && !course && !courseLoadError && (
+                <div className="flex items-center justify-center h-full gap-3 text-slate-500 dark:text-slate-400">
+                    <Loader2 size={20} className="animate-spin" />
+                    <span className="text-sm">Chargement du cours...</span>
+                </div>
+            )}
+
+            {activeMode === AppMode.TEXT && course && (
                 <TextChat 
-                  courseContent={courseContent} 
+                  key={course.id}
+                  course={course} 
                   systemInstruction={systemInstruction}
-                  apiKey={apiKey} 
+                  retrievalConfig={courseConfig!.retrievalConfig}
+                  modelSettings={courseConfig!.modelSettings}
+                  provider={provider}
+                  pendingPrompt={pendingPrompt}
+                  onPendingPromptSent={() => setPendingPrompt(null)}
+                  onOpenCasePractice={() => setActiveMode(AppMode.CASE_STUDY)}
+                  chatStore={chatStore}
                 />
             )}
             
-            {activeMode === AppMode.VOICE && (
+            {activeMode === AppMode.VOICE && course && (
                 <VoiceChat 
-                  courseContent={courseContent} 
+                  key={course.id}
+                  course={course} 
                   systemInstruction={systemInstruction}
-                  apiKey={apiKey} 
+                  retrievalConfig={courseConfig!.retrievalConfig}
+                  modelSettings={courseConfig!.modelSettings}
+                  provider={provider}
+                  onOpenTranscripts={() => setActiveMode(AppMode.TEXT)}
+                  chatStore={chatStore}
                 />
             )}
             
+            {activeMode === AppMode.JURISPRUDENCE && course && (
+                <JurisprudenceIndex key={course.id} course={course} />
+            )}
+
+            {activeMode === AppMode.FLASHCARDS && course && (
+                <Flashcards key={course.id} course={course} />
+            )}
+
+            {activeMode === AppMode.CASE_STUDY && course && (
+                <CasePractice
+                  key={course.id}
+                  course={course}
+                  systemInstruction={systemInstruction}
+                  modelSettings={courseConfig!.modelSettings}
+                  provider={provider}
+                  rubric={courseConfig!.caseRubric}
+                />
+            )}
+
+            {activeMode === AppMode.EXAM && course && (
+                <ExamSimulator
+                  key={course.id}
+                  course={course}
+                  systemInstruction={systemInstruction}
+                  modelSettings={courseConfig!.modelSettings}
+                  provider={provider}
+                  rubric={courseConfig!.caseRubric}
+                />
+            )}
+
+            {activeMode === AppMode.GLOSSARY && course && (
+                <CourseGlossary
+                  key={course.id}
+                  course={course}
+                  onAsk={(prompt) => {
+                    setPendingPrompt(prompt);
+                    setActiveMode(AppMode.TEXT);
+                  }}
+                />
+            )}
+
             {activeMode === AppMode.SETTINGS && (
                 isAuthenticated ? (
-                    <CourseEditor 
-                      initialContent={courseContent} 
-                      onSaveContent={handleContentSave} 
-                      initialInstruction={systemInstruction}
-                      onSaveInstruction={handleInstructionSave}
-                    />
+                  <div className="flex flex-col h-full overflow-y-auto">
+                    <div className="max-w-5xl mx-auto w-full mb-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                        <div className="flex items-center gap-3 text-sm">
+                            <span className="flex items-center gap-2 text-slate-500 dark:text-slate-400">
+                                <UserRound size={16} />
+                                {account!.displayName}
+                            </span>
+                            <select
+                                value={canEditActiveCourse ? activeCourseId! : ''}
+                                onChange={(e) => selectCourse(e.target.value)}
+                                className="px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+                            >
+                                {!canEditActiveCourse && <option value="" disabled>Choisir un cours</option>}
+                                {editableCourses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                            </select>
+                        </div>
+                        {account!.isAdmin && (
+                            <button
+                                onClick={() => setShowWorkspaceAdmin(prev => !prev)}
+                                className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-emerald-700 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/20 hover:bg-emerald-100 dark:hover:bg-emerald-900/40 rounded-lg transition-colors"
+                            >
+                                <ShieldCheck size={16} />
+                                <span>Gérer l'espace</span>
+                            </button>
+                        )}
+                    </div>
+                    {showWorkspaceAdmin && (
+                        <div className="max-w-5xl mx-auto w-full">
+                            <WorkspaceAdmin
+                              token={teacherSession!.token}
+                              courses={courses}
+                              onCourseCreated={handleCourseCreated}
+                              onAuthError={endSession}
+                              onClose={() => setShowWorkspaceAdmin(false)}
+                            />
+                        </div>
+                    )}
+                    {saveError && (
+                        <div className="max-w-5xl mx-auto w-full mb-3 flex items-center gap-2 px-4 py-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/50 rounded-lg text-sm text-red-700 dark:text-red-300">
+                            <AlertTriangle size={16} className="shrink-0" />
+                            <span>Modifications non publiées : {saveError}</span>
+                        </div>
+                    )}
+                    {!canEditActiveCourse ? (
+                        <div className="max-w-5xl mx-auto w-full p-8 text-center text-sm text-slate-500 dark:text-slate-400 bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800">
+                            {editableCourses.length > 0
+                              ? 'Choisissez ci-dessus le cours à modifier.'
+                              : "Aucun cours ne vous est attribué. Demandez à l'administrateur de vous en confier un."}
+                        </div>
+                    ) : courseConfig ? (
+                        <div className="flex-1 min-h-[36rem]">
+                            <CourseEditor 
+                              key={activeCourseId}
+                              initialContent={courseConfig.courseContent} 
+                              onSaveContent={handleContentSave} 
+                              initialInstruction={courseConfig.systemInstruction}
+                              onSaveInstruction={handleInstructionSave}
+                              retrievalConfig={courseConfig.retrievalConfig}
+                              onSaveRetrievalConfig={handleRetrievalConfigSave}
+                              modelSettings={courseConfig.modelSettings}
+                              onSaveModelSettings={handleModelSettingsSave}
+                              persona={courseConfig.persona}
+                              onSavePersona={handlePersonaSave}
+                              history={versionHistory}
+                              quoteReports={quoteReports}
+                              caseRubric={courseConfig.caseRubric}
+                              onSaveCaseRubric={handleCaseRubricSave}
+                            />
+                        </div>
+                    ) : courseLoadFailure || (
+                        <div className="flex items-center justify-center py-12 text-slate-500 dark:text-slate-400">
+                            <Loader2 size={20} className="animate-spin" />
+                        </div>
+                    )}
+                  </div>
                 ) : (
                     <div className="flex items-center justify-center h-full">
                         <div className="w-full max-w-md bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors">
@@ -232,6 +659,23 @@ const App = () => {
                             </div>
                             
                             <form onSubmit={handleLogin} className="p-8 space-y-6">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Identifiant</label>
+                                    <div className="relative">
+                                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-slate-400">
+                                            <UserRound size={18} />
+                                        </div>
+                                        <input
+                                            type="text"
+                                            value={usernameInput}
+                                            onChange={(e) => setUsernameInput(e.target.value)}
+                                            autoComplete="username"
+                                            className="block w-full pl-10 pr-3 py-2.5 border rounded-lg focus:ring-2 focus:outline-none transition-colors bg-white dark:bg-slate-900 text-slate-900 dark:text-white border-slate-300 dark:border-slate-600 focus:border-blue-500 focus:ring-blue-200 dark:focus:ring-blue-900/30"
+                                            placeholder="admin"
+                                            autoFocus
+                                        />
+                                    </div>
+                                </div>
                                 <div>
                                     <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Mot de passe</label>
                                     <div className="relative">
@@ -248,26 +692,21 @@ const App = () => {
                                                 : 'border-slate-300 dark:border-slate-600 focus:border-blue-500 focus:ring-blue-200 dark:focus:ring-blue-900/30'
                                             }`}
                                             placeholder="••••••••"
-                                            autoFocus
+                                            autoComplete="current-password"
                                         />
                                     </div>
                                     {loginError && (
-                                        <p className="mt-2 text-sm text-red-600 dark:text-red-400">Mot de passe incorrect.</p>
+                                        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{loginError}</p>
                                     )}
                                 </div>
 
                                 <button
                                     type="submit"
-                                    className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-xl transition-colors shadow-lg shadow-blue-600/20"
+                                    disabled={isLoggingIn || !usernameInput.trim() || !passwordInput}
+                                    className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-60 text-white font-medium rounded-xl transition-colors shadow-lg shadow-blue-600/20"
                                 >
-                                    Accéder au Cours
+                                    {isLoggingIn ? 'Vérification...' : 'Accéder au Cours'}
                                 </button>
-                                
-                                {isDefaultPassword && (
-                                    <p className="text-center text-xs text-slate-400 dark:text-slate-500">
-                                        (Mot de passe démo : <strong>admin</strong>)
-                                    </p>
-                                )}
                             </form>
                         </div>
                     </div>
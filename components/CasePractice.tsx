@@ -0,0 +1,378 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BookOpen, Loader2, Sparkles, Send, Square, RotateCcw, ClipboardCheck, Trash2, AlertTriangle, History } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { CaseAnswer, CaseAttempt, CaseGrade, CaseStudy, CourseContext, ModelSettings, RubricCriterion, SourceReference } from '../types';
+import { LlmProvider, RateLimitError, ResponseSchema } from '../services/llmProvider';
+import {
+  ANSWER_STEPS,
+  CASE_SCHEMA,
+  CaseStudyFormatError,
+  EMPTY_CASE_ANSWER,
+  caseRequest,
+  caseSections,
+  gradeRequest,
+  gradeSchema,
+  parseCaseGrade,
+  parseCaseStudy,
+  sectionPath
+} from '../services/caseStudy';
+import { useCaseAttempts } from '../hooks/useCaseAttempts';
+import { CoursePassagePanel } from './CoursePassagePanel';
+
+interface CasePracticeProps {
+  course: CourseContext;
+  systemInstruction: string;
+  modelSettings: ModelSettings;
+  provider: LlmProvider;
+  rubric: RubricCriterion[];
+}
+
+const RANDOM_SECTION = 'random';
+
+const formatAttemptDate = (iso: string) =>
+  new Date(iso).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' });
+
+const scoreColor = (score: number, points: number) =>
+  score >= points * 0.7 ? 'bg-green-500' : score >= points * 0.4 ? 'bg-amber-500' : 'bg-red-500';
+
+// Per-criterion marks of a graded answer, with the overall comment and the points that were expected
+export const GradeReport: React.FC<{ grade: CaseGrade; caseStudy: CaseStudy }> = ({ grade, caseStudy }) => (
+  <div className="space-y-4">
+    <div className="flex items-baseline justify-between">
+      <h3 className="font-serif font-bold text-lg text-slate-900 dark:text-white">Correction</h3>
+      <span className="text-2xl font-bold text-blue-600 dark:text-blue-400">
+        {grade.total.toLocaleString('fr-FR')}<span className="text-base text-slate-400"> / {grade.maxTotal.toLocaleString('fr-FR')}</span>
+      </span>
+    </div>
+    <ul className="space-y-3">
+      {grade.criteria.map(criterion => (
+        <li key={criterion.criterionId} className="p-3 rounded-lg border border-slate-200 dark:border-slate-800">
+          <div className="flex items-center justify-between gap-3 mb-1.5 text-sm">
+            <span className="font-semibold text-slate-800 dark:text-slate-100">{criterion.label}</span>
+            <span className="font-medium text-slate-600 dark:text-slate-300">{criterion.score.toLocaleString('fr-FR')} / {criterion.points.toLocaleString('fr-FR')}</span>
+          </div>
+          <div className="h-1.5 mb-2 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+            <div className={`h-full ${scoreColor(criterion.score, criterion.points)}`} style={{ width: `${criterion.points ? (criterion.score / criterion.points) * 100 : 0}%` }} />
+          </div>
+          <p className="text-sm text-slate-600 dark:text-slate-400">{criterion.comment}</p>
+        </li>
+      ))}
+    </ul>
+    {grade.feedback && (
+      <div className="p-4 rounded-lg bg-blue-50 dark:bg-blue-900/20 prose prose-sm max-w-none prose-slate dark:prose-invert">
+        <ReactMarkdown>{grade.feedback}</ReactMarkdown>
+      </div>
+    )}
+    {caseStudy.expectedIssues.length > 0 && (
+      <div>
+        <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-slate-500">Éléments attendus</h4>
+        <ul className="list-disc pl-5 space-y-1 text-sm text-slate-700 dark:text-slate-300">
+          {caseStudy.expectedIssues.map((issue, i) => <li key={i}>{issue}</li>)}
+        </ul>
+      </div>
+    )}
+  </div>
+);
+
+// Cas pratique drawn from a section of the course, answered as a syllogism and graded on the professor's rubric
+export const CasePractice: React.FC<CasePracticeProps> = ({ course, systemInstruction, modelSettings, provider, rubric }) => {
+  const { attempts, saveAttempt, deleteAttempt } = useCaseAttempts(course.id);
+  const sections = useMemo(() => caseSections(course), [course]);
+
+  const [sectionId, setSectionId] = useState(RANDOM_SECTION);
+  const [caseStudy, setCaseStudy] = useState<CaseStudy | null>(null);
+  const [answer, setAnswer] = useState<CaseAnswer>(EMPTY_CASE_ANSWER);
+  // Graded attempt on display: the one just submitted, or one picked from the history
+  const [shownAttempt, setShownAttempt] = useState<CaseAttempt | null>(null);
+  const [status, setStatus] = useState<'idle' | 'generating' | 'grading'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [openPassage, setOpenPassage] = useState<{ source: SourceReference; title: string } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop any pending request when leaving the mode
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const runStructured = async (context: string, prompt: string, responseSchema: ResponseSchema): Promise<string | null> => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let json = '';
+    try {
+      const stream = provider.generateStream({
+        systemInstruction: `${systemInstruction}\n\n${context}`,
+        contents: [{ role: 'user', text: prompt }],
+        settings: modelSettings,
+        signal: controller.signal,
+        responseSchema
+      });
+      for await (const chunk of stream) {
+        if (controller.signal.aborted) break;
+        json += chunk;
+      }
+      return controller.signal.aborted ? null : json;
+    } catch (e) {
+      if (controller.signal.aborted) return null;
+      throw e;
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const describeError = (e: unknown, fallback: string) => {
+    console.error(e);
+    if (e instanceof RateLimitError) return e.message;
+    if (e instanceof CaseStudyFormatError) return `${e.message} Vous pouvez réessayer.`;
+    return fallback;
+  };
+
+  const generateCase = async () => {
+    const section = sectionId === RANDOM_SECTION
+      ? sections[Math.floor(Math.random() * sections.length)]
+      : sections.find(s => s.id === sectionId);
+    if (!section) return;
+
+    setStatus('generating');
+    setError(null);
+    try {
+      const request = caseRequest(course, section);
+      const json = await runStructured(request.context, request.prompt, CASE_SCHEMA);
+      if (json === null) return;
+      setCaseStudy(parseCaseStudy(json, request.section));
+      setAnswer(EMPTY_CASE_ANSWER);
+      setShownAttempt(null);
+    } catch (e) {
+      setError(describeError(e, "Une erreur est survenue lors de la rédaction de l'énoncé. Veuillez réessayer dans un instant."));
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const submitAnswer = async () => {
+    if (!caseStudy) return;
+    setStatus('grading');
+    setError(null);
+    try {
+      const request = gradeRequest(course, caseStudy, answer, rubric);
+      const json = await runStructured(request.context, request.prompt, gradeSchema(rubric));
+      if (json === null) return;
+      setShownAttempt(saveAttempt({ caseStudy, answer, grade: parseCaseGrade(json, rubric) }));
+    } catch (e) {
+      setError(describeError(e, "Une erreur est survenue lors de la correction. Votre copie est conservée : vous pouvez la soumettre à nouveau."));
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const openSection = (section: CaseStudy['section']) => {
+    const node = course.structure.headings.find(h => h.id === section.nodeId);
+    if (!node) return;
+    setOpenPassage({
+      title: section.title,
+      source: {
+        marker: 1,
+        nodeId: node.id,
+        path: section.path,
+        start: node.start,
+        end: node.end,
+        excerpt: course.content.slice(node.start, node.end)
+      }
+    });
+  };
+
+  const reviewAttempt = (attempt: CaseAttempt) => {
+    setShownAttempt(attempt);
+    setCaseStudy(attempt.caseStudy);
+    setAnswer(attempt.answer);
+  };
+
+  const isBusy = status !== 'idle';
+  const isGraded = shownAttempt !== null;
+  const canSubmit = caseStudy && !isBusy && !isGraded && ANSWER_STEPS.every(step => answer[step.field].trim());
+
+  return (
+    <div className="relative h-full overflow-hidden">
+      <div className="flex h-full max-w-6xl mx-auto w-full gap-6">
+        <div className="flex-1 min-w-0 overflow-y-auto pb-6 space-y-4">
+          <div className="p-4 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 flex flex-col md:flex-row md:items-center gap-3">
+            <select
+              value={sectionId}
+              onChange={(e) => setSectionId(e.target.value)}
+              disabled={isBusy}
+              className="flex-1 min-w-0 px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+            >
+              <option value={RANDOM_SECTION}>Section tirée au hasard</option>
+              {sections.map(section => (
+                <option key={section.id} value={section.id}>{sectionPath(course, section)} – {section.title}</option>
+              ))}
+            </select>
+            {status === 'generating' ? (
+              <button
+                onClick={() => abortControllerRef.current?.abort()}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 dark:bg-slate-600 text-white text-sm font-medium rounded-lg hover:bg-slate-700 transition-colors"
+              >
+                <Square size={14} className="fill-current" />
+                Arrêter
+              </button>
+            ) : (
+              <button
+                onClick={generateCase}
+                disabled={isBusy || sections.length === 0}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-amber-600 text-white text-sm font-medium rounded-lg hover:bg-amber-700 disabled:opacity-50 transition-colors"
+              >
+                <Sparkles size={16} />
+                {caseStudy ? 'Nouveau cas pratique' : 'Générer un cas pratique'}
+              </button>
+            )}
+          </div>
+
+          {sections.length === 0 && (
+            <p className="text-sm text-slate-500 dark:text-slate-400">Le plan du cours ne comporte ni section ni chapitre dont tirer un cas pratique.</p>
+          )}
+
+          {error && (
+            <p className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+              <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+              {error}
+            </p>
+          )}
+
+          {status === 'generating' && (
+            <div className="flex items-center gap-2 p-6 text-sm text-slate-500 dark:text-slate-400">
+              <Loader2 size={16} className="animate-spin text-amber-600" />
+              Rédaction de l'énoncé...
+            </div>
+          )}
+
+          {caseStudy && status !== 'generating' && (
+            <>
+              <article className="p-6 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800">
+                <div className="flex items-start justify-between gap-3 mb-3">
+                  <h2 className="font-serif font-bold text-xl text-slate-900 dark:text-white">{caseStudy.title}</h2>
+                  <button
+                    onClick={() => openSection(caseStudy.section)}
+                    className="flex items-center gap-1 shrink-0 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                    title="Section du cours sur laquelle porte le cas"
+                  >
+                    <BookOpen size={12} />
+                    {caseStudy.section.path}
+                  </button>
+                </div>
+                <div className="prose prose-sm max-w-none prose-slate dark:prose-invert">
+                  <ReactMarkdown>{caseStudy.facts}</ReactMarkdown>
+                </div>
+                <p className="mt-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-sm font-medium text-amber-900 dark:text-amber-200">{caseStudy.question}</p>
+              </article>
+
+              <div className="p-6 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 space-y-4">
+                {ANSWER_STEPS.map(step => (
+                  <label key={step.field} className="block">
+                    <span className="block text-sm font-semibold text-slate-800 dark:text-slate-100">{step.label}</span>
+                    <span className="block mb-1.5 text-xs text-slate-500 dark:text-slate-400">{step.hint}</span>
+                    <textarea
+                      value={answer[step.field]}
+                      onChange={(e) => setAnswer({ ...answer, [step.field]: e.target.value })}
+                      readOnly={isGraded || isBusy}
+                      rows={step.field === 'majeure' || step.field === 'mineure' ? 6 : 3}
+                      className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 focus:outline-none focus:border-blue-500 read-only:bg-slate-50 dark:read-only:bg-slate-900"
+                    />
+                  </label>
+                ))}
+                {isGraded ? (
+                  <button
+                    onClick={() => setShownAttempt(null)}
+                    className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 text-sm transition-colors"
+                  >
+                    <RotateCcw size={16} />
+                    Retravailler ma copie
+                  </button>
+                ) : status === 'grading' ? (
+                  <button
+                    onClick={() => abortControllerRef.current?.abort()}
+                    className="flex items-center gap-2 px-4 py-2 bg-slate-800 dark:bg-slate-600 text-white text-sm font-medium rounded-lg hover:bg-slate-700 transition-colors"
+                  >
+                    <Loader2 size={16} className="animate-spin" />
+                    Correction en cours... Arrêter
+                  </button>
+                ) : (
+                  <button
+                    onClick={submitAnswer}
+                    disabled={!canSubmit}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors"
+                    title={canSubmit ? undefined : 'Rédigez les quatre parties avant de soumettre'}
+                  >
+                    <Send size={16} />
+                    Soumettre pour correction
+                  </button>
+                )}
+              </div>
+
+              {isGraded && (
+                <div className="p-6 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800">
+                  <GradeReport grade={shownAttempt!.grade} caseStudy={caseStudy} />
+                </div>
+              )}
+            </>
+          )}
+
+          {!caseStudy && status === 'idle' && (
+            <div className="p-8 text-center bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800">
+              <ClipboardCheck size={40} className="mx-auto mb-3 text-amber-500 opacity-60" />
+              <p className="text-sm text-slate-600 dark:text-slate-400 max-w-md mx-auto">
+                Choisissez une section du cours, générez un cas pratique, puis rédigez votre réponse en quatre temps. Elle sera corrigée selon la grille de votre professeur ({rubric.map(c => c.label).join(', ')}).
+              </p>
+            </div>
+          )}
+        </div>
+
+        <aside className="hidden lg:flex w-72 shrink-0 flex-col overflow-hidden">
+          <h3 className="flex items-center gap-2 mb-3 text-xs font-semibold uppercase tracking-wider text-slate-500">
+            <History size={14} />
+            Mes copies ({attempts.length})
+          </h3>
+          <ul className="flex-1 overflow-y-auto space-y-2 pb-6">
+            {attempts.length === 0 && <li className="text-xs text-slate-400">Aucune copie corrigée pour l'instant.</li>}
+            {attempts.map(attempt => (
+              <li key={attempt.id}>
+                <div
+                  onClick={() => !isBusy && reviewAttempt(attempt)}
+                  className={`group p-3 rounded-lg border cursor-pointer transition-colors ${
+                    shownAttempt?.id === attempt.id
+                      ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-700'
+                      : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 hover:border-blue-300'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="text-sm font-medium text-slate-800 dark:text-slate-100 line-clamp-2">{attempt.caseStudy.title}</span>
+                    <span className="shrink-0 text-sm font-bold text-blue-600 dark:text-blue-400">
+                      {attempt.grade.total.toLocaleString('fr-FR')}/{attempt.grade.maxTotal.toLocaleString('fr-FR')}
+                    </span>
+                  </div>
+                  <div className="mt-1 flex items-center justify-between text-[11px] text-slate-400">
+                    <span className="truncate">{attempt.caseStudy.section.path}</span>
+                    <span className="shrink-0 ml-2">{formatAttemptDate(attempt.createdAt)}</span>
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteAttempt(attempt.id);
+                      if (shownAttempt?.id === attempt.id) setShownAttempt(null);
+                    }}
+                    className="mt-1 hidden group-hover:flex items-center gap-1 text-[11px] text-slate-400 hover:text-red-600"
+                  >
+                    <Trash2 size={12} />
+                    Supprimer
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </aside>
+      </div>
+
+      {openPassage && (
+        <CoursePassagePanel course={course} source={openPassage.source} title={openPassage.title} onClose={() => setOpenPassage(null)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { BookOpen, Check, GraduationCap } from 'lucide-react';
+import { CourseSummary } from '../types';
+
+interface CourseCatalogueProps {
+  courses: CourseSummary[];
+  activeCourseId: string | null;
+  onSelect: (courseId: string) => void;
+}
+
+export const CourseCatalogue: React.FC<CourseCatalogueProps> = ({ courses, activeCourseId, onSelect }) => {
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="max-w-5xl mx-auto w-full">
+        <div className="mb-6">
+          <h2 className="text-xl font-serif font-bold text-slate-800 dark:text-white">Catalogue des cours</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+            Choisissez le cours à réviser. Vos conversations sont conservées séparément pour chaque cours.
+          </p>
+        </div>
+
+        {courses.length === 0 ? (
+          <div className="p-8 text-center text-sm text-slate-500 dark:text-slate-400 bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800">
+            Aucun cours n'est encore publié.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {courses.map(course => {
+              const isActive = course.id === activeCourseId;
+              return (
+                <button
+                  key={course.id}
+                  onClick={() => onSelect(course.id)}
+                  className={`text-left p-5 rounded-2xl border transition-all bg-white dark:bg-slate-900 hover:shadow-lg ${
+                    isActive
+                      ? 'border-blue-500 ring-2 ring-blue-500/20'
+                      : 'border-slate-200 dark:border-slate-800 hover:border-blue-300 dark:hover:border-blue-700'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="p-2 bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded-lg">
+                      <BookOpen size={20} />
+                    </div>
+                    {isActive && (
+                      <span className="flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400">
+                        <Check size={14} />
+                        Cours actuel
+                      </span>
+                    )}
+                  </div>
+                  <h3 className="mt-4 font-serif font-bold text-slate-900 dark:text-white">{course.title}</h3>
+                  {course.professorName && (
+                    <p className="mt-1 flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+                      <GraduationCap size={14} />
+                      {course.professorName}
+                    </p>
+                  )}
+                  {course.description && (
+                    <p className="mt-3 text-sm text-slate-600 dark:text-slate-300 line-clamp-3">{course.description}</p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
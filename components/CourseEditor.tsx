@@ -1,30 +1,119 @@
 
-import React, { useState, useEffect } from 'react';
-import { Save, FileText, Upload, Bot, Book, Info, Check, Loader2, Download, UploadCloud, RefreshCw, FileCode, Code } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Save, FileText, Upload, Bot, Book, Info, Check, Loader2, Download, UploadCloud, RefreshCw, FileCode, Code, Search, SlidersHorizontal, Cpu, AudioLines, RotateCcw, UserRound, History, Quote, ClipboardCheck } from 'lucide-react';
+import { CoursePersona, ModelSettings, RetrievalConfig, RubricCriterion } from '../types';
+import { DEFAULT_MODEL_SETTINGS, LIVE_VOICES } from '../services/llmProvider';
+import { PERSONA_PLACEHOLDERS } from '../services/courses';
+import { normalizeRubric } from '../services/caseStudy';
+import { VersionHistory, VersionHistorySource } from './VersionHistory';
+import { ImportPreview, ImportMode } from './ImportPreview';
+import { CourseTextEditor } from './CourseTextEditor';
+import { QuoteReports, QuoteReportSource } from './QuoteReports';
+import { RubricEditor } from './RubricEditor';
+import { importCourseFile, ImportedCourse, IMPORT_ACCEPT } from '../services/courseImport';
 
 interface CourseEditorProps {
   initialContent: string;
-  onSaveContent: (newContent: string) => void;
+  onSaveContent: (newContent: string, versionMessage?: string) => Promise<void>;
   initialInstruction: string;
-  onSaveInstruction: (newInstruction: string) => void;
+  onSaveInstruction: (newInstruction: string, versionMessage?: string) => Promise<void>;
+  retrievalConfig: RetrievalConfig;
+  onSaveRetrievalConfig: (config: RetrievalConfig) => void;
+  modelSettings: ModelSettings;
+  onSaveModelSettings: (settings: ModelSettings) => void;
+  persona: CoursePersona;
+  onSavePersona: (persona: CoursePersona) => void;
+  caseRubric: RubricCriterion[];
+  onSaveCaseRubric: (rubric: RubricCriterion[]) => void;
+  history: VersionHistorySource;
+  quoteReports: QuoteReportSource;
 }
 
-type Tab = 'content' | 'instruction';
+type Tab = 'content' | 'instruction' | 'model' | 'rubric' | 'quotes';
+
+// Suggestions only: any model ID accepted by the API can be typed in
+const TEXT_MODEL_SUGGESTIONS = ['models/gemini-2.0-flash', 'models/gemini-2.5-flash', 'models/gemini-2.5-pro', 'models/gemini-2.0-flash-lite'];
+const LIVE_MODEL_SUGGESTIONS = ['models/gemini-2.0-flash-exp', 'models/gemini-2.0-flash-live-001', 'models/gemini-live-2.5-flash-preview'];
+
+interface OptionalNumberFieldProps {
+  label: string;
+  hint: string;
+  value: number | null;
+  fallback: number;      // value proposed when the professor stops using the model default
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number | null) => void;
+}
+
+// Numeric parameter that can be left to the model's own default (null)
+const OptionalNumberField: React.FC<OptionalNumberFieldProps> = ({ label, hint, value, fallback, min, max, step, onChange }) => (
+  <div className="p-4 rounded-lg border border-slate-200 dark:border-slate-800">
+    <div className="flex items-center justify-between gap-3">
+      <span className="font-semibold text-slate-800 dark:text-white text-sm">{label}</span>
+      <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value === null}
+          onChange={(e) => onChange(e.target.checked ? null : fallback)}
+          className="rounded border-slate-300 dark:border-slate-600"
+        />
+        Défaut du modèle
+      </label>
+    </div>
+    <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{hint}</p>
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={value ?? ''}
+      placeholder="Défaut"
+      disabled={value === null}
+      onChange={(e) => {
+        const n = Number(e.target.value);
+        if (e.target.value !== '' && !Number.isNaN(n)) onChange(Math.min(max, Math.max(min, n)));
+      }}
+      className="mt-3 w-32 px-2 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 disabled:opacity-50"
+    />
+  </div>
+);
 
 export const CourseEditor: React.FC<CourseEditorProps> = ({ 
   initialContent, 
   onSaveContent,
   initialInstruction,
-  onSaveInstruction
+  onSaveInstruction,
+  retrievalConfig,
+  onSaveRetrievalConfig,
+  modelSettings,
+  onSaveModelSettings,
+  persona,
+  onSavePersona,
+  caseRubric,
+  onSaveCaseRubric,
+  history,
+  quoteReports
 }) => {
   const [activeTab, setActiveTab] = useState<Tab>('content');
   
   const [content, setContent] = useState(initialContent);
   const [instruction, setInstruction] = useState(initialInstruction);
+  const [personaDraft, setPersonaDraft] = useState(persona);
   
-  const [isSavingContent, setIsSavingContent] = useState(false);
-  const [isSavingInstruction, setIsSavingInstruction] = useState(false);
+  // Auto-saves still waiting for the server's answer
+  const [pendingContentSaves, setPendingContentSaves] = useState(0);
+  const [pendingInstructionSaves, setPendingInstructionSaves] = useState(0);
+  const isSavingContent = pendingContentSaves > 0;
+  const isSavingInstruction = pendingInstructionSaves > 0;
   const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [isImportingFile, setIsImportingFile] = useState(false);
+  const [pendingImport, setPendingImport] = useState<ImportedCourse | null>(null);
+
+  // Version history sidebar; the revision counters reload it once a save has reached the server
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [contentRevision, setContentRevision] = useState(0);
+  const [instructionRevision, setInstructionRevision] = useState(0);
 
   // Sync internal state if props change externally
   useEffect(() => {
@@ -33,48 +122,100 @@ export const CourseEditor: React.FC<CourseEditorProps> = ({
     }
   }, [initialContent]);
 
+  // The parent recreates its callbacks on every render: read through refs so that only typing restarts the debounce
+  const onSaveContentRef = useRef(onSaveContent);
+  onSaveContentRef.current = onSaveContent;
+  const onSaveInstructionRef = useRef(onSaveInstruction);
+  onSaveInstructionRef.current = onSaveInstruction;
+
+  const autoSave = (save: Promise<void>, setPending: React.Dispatch<React.SetStateAction<number>>, onSaved: () => void) => {
+    setPending(n => n + 1);
+    save
+      .then(onSaved)
+      .catch(error => console.error('Auto-save failed', error))
+      .finally(() => setPending(n => n - 1));
+  };
+
   // Auto-save for Content
   useEffect(() => {
     if (content === initialContent) return;
 
-    setIsSavingContent(true);
     const timer = setTimeout(() => {
-      onSaveContent(content);
-      setIsSavingContent(false);
+      autoSave(onSaveContentRef.current(content), setPendingContentSaves, () => setContentRevision(r => r + 1));
     }, 1500); // 1.5s debounce
 
     return () => clearTimeout(timer);
-  }, [content, initialContent, onSaveContent]);
+  }, [content, initialContent]);
 
   // Auto-save for Instruction
   useEffect(() => {
     if (instruction === initialInstruction) return;
 
-    setIsSavingInstruction(true);
     const timer = setTimeout(() => {
-      onSaveInstruction(instruction);
-      setIsSavingInstruction(false);
+      autoSave(onSaveInstructionRef.current(instruction), setPendingInstructionSaves, () => setInstructionRevision(r => r + 1));
     }, 1500); // 1.5s debounce
 
     return () => clearTimeout(timer);
-  }, [instruction, initialInstruction, onSaveInstruction]);
+  }, [instruction, initialInstruction]);
+
+  // Restoring publishes pending edits first, so that they also stay in the history
+  const restoreContent = async (text: string, message: string) => {
+    if (content !== initialContent) await onSaveContent(content);
+    setContent(text);
+    await onSaveContent(text, message);
+    setContentRevision(r => r + 1);
+  };
+
+  const restoreInstruction = async (text: string, message: string) => {
+    if (instruction !== initialInstruction) await onSaveInstruction(instruction);
+    setInstruction(text);
+    await onSaveInstruction(text, message);
+    setInstructionRevision(r => r + 1);
+  };
+
+  const historyToggle = (
+    <button
+      onClick={() => setIsHistoryOpen(open => !open)}
+      className={`flex items-center gap-2 px-3 py-1.5 border rounded-lg text-sm transition-colors ${
+        isHistoryOpen
+          ? 'bg-slate-800 dark:bg-slate-200 text-white dark:text-slate-900 border-transparent'
+          : 'bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300'
+      }`}
+      title="Versions enregistrées, comparaison et restauration"
+    >
+      <History size={16} />
+      <span>Historique</span>
+    </button>
+  );
 
   // Stats for Content
   const charCount = content.length;
   const wordCount = content.split(/\s+/).filter(w => w.length > 0).length;
   const estimatedPages = Math.ceil(wordCount / 500); // approx 500 words per page
 
-  const handleTextFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Word, PDF and text files are converted in the browser, then previewed before anything is replaced
+  const handleCourseFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      setContent(text);
-      // Auto-save will trigger via useEffect
-    };
-    reader.readAsText(file);
+    setIsImportingFile(true);
+    try {
+      setPendingImport(await importCourseFile(file));
+    } catch (err) {
+      console.error("Erreur import", err);
+      setImportStatus(`Erreur : ${(err as Error).message}`);
+      setTimeout(() => setImportStatus(null), 5000);
+    } finally {
+      setIsImportingFile(false);
+    }
+  };
+
+  const applyImport = (mode: ImportMode) => {
+    if (!pendingImport) return;
+    setContent(mode === 'replace' || !content.trim() ? pendingImport.text : `${content.trimEnd()}\n\n${pendingImport.text}`);
+    setPendingImport(null);
+    // Auto-save will trigger via useEffect
   };
 
   // NEW: Full Configuration Export
@@ -83,7 +224,11 @@ export const CourseEditor: React.FC<CourseEditorProps> = ({
         title: "Droit Public IA - Configuration Backup",
         date: new Date().toISOString(),
         courseContent: content,
-        systemInstruction: instruction
+        systemInstruction: instruction,
+        retrievalConfig,
+        modelSettings,
+        persona,
+        caseRubric
     };
 
     const blob = new Blob([JSON.stringify(configData, null, 2)], { type: 'application/json' });
@@ -116,6 +261,19 @@ export const CourseEditor: React.FC<CourseEditorProps> = ({
             setInstruction(json.systemInstruction);
             onSaveInstruction(json.systemInstruction);
         }
+        if (json.retrievalConfig) {
+            onSaveRetrievalConfig({ ...retrievalConfig, ...json.retrievalConfig });
+        }
+        if (json.modelSettings) {
+            onSaveModelSettings({ ...DEFAULT_MODEL_SETTINGS, ...json.modelSettings });
+        }
+        if (json.persona) {
+            setPersonaDraft({ ...persona, ...json.persona });
+            onSavePersona({ ...persona, ...json.persona });
+        }
+        if (Array.isArray(json.caseRubric) && json.caseRubric.length > 0) {
+            onSaveCaseRubric(normalizeRubric(json.caseRubric));
+        }
         setImportStatus("Configuration restaurée avec succès !");
         setTimeout(() => setImportStatus(null), 3000);
       } catch (err) {
@@ -129,6 +287,15 @@ export const CourseEditor: React.FC<CourseEditorProps> = ({
     e.target.value = '';
   };
 
+  const updateModelSettings = (patch: Partial<ModelSettings>) => {
+    onSaveModelSettings({ ...modelSettings, ...patch });
+  };
+
+  // Persona fields are published when the field loses focus, not on every keystroke
+  const commitPersona = () => {
+    if (PERSONA_PLACEHOLDERS.some(({ field }) => personaDraft[field] !== persona[field])) onSavePersona(personaDraft);
+  };
+
   // NEW: Generate constants.ts file for developer/deployment
   const handleGenerateCode = () => {
     // Escape backticks to prevent syntax errors in the generated TS file
@@ -212,6 +379,15 @@ export const DEFAULT_SYSTEM_INSTRUCTION = \`${safeInstruction}\`;
             </button>
         </div>
         
+        {pendingImport && (
+            <ImportPreview
+              imported={pendingImport}
+              hasContent={content.trim().length > 0}
+              onApply={applyImport}
+              onCancel={() => setPendingImport(null)}
+            />
+        )}
+
         {importStatus && (
             <div className={`absolute top-20 right-8 px-4 py-2 rounded-lg text-sm shadow-lg animate-in fade-in slide-in-from-top-2 ${importStatus.includes('Erreur') ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>
                 {importStatus}
@@ -243,6 +419,39 @@ export const DEFAULT_SYSTEM_INSTRUCTION = \`${safeInstruction}\`;
           <Bot size={18} />
           <span>Instructions IA (Comportement)</span>
         </button>
+        <button
+          onClick={() => setActiveTab('model')}
+          className={`flex items-center gap-2 px-6 py-3 rounded-t-xl font-medium text-sm transition-colors relative top-[1px] ${
+            activeTab === 'model'
+              ? 'bg-white dark:bg-slate-900 text-emerald-600 dark:text-emerald-400 border border-slate-200 dark:border-slate-800 border-b-white dark:border-b-slate-900 z-10'
+              : 'bg-slate-100 dark:bg-slate-950 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+          }`}
+        >
+          <SlidersHorizontal size={18} />
+          <span>Modèle & génération</span>
+        </button>
+        <button
+          onClick={() => setActiveTab('rubric')}
+          className={`flex items-center gap-2 px-6 py-3 rounded-t-xl font-medium text-sm transition-colors relative top-[1px] ${
+            activeTab === 'rubric'
+              ? 'bg-white dark:bg-slate-900 text-teal-600 dark:text-teal-400 border border-slate-200 dark:border-slate-800 border-b-white dark:border-b-slate-900 z-10'
+              : 'bg-slate-100 dark:bg-slate-950 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+          }`}
+        >
+          <ClipboardCheck size={18} />
+          <span>Grille du cas pratique</span>
+        </button>
+        <button
+          onClick={() => setActiveTab('quotes')}
+          className={`flex items-center gap-2 px-6 py-3 rounded-t-xl font-medium text-sm transition-colors relative top-[1px] ${
+            activeTab === 'quotes'
+              ? 'bg-white dark:bg-slate-900 text-amber-600 dark:text-amber-400 border border-slate-200 dark:border-slate-800 border-b-white dark:border-b-slate-900 z-10'
+              : 'bg-slate-100 dark:bg-slate-950 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+          }`}
+        >
+          <Quote size={18} />
+          <span>Citations signalées</span>
+        </button>
       </div>
 
       <div className="flex-1 bg-white dark:bg-slate-900 rounded-b-xl rounded-tr-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden flex flex-col p-6 transition-colors">
@@ -259,10 +468,11 @@ export const DEFAULT_SYSTEM_INSTRUCTION = \`${safeInstruction}\`;
                     <span className="bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded">~ <strong>{estimatedPages}</strong> pages</span>
                  </div>
                  <div className="flex gap-2 items-center">
+                    {historyToggle}
                     <label className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 cursor-pointer text-slate-700 dark:text-slate-300 text-sm transition-colors">
-                        <Upload size={16} />
-                        <span>Importer (.txt)</span>
-                        <input type="file" accept=".txt,.md" onChange={handleTextFileUpload} className="hidden" />
+                        {isImportingFile ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+                        <span>{isImportingFile ? 'Conversion...' : 'Importer (Word, PDF, .txt)'}</span>
+                        <input type="file" accept={IMPORT_ACCEPT} onChange={handleCourseFileUpload} disabled={isImportingFile} className="hidden" />
                     </label>
                     
                     <div className={`flex items-center gap-2 px-4 py-1.5 rounded-lg text-sm font-medium transition-all ${
@@ -294,29 +504,42 @@ export const DEFAULT_SYSTEM_INSTRUCTION = \`${safeInstruction}\`;
                   <Info size={14} className="mt-0.5 shrink-0 text-blue-500 dark:text-blue-400" />
                   <p>
                     <strong>Sauvegarde automatique activée.</strong> Le texte est enregistré automatiquement lorsque vous arrêtez de taper. 
-                    <br/>Conseil : Pour des cours volumineux, copiez-collez par sections si nécessaire, ou importez un fichier .txt.
+                    <br/>Le plan à gauche suit les titres du cours (cliquez pour y aller) ; Ctrl+F ouvre la recherche, Ctrl+H le remplacement, expressions régulières comprises.
                   </p>
                </div>
             </div>
 
-            <textarea 
+            <div className="flex-1 flex gap-4 min-h-0">
+            <CourseTextEditor
                 value={content}
-                onChange={(e) => setContent(e.target.value)}
-                spellCheck={false}
-                className="flex-1 w-full p-4 resize-none border border-slate-200 dark:border-slate-800 rounded-lg focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500/50 text-slate-700 dark:text-slate-200 leading-relaxed font-mono text-sm bg-white dark:bg-slate-950 transition-colors placeholder:text-slate-400 dark:placeholder:text-slate-600"
-                placeholder="Collez ici l'intégralité du cours de droit (copiez-collez votre texte ou importez un fichier .txt)..."
+                onChange={setContent}
+                placeholder="Collez ici l'intégralité du cours de droit (copiez-collez votre texte ou importez un fichier Word, PDF ou .txt)..."
             />
+            {isHistoryOpen && (
+                <VersionHistory
+                  field="courseContent"
+                  currentText={content}
+                  revision={contentRevision}
+                  source={history}
+                  onRestore={restoreContent}
+                  onMark={(message) => onSaveContent(content, message).then(() => setContentRevision(r => r + 1))}
+                  onClose={() => setIsHistoryOpen(false)}
+                />
+            )}
+            </div>
           </div>
         )}
 
         {/* INSTRUCTION TAB */}
         {activeTab === 'instruction' && (
-          <div className="flex flex-col h-full animate-in fade-in duration-200">
+          <div className="flex flex-col h-full overflow-y-auto animate-in fade-in duration-200">
             <div className="flex items-center justify-between mb-4">
                <div className="text-sm text-slate-500 dark:text-slate-400">
                   <p>Définissez ici la personnalité et les règles pédagogiques de l'IA.</p>
                </div>
                
+               <div className="flex gap-2 items-center">
+               {historyToggle}
                <div className={`flex items-center gap-2 px-4 py-1.5 rounded-lg text-sm font-medium transition-all ${
                     isSavingInstruction 
                     ? 'bg-purple-50 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400' 
@@ -338,7 +561,9 @@ export const DEFAULT_SYSTEM_INSTRUCTION = \`${safeInstruction}\`;
                         </>
                     )}
                 </div>
+               </div>
             </div>
+            <div className="flex-1 flex gap-4 min-h-[16rem]">
             <div className="flex-1 relative">
                 <textarea 
                     value={instruction}
@@ -347,12 +572,206 @@ export const DEFAULT_SYSTEM_INSTRUCTION = \`${safeInstruction}\`;
                     placeholder="Vous êtes un professeur..."
                 />
             </div>
+            {isHistoryOpen && (
+                <VersionHistory
+                  field="systemInstruction"
+                  currentText={instruction}
+                  revision={instructionRevision}
+                  source={history}
+                  onRestore={restoreInstruction}
+                  onMark={(message) => onSaveInstruction(instruction, message).then(() => setInstructionRevision(r => r + 1))}
+                  onClose={() => setIsHistoryOpen(false)}
+                />
+            )}
+            </div>
             <div className="mt-4 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-800 text-xs text-slate-500 dark:text-slate-400">
                 <strong>Note :</strong> La sauvegarde est également automatique ici.
             </div>
+
+            {/* Course context sent with each question */}
+            <div className="mt-4 p-4 rounded-lg border border-slate-200 dark:border-slate-800 flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex items-center gap-3 flex-1">
+                    <div className="p-2 bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400 rounded-lg">
+                        <Search size={18} />
+                    </div>
+                    <div>
+                        <h4 className="font-semibold text-slate-800 dark:text-white text-sm">Contexte transmis à l'IA</h4>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">En mode "extraits", seuls les passages du cours pertinents pour la question sont envoyés.</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-3">
+                    <select
+                        value={retrievalConfig.mode}
+                        onChange={(e) => onSaveRetrievalConfig({ ...retrievalConfig, mode: e.target.value as RetrievalConfig['mode'] })}
+                        className="px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+                    >
+                        <option value="retrieval">Extraits pertinents</option>
+                        <option value="full">Cours complet</option>
+                    </select>
+                    <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+                        Budget
+                        <input
+                            type="number"
+                            min={500}
+                            step={500}
+                            value={retrievalConfig.tokenBudget}
+                            disabled={retrievalConfig.mode === 'full'}
+                            onChange={(e) => onSaveRetrievalConfig({ ...retrievalConfig, tokenBudget: Math.max(500, Number(e.target.value) || 0) })}
+                            className="w-24 px-2 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 disabled:opacity-50"
+                        />
+                        tokens
+                    </label>
+                </div>
+            </div>
+
+            {/* Course persona, substituted for the {{...}} markers of the instruction and welcome message */}
+            <div className="mt-4 p-4 rounded-lg border border-slate-200 dark:border-slate-800">
+                <div className="flex items-center gap-3 mb-3">
+                    <div className="p-2 bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400 rounded-lg">
+                        <UserRound size={18} />
+                    </div>
+                    <div>
+                        <h4 className="font-semibold text-slate-800 dark:text-white text-sm">Persona du cours</h4>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            Chaque champ remplace son marqueur dans l'instruction et le message d'accueil ({PERSONA_PLACEHOLDERS.map(p => p.token).join(', ')}).
+                        </p>
+                    </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {PERSONA_PLACEHOLDERS.map(({ token, field, label }) => {
+                        const isLong = field === 'assistantIntro' || field === 'professorBio';
+                        const inputProps = {
+                            value: personaDraft[field],
+                            onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setPersonaDraft({ ...personaDraft, [field]: e.target.value }),
+                            onBlur: commitPersona,
+                            className: "w-full px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+                        };
+                        return (
+                            <label key={field} className={`block text-xs text-slate-500 dark:text-slate-400 ${isLong ? 'md:col-span-3' : ''}`}>
+                                <span className="block mb-1">{label} <code className="text-purple-600 dark:text-purple-400">{token}</code></span>
+                                {isLong ? <textarea rows={2} {...inputProps} className={`${inputProps.className} resize-none`} /> : <input {...inputProps} />}
+                            </label>
+                        );
+                    })}
+                </div>
+            </div>
+          </div>
+        )}
+
+        {/* MODEL TAB */}
+        {activeTab === 'model' && (
+          <div className="flex flex-col h-full overflow-y-auto animate-in fade-in duration-200">
+            <div className="flex items-center justify-between mb-4">
+               <div className="text-sm text-slate-500 dark:text-slate-400">
+                  <p>Choisissez les modèles utilisés et la manière dont l'IA rédige ses réponses, à l'écrit comme à l'oral.</p>
+               </div>
+               <button
+                  onClick={() => onSaveModelSettings(DEFAULT_MODEL_SETTINGS)}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 text-sm transition-colors shrink-0"
+               >
+                  <RotateCcw size={16} />
+                  <span>Valeurs par défaut</span>
+               </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="p-4 rounded-lg border border-slate-200 dark:border-slate-800">
+                    <div className="flex items-center gap-2 font-semibold text-slate-800 dark:text-white text-sm">
+                        <Cpu size={16} className="text-emerald-500" />
+                        Modèle de la discussion écrite
+                    </div>
+                    <input
+                        list="text-model-suggestions"
+                        value={modelSettings.textModel}
+                        onChange={(e) => updateModelSettings({ textModel: e.target.value })}
+                        onBlur={(e) => !e.target.value.trim() && updateModelSettings({ textModel: DEFAULT_MODEL_SETTINGS.textModel })}
+                        className="mt-3 w-full px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-mono bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+                    />
+                    <datalist id="text-model-suggestions">
+                        {TEXT_MODEL_SUGGESTIONS.map(m => <option key={m} value={m} />)}
+                    </datalist>
+                </div>
+
+                <div className="p-4 rounded-lg border border-slate-200 dark:border-slate-800">
+                    <div className="flex items-center gap-2 font-semibold text-slate-800 dark:text-white text-sm">
+                        <AudioLines size={16} className="text-emerald-500" />
+                        Mode oral : modèle et voix
+                    </div>
+                    <div className="mt-3 flex gap-2">
+                        <input
+                            list="live-model-suggestions"
+                            value={modelSettings.liveModel}
+                            onChange={(e) => updateModelSettings({ liveModel: e.target.value })}
+                            onBlur={(e) => !e.target.value.trim() && updateModelSettings({ liveModel: DEFAULT_MODEL_SETTINGS.liveModel })}
+                            className="flex-1 min-w-0 px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-mono bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+                        />
+                        <select
+                            value={modelSettings.voiceName}
+                            onChange={(e) => updateModelSettings({ voiceName: e.target.value })}
+                            className="px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+                        >
+                            {LIVE_VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+                        </select>
+                    </div>
+                    <datalist id="live-model-suggestions">
+                        {LIVE_MODEL_SUGGESTIONS.map(m => <option key={m} value={m} />)}
+                    </datalist>
+                </div>
+
+                <OptionalNumberField
+                    label="Température"
+                    hint="De 0 à 2. Basse : réponses constantes et prudentes ; haute : formulations plus variées."
+                    value={modelSettings.temperature}
+                    fallback={1}
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    onChange={(temperature) => updateModelSettings({ temperature })}
+                />
+                <OptionalNumberField
+                    label="Top-p"
+                    hint="De 0 à 1. Restreint le choix des mots aux plus probables."
+                    value={modelSettings.topP}
+                    fallback={0.95}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    onChange={(topP) => updateModelSettings({ topP })}
+                />
+                <OptionalNumberField
+                    label="Longueur maximale des réponses"
+                    hint="En tokens (environ 4 caractères). Une réponse trop longue est coupée."
+                    value={modelSettings.maxOutputTokens}
+                    fallback={2048}
+                    min={64}
+                    max={65536}
+                    step={64}
+                    onChange={(maxOutputTokens) => updateModelSettings({ maxOutputTokens })}
+                />
+                <OptionalNumberField
+                    label="Budget de réflexion"
+                    hint="En tokens, pour les modèles qui raisonnent avant de répondre (Gemini 2.5). 0 : désactivé ; -1 : laissé au modèle."
+                    value={modelSettings.thinkingBudget}
+                    fallback={1024}
+                    min={-1}
+                    max={32768}
+                    step={256}
+                    onChange={(thinkingBudget) => updateModelSettings({ thinkingBudget })}
+                />
+            </div>
+
+            <div className="mt-4 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-800 text-xs text-slate-500 dark:text-slate-400">
+                <strong>Note :</strong> Les réglages sont enregistrés immédiatement et s'appliquent à la prochaine question (écrit) ou à la prochaine séance (oral). Un paramètre non pris en charge par le modèle choisi peut provoquer une erreur.
+            </div>
           </div>
         )}
 
+        {/* RUBRIC TAB */}
+        {activeTab === 'rubric' && <RubricEditor rubric={caseRubric} onSave={onSaveCaseRubric} />}
+
+        {/* QUOTES TAB */}
+        {activeTab === 'quotes' && <QuoteReports source={quoteReports} />}
+
       </div>
     </div>
   );
@@ -0,0 +1,144 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { BookA, Search, MessageSquare, HelpCircle, BookOpen } from 'lucide-react';
+import { CourseContext, SourceReference } from '../types';
+import { GlossaryEntry, definitionSource } from '../services/glossary';
+import { useGlossary } from '../hooks/useGlossary';
+import { CoursePassagePanel } from './CoursePassagePanel';
+
+interface CourseGlossaryProps {
+  course: CourseContext;
+  onAsk: (prompt: string) => void;
+}
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const askPrompt = (entry: GlossaryEntry) =>
+  `Explique-moi la notion de « ${entry.term} » telle que le cours la définit, puis illustre-la par un exemple tiré du cours.`;
+
+const quizPrompt = (entry: GlossaryEntry) =>
+  `Interroge-moi sur la définition de « ${entry.term} » : pose-moi la question sans donner la réponse, attends ma réponse, puis corrige-la en citant la définition exacte du cours.`;
+
+// Every "Définition :" of the course, grouped by section, with shortcuts to the chat
+export const CourseGlossary: React.FC<CourseGlossaryProps> = ({ course, onAsk }) => {
+  const [query, setQuery] = useState('');
+  const [openPassage, setOpenPassage] = useState<{ source: SourceReference; title: string } | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const glossary = useGlossary(course);
+  const assistantName = course.persona.assistantName;
+
+  const groups = useMemo(() => {
+    const needle = normalize(query.trim());
+    if (!needle) return glossary.groups;
+    return glossary.groups
+      .map(group => ({
+        ...group,
+        entries: group.entries.filter(entry => normalize(`${entry.term} ${entry.text}`).includes(needle))
+      }))
+      .filter(group => group.entries.length > 0);
+  }, [glossary, query]);
+
+  const scrollToGroup = (nodeId: string) => {
+    listRef.current?.querySelector(`[data-group-id="${nodeId}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const openDefinition = (entry: GlossaryEntry) => {
+    setOpenPassage({ source: definitionSource(entry, course.content), title: `Définition — ${entry.term}` });
+  };
+
+  return (
+    <div className="relative h-full overflow-hidden">
+      <div className="flex h-full max-w-6xl mx-auto w-full gap-6">
+        <nav className="hidden lg:flex w-64 shrink-0 flex-col overflow-y-auto">
+          <h2 className="flex items-center gap-2 mb-1 text-xl font-serif font-bold text-slate-800 dark:text-white">
+            <BookA size={22} className="text-blue-600 dark:text-blue-400" />
+            Glossaire
+          </h2>
+          <p className="mb-4 text-sm text-slate-500 dark:text-slate-400">{glossary.entries.length} notions définies dans le cours.</p>
+          <ul className="space-y-1">
+            {groups.map(group => (
+              <li key={group.node.id}>
+                <button
+                  onClick={() => scrollToGroup(group.node.id)}
+                  className="w-full flex items-start justify-between gap-2 px-2 py-1.5 rounded-lg text-left text-xs text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                  title={group.title}
+                >
+                  <span className="line-clamp-2">{group.title.split(' › ').slice(-1)[0]}</span>
+                  <span className="shrink-0 text-slate-400">{group.entries.length}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </nav>
+
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="relative mb-4">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Rechercher une notion (ex. régie, imprévision, acte réglementaire)..."
+              className="w-full pl-9 pr-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+            />
+          </div>
+
+          <div ref={listRef} className="flex-1 overflow-y-auto space-y-8 pb-6">
+            {glossary.entries.length === 0 && (
+              <div className="p-8 text-center text-sm text-slate-500 dark:text-slate-400 bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800">
+                Aucune définition n'a été reconnue dans ce cours. Les lignes commençant par « Définition : » alimentent le glossaire.
+              </div>
+            )}
+            {glossary.entries.length > 0 && groups.length === 0 && (
+              <p className="text-sm text-slate-500 dark:text-slate-400">Aucune notion ne correspond.</p>
+            )}
+
+            {groups.map(group => (
+              <section key={group.node.id} data-group-id={group.node.id}>
+                <h3 className="sticky top-0 z-10 mb-3 py-2 bg-slate-50 dark:bg-slate-950 text-xs font-semibold uppercase tracking-wider text-slate-500">
+                  {group.title}
+                </h3>
+                <div className="space-y-3">
+                  {group.entries.map(entry => (
+                    <article key={entry.id} className="p-4 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800">
+                      <h4 className="font-serif font-bold text-slate-900 dark:text-white first-letter:uppercase">{entry.term}</h4>
+                      <p className="mt-1 text-sm text-slate-700 dark:text-slate-300 whitespace-pre-line leading-relaxed">{entry.text}</p>
+                      <div className="mt-3 flex flex-wrap items-center gap-2">
+                        <button
+                          onClick={() => onAsk(askPrompt(entry))}
+                          className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-cyan-700 dark:text-cyan-300 bg-cyan-50 dark:bg-cyan-900/30 hover:bg-cyan-100 dark:hover:bg-cyan-900/50 rounded-full transition-colors"
+                        >
+                          <MessageSquare size={12} /> Demander à {assistantName}
+                        </button>
+                        <button
+                          onClick={() => onAsk(quizPrompt(entry))}
+                          className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100 dark:hover:bg-blue-900/50 rounded-full transition-colors"
+                        >
+                          <HelpCircle size={12} /> Me tester
+                        </button>
+                        <button
+                          onClick={() => openDefinition(entry)}
+                          className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors"
+                        >
+                          <BookOpen size={12} /> Voir dans le cours
+                        </button>
+                        {entry.occurrences.length > 1 && (
+                          <span className="ml-auto text-[11px] text-slate-400">
+                            Reprise {entry.occurrences.length - 1} fois dans la section
+                          </span>
+                        )}
+                      </div>
+                    </article>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {openPassage && (
+        <CoursePassagePanel course={course} source={openPassage.source} title={openPassage.title} onClose={() => setOpenPassage(null)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronRight, ChevronDown, ListTree, Search } from 'lucide-react';
+import { CourseNode, CourseNodeKind, ParsedCourse } from '../types';
+import { getNodePath } from '../services/courseParser';
+
+interface CourseOutlineProps {
+  structure: ParsedCourse | null;
+  activeNodeId: string | null;
+  onSelect: (node: CourseNode) => void;
+}
+
+// Parts and chapters start unfolded so that sections are visible; deeper levels open on demand
+const OPEN_BY_DEFAULT: CourseNodeKind[] = ['part', 'chapter'];
+
+const KIND_STYLES: Record<CourseNodeKind, string> = {
+  course: '',
+  part: 'font-bold text-slate-900 dark:text-white',
+  chapter: 'font-semibold text-slate-800 dark:text-slate-100',
+  section: 'font-medium text-slate-700 dark:text-slate-200',
+  roman: 'text-slate-600 dark:text-slate-300',
+  letter: 'text-slate-600 dark:text-slate-300',
+  number: 'text-slate-500 dark:text-slate-400',
+  subletter: 'text-slate-500 dark:text-slate-400'
+};
+
+const MAX_FILTER_RESULTS = 50;
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Collapsible plan of the course; clicking a heading moves the editor to it
+export const CourseOutline: React.FC<CourseOutlineProps> = React.memo(({ structure, activeNodeId, onSelect }) => {
+  const [filter, setFilter] = useState('');
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // The branch holding the cursor is always unfolded
+  const activePath = useMemo(() => {
+    if (!structure || !activeNodeId) return new Set<string>();
+    return new Set(getNodePath(structure, activeNodeId).map(node => node.id));
+  }, [structure, activeNodeId]);
+
+  const matches = useMemo(() => {
+    const needle = normalize(filter.trim());
+    if (!structure || !needle) return null;
+    return structure.headings
+      .filter(node => normalize(`${node.label} ${node.title}`).includes(needle))
+      .slice(0, MAX_FILTER_RESULTS);
+  }, [structure, filter]);
+
+  useEffect(() => {
+    if (!activeNodeId) return;
+    listRef.current?.querySelector(`[data-node-id="${activeNodeId}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeNodeId]);
+
+  const isExpanded = (node: CourseNode) =>
+    expanded[node.id] ?? (OPEN_BY_DEFAULT.includes(node.kind) || activePath.has(node.id));
+
+  const headingButton = (node: CourseNode) => (
+    <button
+      data-node-id={node.id}
+      onClick={() => onSelect(node)}
+      className={`flex-1 min-w-0 text-left truncate px-1 py-0.5 rounded ${KIND_STYLES[node.kind]} ${
+        node.id === activeNodeId ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300' : 'hover:bg-slate-100 dark:hover:bg-slate-800'
+      }`}
+      title={`${node.label} – ${node.title}`}
+    >
+      <span className="mr-1">{node.label}</span>
+      <span className="font-normal">{node.title}</span>
+    </button>
+  );
+
+  const renderNode = (node: CourseNode): React.ReactNode => {
+    const open = isExpanded(node);
+    return (
+      <li key={node.id}>
+        <div className="flex items-center gap-0.5">
+          {node.children.length > 0 ? (
+            <button
+              onClick={() => setExpanded(prev => ({ ...prev, [node.id]: !open }))}
+              className="p-0.5 shrink-0 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded"
+              title={open ? 'Replier' : 'Déplier'}
+            >
+              {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+            </button>
+          ) : (
+            <span className="w-4 shrink-0" />
+          )}
+          {headingButton(node)}
+        </div>
+        {open && node.children.length > 0 && <ul className="pl-3">{node.children.map(renderNode)}</ul>}
+      </li>
+    );
+  };
+
+  return (
+    <aside className="w-64 shrink-0 flex flex-col border border-slate-200 dark:border-slate-800 rounded-lg bg-slate-50 dark:bg-slate-950 overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-200 dark:border-slate-800 text-sm font-semibold text-slate-800 dark:text-white">
+        <ListTree size={16} />
+        Plan
+        {structure && <span className="ml-auto text-xs font-normal text-slate-400">{structure.headings.length} titres</span>}
+      </div>
+      <div className="p-2 border-b border-slate-200 dark:border-slate-800">
+        <div className="relative">
+          <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && matches?.length) onSelect(matches[0]);
+              if (e.key === 'Escape') setFilter('');
+            }}
+            placeholder="Aller à un titre..."
+            className="w-full pl-6 pr-2 py-1 border border-slate-300 dark:border-slate-700 rounded-lg text-xs bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+          />
+        </div>
+      </div>
+      <div ref={listRef} className="flex-1 overflow-y-auto p-2 text-xs">
+        {!structure ? null : matches ? (
+          matches.length === 0 ? (
+            <p className="px-1 text-slate-500 dark:text-slate-400">Aucun titre ne correspond.</p>
+          ) : (
+            <ul className="space-y-0.5">
+              {matches.map(node => <li key={node.id} className="flex">{headingButton(node)}</li>)}
+            </ul>
+          )
+        ) : structure.root.children.length === 0 ? (
+          <p className="px-1 text-slate-500 dark:text-slate-400">Aucun titre reconnu. Les titres du type « CHAPITRE I – ... », « SECTION I – ... » ou « A – ... » construisent le plan.</p>
+        ) : (
+          <ul>{structure.root.children.map(renderNode)}</ul>
+        )}
+      </div>
+    </aside>
+  );
+});
@@ -0,0 +1,89 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { X, BookOpen, AlertTriangle } from 'lucide-react';
+import { CourseContext, SourceReference } from '../types';
+import { getNodePath, formatNodeLabel } from '../services/courseParser';
+import { locateSource } from '../services/citations';
+
+interface CoursePassagePanelProps {
+  course: CourseContext;
+  source: SourceReference;
+  title?: string;      // defaults to the footnote marker of a chat answer
+  onClose: () => void;
+}
+
+// Characters of surrounding course text shown around the highlighted passage
+const CONTEXT_CHARS = 1200;
+
+export const CoursePassagePanel: React.FC<CoursePassagePanelProps> = ({ course, source, title, onClose }) => {
+  const highlightRef = useRef<HTMLElement>(null);
+
+  const location = useMemo(() => locateSource(course.content, source), [course.content, source]);
+  const path = useMemo(() => getNodePath(course.structure, source.nodeId), [course.structure, source.nodeId]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [location]);
+
+  const renderPassage = () => {
+    if (!location) {
+      return (
+        <div className="space-y-3">
+          <div className="flex items-start gap-2 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 rounded-lg text-xs text-amber-800 dark:text-amber-300">
+            <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+            <p>Ce passage a été modifié dans le cours depuis cette réponse. Voici l'extrait tel qu'il figurait alors :</p>
+          </div>
+          <p className="whitespace-pre-wrap">{source.excerpt}</p>
+        </div>
+      );
+    }
+
+    // Stay within the enclosing heading so the panel reads like the course itself
+    const node = path[path.length - 1];
+    const from = Math.max(node ? node.start : 0, location.start - CONTEXT_CHARS);
+    const to = Math.min(node ? node.end : course.content.length, location.end + CONTEXT_CHARS);
+
+    return (
+      <p className="whitespace-pre-wrap">
+        {from > 0 && <span className="text-slate-400">… </span>}
+        {course.content.slice(from, location.start)}
+        <mark ref={highlightRef} className="bg-amber-200 dark:bg-amber-500/30 text-slate-900 dark:text-amber-100 rounded px-0.5">
+          {course.content.slice(location.start, location.end)}
+        </mark>
+        {course.content.slice(location.end, to)}
+        {to < course.content.length && <span className="text-slate-400"> …</span>}
+      </p>
+    );
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-40 w-full md:w-[28rem] flex flex-col bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-800 shadow-2xl animate-in slide-in-from-right duration-200">
+      <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex items-start justify-between gap-3 bg-slate-50 dark:bg-slate-800/50">
+        <div className="flex items-start gap-3 min-w-0">
+          <div className="p-2 bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400 rounded-lg shrink-0">
+            <BookOpen size={18} />
+          </div>
+          <div className="min-w-0">
+            <h3 className="font-serif font-bold text-slate-900 dark:text-white">{title || `Source [${source.marker}]`}</h3>
+            <ol className="mt-1 space-y-0.5">
+              {path.map(n => (
+                <li key={n.id} className="text-xs text-slate-500 dark:text-slate-400 truncate" title={formatNodeLabel(n)}>
+                  {formatNodeLabel(n)}
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-800 rounded-full transition-colors"
+          title="Fermer"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-5 font-serif text-sm leading-relaxed text-slate-700 dark:text-slate-300">
+        {renderPassage()}
+      </div>
+    </div>
+  );
+};
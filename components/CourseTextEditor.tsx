@@ -0,0 +1,510 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ChevronUp, ChevronDown, ChevronRight, X, Replace, Search, FoldVertical, UnfoldVertical, ClipboardCheck } from 'lucide-react';
+import { EditorState, RangeSetBuilder, StateEffect, StateField, Range, Text } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, drawSelection, keymap, lineNumbers, placeholder } from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap } from '@codemirror/commands';
+import { foldAll, foldGutter, foldKeymap, foldService, foldedRanges, unfoldAll, unfoldEffect } from '@codemirror/language';
+import { SearchQuery, findNext, findPrevious, getSearchQuery, replaceAll, replaceNext, search, setSearchQuery } from '@codemirror/search';
+import { CourseNode, CourseNodeKind, ParsedCourse } from '../types';
+import { findNodeAt, parseCourse } from '../services/courseParser';
+import { lintCourse, LintIssue, mergeFixes } from '../services/courseLint';
+import { CourseOutline } from './CourseOutline';
+import { LintPanel } from './LintPanel';
+
+interface CourseTextEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+// The outline and highlighting follow the text once typing pauses
+const PARSE_DELAY_MS = 300;
+const MAX_COUNTED_MATCHES = 10000;
+
+const HEADING_CLASSES: Record<CourseNodeKind, string> = {
+  course: '',
+  part: 'text-lg font-bold text-blue-800 dark:text-blue-300',
+  chapter: 'text-base font-bold text-indigo-700 dark:text-indigo-300',
+  section: 'font-bold text-purple-700 dark:text-purple-300',
+  roman: 'font-semibold text-slate-900 dark:text-white',
+  letter: 'font-semibold text-slate-800 dark:text-slate-100',
+  number: 'font-medium text-slate-800 dark:text-slate-100',
+  subletter: 'font-medium italic text-slate-800 dark:text-slate-100'
+};
+
+const definitionLine = Decoration.line({ class: 'bg-emerald-50 dark:bg-emerald-900/20 border-l-4 border-emerald-400 dark:border-emerald-600' });
+const definitionLabel = Decoration.mark({ class: 'font-semibold text-emerald-700 dark:text-emerald-400' });
+const statuteMark = Decoration.mark({ class: 'text-amber-700 dark:text-amber-400 underline decoration-dotted underline-offset-2' });
+const matchMark = Decoration.mark({ class: 'bg-yellow-200 dark:bg-yellow-700/60 rounded-sm' });
+const selectedMatchMark = Decoration.mark({ class: 'bg-orange-300 dark:bg-orange-600 rounded-sm' });
+
+interface FoldableHeading {
+  from: number;   // end of the heading line
+  to: number;     // end of the last line before the next heading of the same or a higher level
+}
+
+interface StructureState {
+  decorations: DecorationSet;
+  headings: FoldableHeading[];
+}
+
+const setStructure = StateEffect.define<ParsedCourse>();
+
+// Heading styles, definitions and citations come from the parser so that the editor shows
+// exactly what the tutor recognizes; between two parses they are mapped through the edits.
+function buildStructure(state: EditorState, parsed: ParsedCourse): StructureState {
+  const { doc } = state;
+  const ranges: Range<Decoration>[] = [];
+  const headings: FoldableHeading[] = [];
+
+  parsed.headings.forEach(node => {
+    const line = doc.lineAt(node.start);
+    ranges.push(Decoration.line({ class: HEADING_CLASSES[node.kind] }).range(line.from));
+    const to = doc.sliceString(line.to, node.end).trimEnd().length + line.to;
+    if (to > line.to) headings.push({ from: line.to, to });
+  });
+
+  parsed.definitions.forEach(definition => {
+    const first = doc.lineAt(definition.start);
+    const last = doc.lineAt(definition.end).number;
+    for (let n = first.number; n <= last; n++) ranges.push(definitionLine.range(doc.line(n).from));
+    // "Définition : ..." on the same line, or a "Définition de la X :" line just above
+    if (definition.start > first.from) {
+      ranges.push(definitionLabel.range(first.from, definition.start));
+    } else {
+      for (let n = first.number - 1; n >= Math.max(1, first.number - 2); n--) {
+        const line = doc.line(n);
+        if (/^\s*Définition\b/.test(line.text)) {
+          ranges.push(definitionLine.range(line.from), definitionLabel.range(line.from, line.to));
+          break;
+        }
+      }
+    }
+  });
+
+  parsed.decisions.forEach(decision => {
+    const title = [decision.court, decision.formation, decision.dateLabel, decision.parties].filter(Boolean).join(', ');
+    const mark = Decoration.mark({ class: 'text-rose-700 dark:text-rose-400 font-medium', attributes: { title } });
+    decision.occurrences.forEach(o => { if (o.end > o.start) ranges.push(mark.range(o.start, o.end)); });
+  });
+
+  parsed.statutes.forEach(statute => {
+    statute.occurrences.forEach(o => { if (o.end > o.start) ranges.push(statuteMark.range(o.start, o.end)); });
+  });
+
+  return { decorations: Decoration.set(ranges, true), headings };
+}
+
+const structureField = StateField.define<StructureState>({
+  create: () => ({ decorations: Decoration.none, headings: [] }),
+  update(value, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setStructure)) return buildStructure(tr.state, effect.value);
+    }
+    if (!tr.docChanged) return value;
+    return {
+      decorations: value.decorations.map(tr.changes),
+      headings: value.headings.map(h => ({ from: tr.changes.mapPos(h.from, 1), to: tr.changes.mapPos(h.to, -1) }))
+    };
+  },
+  provide: field => EditorView.decorations.from(field, value => value.decorations)
+});
+
+// A heading folds everything up to the next heading of the same or a higher level
+const headingFolding = foldService.of((state, lineStart, lineEnd) => {
+  const heading = state.field(structureField).headings.find(h => h.from === lineEnd);
+  return heading && heading.to > heading.from ? { from: heading.from, to: heading.to } : null;
+});
+
+// Search matches are only decorated in the visible part of the document
+const searchHighlighter = ViewPlugin.fromClass(class {
+  decorations: DecorationSet;
+
+  constructor(view: EditorView) {
+    this.decorations = this.build(view);
+  }
+
+  update(update: ViewUpdate) {
+    const queryChanged = update.transactions.some(tr => tr.effects.some(e => e.is(setSearchQuery)));
+    if (queryChanged || update.docChanged || update.viewportChanged || update.selectionSet) this.decorations = this.build(update.view);
+  }
+
+  build(view: EditorView): DecorationSet {
+    const query = getSearchQuery(view.state);
+    if (!query.valid) return Decoration.none;
+    const { main } = view.state.selection;
+    const builder = new RangeSetBuilder<Decoration>();
+    for (const { from, to } of view.visibleRanges) {
+      const cursor = query.getCursor(view.state, from, to);
+      for (let match = cursor.next(); !match.done; match = cursor.next()) {
+        const { from: start, to: end } = match.value;
+        if (end > start) builder.add(start, end, start === main.from && end === main.to ? selectedMatchMark : matchMark);
+      }
+    }
+    return builder.finish();
+  }
+}, { decorations: plugin => plugin.decorations });
+
+const editorTheme = EditorView.theme({
+  '&': { height: '100%', fontSize: '14px' },
+  '&.cm-focused': { outline: 'none' },
+  '.cm-scroller': { fontFamily: 'inherit', lineHeight: '1.65' },
+  '.cm-content': { padding: '16px 0', caretColor: 'currentColor' },
+  '.cm-line': { padding: '0 16px 0 8px' },
+  '.cm-cursor, .cm-dropCursor': { borderLeftColor: 'currentColor' },
+  '.cm-gutters': { backgroundColor: 'transparent', border: 'none', color: '#94a3b8' },
+  '.cm-selectionBackground, &.cm-focused > .cm-scroller > .cm-selectionLayer .cm-selectionBackground': { backgroundColor: 'rgba(59, 130, 246, 0.25)' },
+  '.cm-foldPlaceholder': { backgroundColor: 'transparent', border: '1px solid #94a3b8', color: '#94a3b8', padding: '0 6px' }
+});
+
+interface SearchOptions {
+  search: string;
+  replace: string;
+  caseSensitive: boolean;
+  regexp: boolean;
+  wholeWord: boolean;
+}
+
+const EMPTY_SEARCH: SearchOptions = { search: '', replace: '', caseSensitive: false, regexp: false, wholeWord: false };
+
+// Number of matches and rank of the selected one (0 when the selection is not a match)
+function countMatches(state: EditorState): { total: number; current: number; capped: boolean } {
+  const query = getSearchQuery(state);
+  const { main } = state.selection;
+  let total = 0;
+  let current = 0;
+  const cursor = query.getCursor(state);
+  for (let match = cursor.next(); !match.done; match = cursor.next()) {
+    total++;
+    if (match.value.from === main.from && match.value.to === main.to) current = total;
+    if (total >= MAX_COUNTED_MATCHES) return { total, current, capped: true };
+  }
+  return { total, current, capped: false };
+}
+
+/**
+ * Course text editor: only the visible lines are rendered, so a 2,600-line course stays fluid.
+ * Headings are styled and foldable, definitions and citations are highlighted, the outline
+ * on the left follows the cursor and the check panel lists what the lint finds in the text.
+ */
+export const CourseTextEditor: React.FC<CourseTextEditorProps> = ({ value, onChange, placeholder: placeholderText }) => {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const lastValue = useRef(value);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const [structure, setStructureState] = useState<ParsedCourse | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [docVersion, setDocVersion] = useState(0);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [showReplace, setShowReplace] = useState(false);
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(EMPTY_SEARCH);
+  const [matchInfo, setMatchInfo] = useState<{ total: number; current: number; capped: boolean } | null>(null);
+  const [issues, setIssues] = useState<LintIssue[]>([]);
+  const [isLintOpen, setIsLintOpen] = useState(false);
+  const lintedDoc = useRef<Text | null>(null);
+  const isSearchOpenRef = useRef(false);
+  isSearchOpenRef.current = isSearchOpen;
+
+  const openSearch = useCallback((withReplace: boolean) => {
+    setIsSearchOpen(true);
+    if (withReplace) setShowReplace(true);
+    // Prefill with the selected word, as most editors do
+    const view = viewRef.current;
+    if (view) {
+      const { main } = view.state.selection;
+      const selected = view.state.sliceDoc(main.from, main.to);
+      if (selected && !selected.includes('\n')) setSearchOptions(prev => ({ ...prev, search: selected }));
+    }
+    setTimeout(() => searchInputRef.current?.select(), 0);
+  }, []);
+
+  // Parses the text as it is in the editor right now, so positions always match the document
+  const reparse = useCallback(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const text = view.state.doc.toString();
+    const parsed = parseCourse(text);
+    view.dispatch({ effects: setStructure.of(parsed) });
+    setStructureState(parsed);
+    setIssues(lintCourse(text, parsed));
+    lintedDoc.current = view.state.doc;
+  }, []);
+
+  useEffect(() => {
+    const view = new EditorView({
+      parent: hostRef.current!,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          lineNumbers(),
+          foldGutter({ openText: '▾', closedText: '▸' }),
+          history(),
+          drawSelection(),
+          EditorView.lineWrapping,
+          structureField,
+          headingFolding,
+          search(),
+          searchHighlighter,
+          placeholder(placeholderText || ''),
+          keymap.of([
+            { key: 'Mod-f', run: () => { openSearch(false); return true; } },
+            { key: 'Mod-h', run: () => { openSearch(true); return true; } },
+            ...defaultKeymap,
+            ...historyKeymap,
+            ...foldKeymap
+          ]),
+          EditorView.updateListener.of(update => {
+            if (update.docChanged) {
+              const text = update.state.doc.toString();
+              lastValue.current = text;
+              onChangeRef.current(text);
+              setDocVersion(v => v + 1);
+            }
+            if (update.docChanged || update.selectionSet) {
+              setCursor(update.state.selection.main.head);
+              if (isSearchOpenRef.current) setMatchInfo(countMatches(update.state));
+            }
+          }),
+          editorTheme
+        ]
+      })
+    });
+    viewRef.current = view;
+    reparse();
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // Text replaced from outside (restore, import): the editor takes the new value
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || value === lastValue.current) return;
+    lastValue.current = value;
+    view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: value } });
+  }, [value]);
+
+  useEffect(() => {
+    if (docVersion === 0) return;
+    const timer = setTimeout(reparse, PARSE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [docVersion, reparse]);
+
+  // The query lives in the editor state; closing the bar clears it and its highlighting
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const query = new SearchQuery(isSearchOpen ? searchOptions : EMPTY_SEARCH);
+    view.dispatch({ effects: setSearchQuery.of(query) });
+    setMatchInfo(isSearchOpen && query.valid ? countMatches(view.state) : null);
+  }, [isSearchOpen, searchOptions]);
+
+  const runCommand = (command: (view: EditorView) => boolean) => {
+    const view = viewRef.current;
+    if (view && getSearchQuery(view.state).valid) command(view);
+  };
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    viewRef.current?.focus();
+  };
+
+  // Selects a passage, unfolding the headings that hide it
+  const reveal = (view: EditorView, from: number, to: number, y: 'start' | 'center') => {
+    const effects: StateEffect<unknown>[] = [];
+    foldedRanges(view.state).between(from, to, (foldFrom, foldTo) => { effects.push(unfoldEffect.of({ from: foldFrom, to: foldTo })); });
+    view.dispatch({ selection: { anchor: from, head: to }, effects: [...effects, EditorView.scrollIntoView(from, { y, yMargin: 16 })] });
+    view.focus();
+  };
+
+  const jumpTo = useCallback((node: CourseNode) => {
+    const view = viewRef.current;
+    if (!view) return;
+    const pos = view.state.doc.lineAt(Math.min(node.start, view.state.doc.length)).from;
+    reveal(view, pos, pos, 'start');
+  }, []);
+
+  const selectIssue = (issue: LintIssue) => {
+    const view = viewRef.current;
+    if (!view) return;
+    const length = view.state.doc.length;
+    reveal(view, Math.min(issue.from, length), Math.min(issue.to, length), 'center');
+  };
+
+  // Fixes are computed on the text as it was last checked: if it has changed since, it is checked again first
+  const applyFixes = (selected: LintIssue[]) => {
+    const view = viewRef.current;
+    if (!view) return;
+    if (view.state.doc !== lintedDoc.current) {
+      reparse();
+      return;
+    }
+    const edits = mergeFixes(selected);
+    if (edits.length === 0) return;
+    view.dispatch({ changes: edits, userEvent: 'input.lint' });
+    reparse();
+  };
+
+  const warningCount = issues.filter(issue => issue.severity === 'warning').length;
+  const activeNode = structure ? findNodeAt(structure, cursor) : null;
+  const activeNodeId = activeNode && activeNode !== structure?.root ? activeNode.id : null;
+  const queryIsValid = !searchOptions.search || new SearchQuery(searchOptions).valid;
+
+  const optionToggle = (key: 'caseSensitive' | 'regexp' | 'wholeWord', label: string, title: string) => (
+    <button
+      onClick={() => setSearchOptions(prev => ({ ...prev, [key]: !prev[key] }))}
+      className={`px-1.5 py-0.5 rounded text-xs font-mono border ${
+        searchOptions[key]
+          ? 'bg-blue-600 border-blue-600 text-white'
+          : 'border-slate-300 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'
+      }`}
+      title={title}
+    >
+      {label}
+    </button>
+  );
+
+  const inputClass = "flex-1 min-w-0 px-2 py-1 border rounded-lg text-xs bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200";
+
+  return (
+    <div className="flex-1 flex gap-4 min-w-0 min-h-0">
+      <CourseOutline structure={structure} activeNodeId={activeNodeId} onSelect={jumpTo} />
+
+      <div className="flex-1 flex flex-col min-w-0 border border-slate-200 dark:border-slate-800 rounded-lg bg-white dark:bg-slate-950 overflow-hidden focus-within:ring-2 focus-within:ring-inset focus-within:ring-blue-500/50">
+        <div className="flex items-center gap-2 px-2 py-1.5 border-b border-slate-200 dark:border-slate-800 text-xs">
+          <button
+            onClick={() => (isSearchOpen ? closeSearch() : openSearch(false))}
+            className="flex items-center gap-1 px-2 py-1 rounded text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+            title="Rechercher et remplacer (Ctrl+F, Ctrl+H)"
+          >
+            <Search size={14} />
+            Rechercher
+          </button>
+          <button
+            onClick={() => viewRef.current && foldAll(viewRef.current)}
+            className="flex items-center gap-1 px-2 py-1 rounded text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+            title="Replier toutes les parties"
+          >
+            <FoldVertical size={14} />
+            Tout replier
+          </button>
+          <button
+            onClick={() => viewRef.current && unfoldAll(viewRef.current)}
+            className="flex items-center gap-1 px-2 py-1 rounded text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+          >
+            <UnfoldVertical size={14} />
+            Tout déplier
+          </button>
+          <button
+            onClick={() => setIsLintOpen(open => !open)}
+            className={`flex items-center gap-1 px-2 py-1 rounded ${
+              isLintOpen ? 'bg-slate-800 dark:bg-slate-200 text-white dark:text-slate-900' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800'
+            }`}
+            title="Renvois sans destination, citations irrégulières, définitions en double, numérotation des titres"
+          >
+            <ClipboardCheck size={14} />
+            Vérifier
+            {issues.length > 0 && (
+              <span className={`px-1.5 rounded-full text-[10px] font-semibold ${warningCount > 0 ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300' : 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300'}`}>
+                {issues.length}
+              </span>
+            )}
+          </button>
+          <span className="ml-auto flex items-center gap-3 text-slate-400">
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-emerald-400" />Définitions</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-rose-500" />Arrêts</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-amber-500" />Textes</span>
+          </span>
+        </div>
+
+        {isSearchOpen && (
+          <div
+            className="px-2 py-2 space-y-1.5 border-b border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-900"
+            onKeyDown={(e) => { if (e.key === 'Escape') closeSearch(); }}
+          >
+            <div className="flex items-center gap-1.5">
+              <button
+                onClick={() => setShowReplace(open => !open)}
+                className="p-0.5 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded"
+                title={showReplace ? 'Masquer le remplacement' : 'Remplacer'}
+              >
+                {showReplace ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+              </button>
+              <input
+                ref={searchInputRef}
+                value={searchOptions.search}
+                onChange={(e) => setSearchOptions(prev => ({ ...prev, search: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    runCommand(e.shiftKey ? findPrevious : findNext);
+                  }
+                }}
+                placeholder={searchOptions.regexp ? 'Expression régulière (ex. CE,? Sect\\.)' : 'Rechercher'}
+                className={`${inputClass} ${queryIsValid ? 'border-slate-300 dark:border-slate-700' : 'border-red-400 dark:border-red-600'}`}
+              />
+              {optionToggle('caseSensitive', 'Aa', 'Respecter la casse')}
+              {optionToggle('wholeWord', 'Mot', 'Mot entier')}
+              {optionToggle('regexp', '.*', 'Expression régulière')}
+              <span className={`w-28 text-right ${queryIsValid ? 'text-slate-500 dark:text-slate-400' : 'text-red-600 dark:text-red-400'}`}>
+                {!queryIsValid
+                  ? 'Expression invalide'
+                  : matchInfo && searchOptions.search
+                    ? matchInfo.total === 0
+                      ? 'Aucun résultat'
+                      : `${matchInfo.current || '–'} / ${matchInfo.total.toLocaleString()}${matchInfo.capped ? '+' : ''}`
+                    : ''}
+              </span>
+              <button onClick={() => runCommand(findPrevious)} className="p-1 text-slate-500 hover:text-slate-700 dark:hover:text-slate-200 rounded" title="Précédent (Maj+Entrée)">
+                <ChevronUp size={14} />
+              </button>
+              <button onClick={() => runCommand(findNext)} className="p-1 text-slate-500 hover:text-slate-700 dark:hover:text-slate-200 rounded" title="Suivant (Entrée)">
+                <ChevronDown size={14} />
+              </button>
+              <button onClick={closeSearch} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded" title="Fermer (Échap)">
+                <X size={14} />
+              </button>
+            </div>
+            {showReplace && (
+              <div className="flex items-center gap-1.5 pl-6">
+                <input
+                  value={searchOptions.replace}
+                  onChange={(e) => setSearchOptions(prev => ({ ...prev, replace: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      runCommand(replaceNext);
+                    }
+                  }}
+                  placeholder={searchOptions.regexp ? 'Remplacer par ($1, $2... pour les groupes)' : 'Remplacer par'}
+                  className={`${inputClass} border-slate-300 dark:border-slate-700`}
+                />
+                <button
+                  onClick={() => runCommand(replaceNext)}
+                  className="flex items-center gap-1 px-2 py-1 rounded border border-slate-300 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-800"
+                >
+                  <Replace size={12} />
+                  Remplacer
+                </button>
+                <button
+                  onClick={() => runCommand(replaceAll)}
+                  className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-800"
+                >
+                  Tout remplacer
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div ref={hostRef} className="flex-1 min-h-0 text-slate-700 dark:text-slate-200" />
+      </div>
+
+      {isLintOpen && <LintPanel issues={issues} onSelect={selectIssue} onApply={applyFixes} onClose={() => setIsLintOpen(false)} />}
+    </div>
+  );
+};
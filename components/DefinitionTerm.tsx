@@ -0,0 +1,88 @@
+import React from 'react';
+import { BookOpen } from 'lucide-react';
+import { GlossaryEntry, GlossaryIndex, findGlossaryTerms } from '../services/glossary';
+
+// Minimal shape of the HTML syntax tree react-markdown hands to rehype plugins
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+// Terms are never marked inside code or links
+const SKIPPED_TAGS = ['code', 'pre', 'a', 'dfn'];
+
+// Rehype plugin wrapping the first mention of each glossary term in a <dfn data-entry-id="...">
+export function rehypeGlossaryTerms(glossary: GlossaryIndex) {
+  return (tree: HastNode) => {
+    const seen = new Set<string>();
+    const visit = (node: HastNode) => {
+      if (!node.children || SKIPPED_TAGS.includes(node.tagName || '')) return;
+      node.children = node.children.flatMap(child => {
+        if (child.type !== 'text') {
+          visit(child);
+          return [child];
+        }
+        const text = child.value || '';
+        const parts: HastNode[] = [];
+        let last = 0;
+        for (const match of findGlossaryTerms(text, glossary)) {
+          if (seen.has(match.entry.id)) continue;
+          seen.add(match.entry.id);
+          if (match.start > last) parts.push({ type: 'text', value: text.slice(last, match.start) });
+          parts.push({
+            type: 'element',
+            tagName: 'dfn',
+            properties: { dataEntryId: match.entry.id },
+            children: [{ type: 'text', value: text.slice(match.start, match.end) }]
+          });
+          last = match.end;
+        }
+        if (parts.length === 0) return [child];
+        if (last < text.length) parts.push({ type: 'text', value: text.slice(last) });
+        return parts;
+      });
+    };
+    visit(tree);
+  };
+}
+
+interface DefinitionTermProps {
+  entry: GlossaryEntry | undefined;
+  onOpen: (entry: GlossaryEntry) => void;
+  children?: React.ReactNode;
+}
+
+// A course term in a chat answer, with its verbatim definition shown on hover or focus
+export const DefinitionTerm: React.FC<DefinitionTermProps> = ({ entry, onOpen, children }) => {
+  if (!entry) return <>{children}</>;
+
+  return (
+    <span className="relative group/term">
+      <dfn
+        tabIndex={0}
+        className="not-italic underline decoration-dotted decoration-emerald-500 underline-offset-4 cursor-help"
+      >
+        {children}
+      </dfn>
+      <span className="not-prose absolute left-0 top-full z-30 hidden group-hover/term:block group-focus-within/term:block pt-1 w-80 max-w-[80vw]">
+        <span className="block p-3 rounded-xl border border-emerald-200 dark:border-emerald-800 bg-white dark:bg-slate-900 shadow-xl text-left text-xs font-normal text-slate-700 dark:text-slate-300">
+          <span className="block mb-1 font-serif font-bold text-sm text-emerald-700 dark:text-emerald-400">{entry.term}</span>
+          <span className="block whitespace-pre-line line-clamp-6">{entry.text}</span>
+          <span className="mt-2 flex items-center justify-between gap-2">
+            <span className="truncate text-[10px] text-slate-400">{entry.path}</span>
+            <button
+              onClick={() => onOpen(entry)}
+              className="flex items-center gap-1 shrink-0 px-2 py-0.5 rounded text-emerald-700 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/30"
+            >
+              <BookOpen size={12} />
+              Voir dans le cours
+            </button>
+          </span>
+        </span>
+      </span>
+    </span>
+  );
+};
@@ -0,0 +1,602 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Download, FileCheck2, History, Loader2, RotateCcw, Send, Sparkles, Square, Timer, Trash2, XCircle } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { CourseContext, ExamAnswers, ExamAttempt, ExamSession, ModelSettings, RubricCriterion } from '../types';
+import { LlmProvider, RateLimitError, ResponseSchema } from '../services/llmProvider';
+import { ANSWER_STEPS, CASE_SCHEMA, CaseStudyFormatError, EMPTY_CASE_ANSWER, caseRequest, gradeRequest, gradeSchema, parseCaseGrade, parseCaseStudy, sectionPath } from '../services/caseStudy';
+import {
+  DEFAULT_DURATION,
+  DEFAULT_QUESTION_COUNT,
+  EXAM_DURATIONS,
+  EXAM_QUESTION_COUNTS,
+  ExamFormatError,
+  answeredShortQuestions,
+  buildReport,
+  createPaper,
+  examChapters,
+  examSchema,
+  formatPoints,
+  isWeakSection,
+  markOn20,
+  parseExamQuestions,
+  pickCaseSection,
+  questionMix,
+  questionsRequest,
+  reportHtml,
+  shortGradeRequest,
+  shortGradeSchema
+} from '../services/exam';
+import { useExamAttempts } from '../hooks/useExamAttempts';
+import { GradeReport } from './CasePractice';
+
+interface ExamSimulatorProps {
+  course: CourseContext;
+  systemInstruction: string;
+  modelSettings: ModelSettings;
+  provider: LlmProvider;
+  rubric: RubricCriterion[];
+}
+
+const EMPTY_ANSWERS: ExamAnswers = { choices: {}, texts: {}, caseAnswer: EMPTY_CASE_ANSWER };
+const WARNING_MS = 5 * 60 * 1000;
+
+const formatAttemptDate = (iso: string) =>
+  new Date(iso).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' });
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+const formatDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h${minutes % 60 ? ` ${minutes % 60}` : ''}`;
+
+const remainingMs = (session: ExamSession, now: number) =>
+  new Date(session.startedAt).getTime() + session.paper.durationMinutes * 60000 - now;
+
+// The browser's print dialog saves the standalone report as PDF
+const printReport = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+  const doc = frame.contentDocument!;
+  doc.open();
+  doc.write(html);
+  doc.close();
+  frame.contentWindow!.addEventListener('afterprint', () => frame.remove());
+  frame.contentWindow!.focus();
+  frame.contentWindow!.print();
+};
+
+// Graded paper: overall mark, points per section (weakest first), then every answer with its correction
+const ExamReportView: React.FC<{ attempt: ExamAttempt; onExport: () => void; onRestart: () => void }> = ({ attempt, onExport, onRestart }) => {
+  const { paper, answers, report } = attempt;
+  return (
+    <div className="space-y-4">
+      <div className="p-6 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h2 className="font-serif font-bold text-xl text-slate-900 dark:text-white">Résultat de l'examen blanc</h2>
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              Rendu le {formatAttemptDate(attempt.submittedAt)}{attempt.timedOut && ' — temps écoulé'} · {formatPoints(report.total)} points sur {formatPoints(report.maxTotal)}
+            </p>
+          </div>
+          <span className="text-4xl font-bold text-blue-600 dark:text-blue-400">
+            {formatPoints(markOn20(report))}<span className="text-xl text-slate-400"> / 20</span>
+          </span>
+        </div>
+        <div className="mt-4 flex flex-wrap gap-2">
+          <button
+            onClick={onExport}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 text-sm transition-colors"
+            title="Ouvre l'impression : choisissez « Enregistrer au format PDF »"
+          >
+            <Download size={16} />
+            Exporter en PDF
+          </button>
+          <button
+            onClick={onRestart}
+            className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium transition-colors"
+          >
+            <RotateCcw size={16} />
+            Nouvel examen
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800">
+        <h3 className="mb-3 font-serif font-bold text-lg text-slate-900 dark:text-white">Bilan par section</h3>
+        <ul className="space-y-2">
+          {report.sections.map(section => {
+            const weak = isWeakSection(section);
+            return (
+              <li key={section.nodeId}>
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <span className="min-w-0 truncate text-slate-700 dark:text-slate-300" title={`${section.path} – ${section.title}`}>
+                    {section.path} – {section.title}
+                  </span>
+                  <span className={`shrink-0 font-medium ${weak ? 'text-red-600 dark:text-red-400' : 'text-slate-600 dark:text-slate-300'}`}>
+                    {weak && 'À revoir · '}{formatPoints(section.score)} / {formatPoints(section.points)}
+                  </span>
+                </div>
+                <div className="h-1.5 mt-1 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+                  <div className={`h-full ${weak ? 'bg-red-500' : 'bg-green-500'}`} style={{ width: `${(section.score / section.points) * 100}%` }} />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="p-6 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800">
+        <h3 className="mb-3 font-serif font-bold text-lg text-slate-900 dark:text-white">Questions</h3>
+        <ol className="space-y-4">
+          {paper.questions.map((question, i) => {
+            const result = report.questions[i];
+            const full = result.score === result.points;
+            return (
+              <li key={question.id} className="pb-4 border-b last:border-b-0 border-slate-100 dark:border-slate-800">
+                <div className="flex items-start justify-between gap-3">
+                  <p className="text-sm font-medium text-slate-800 dark:text-slate-100">{i + 1}. {question.question}</p>
+                  <span className={`flex items-center gap-1 shrink-0 text-sm font-semibold ${full ? 'text-green-600 dark:text-green-400' : 'text-slate-600 dark:text-slate-300'}`}>
+                    {full ? <CheckCircle2 size={14} /> : result.score === 0 ? <XCircle size={14} className="text-red-500" /> : null}
+                    {formatPoints(result.score)} / {formatPoints(result.points)}
+                  </span>
+                </div>
+                <p className="mt-0.5 text-[11px] text-slate-400">{question.section.path}</p>
+                <div className="mt-2 pl-3 border-l-2 border-slate-200 dark:border-slate-700 text-sm text-slate-600 dark:text-slate-400 whitespace-pre-wrap">
+                  {question.kind === 'qcm'
+                    ? (answers.choices[question.id] === undefined ? <em>Sans réponse</em> : question.choices[answers.choices[question.id]])
+                    : (answers.texts[question.id]?.trim() || <em>Sans réponse</em>)}
+                </div>
+                <p className="mt-2 text-sm text-slate-700 dark:text-slate-300">
+                  <strong>{question.kind === 'qcm' ? 'Bonne réponse' : 'Réponse modèle'} :</strong>{' '}
+                  {question.kind === 'qcm' ? question.choices[question.answerIndex] : question.expected}
+                </p>
+                {result.comment !== question.expected && <p className="mt-1 text-sm italic text-slate-500 dark:text-slate-400">{result.comment}</p>}
+                {question.kind === 'qcm' && question.expected && <p className="mt-1 text-sm italic text-slate-500 dark:text-slate-400">{question.expected}</p>}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+
+      <div className="p-6 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800">
+        <div className="flex items-baseline justify-between gap-3 mb-3">
+          <h3 className="font-serif font-bold text-lg text-slate-900 dark:text-white">Cas pratique — {paper.caseStudy.title}</h3>
+          <span className="shrink-0 text-sm font-semibold text-slate-600 dark:text-slate-300">
+            {formatPoints(report.caseScore)} / {formatPoints(paper.casePoints)} dans la note
+          </span>
+        </div>
+        <GradeReport grade={report.caseGrade} caseStudy={paper.caseStudy} />
+      </div>
+    </div>
+  );
+};
+
+// Mock exam on chosen chapters: a fixed paper (QCM, short questions, one cas pratique) answered against the clock, then graded
+export const ExamSimulator: React.FC<ExamSimulatorProps> = ({ course, systemInstruction, modelSettings, provider, rubric }) => {
+  const { session, setSession, attempts, isLoaded, saveAttempt, deleteAttempt } = useExamAttempts(course.id);
+  const chapters = useMemo(() => examChapters(course), [course]);
+
+  const [chapterIds, setChapterIds] = useState<string[]>(() => chapters.map(c => c.id));
+  const [questionCount, setQuestionCount] = useState(DEFAULT_QUESTION_COUNT);
+  const [duration, setDuration] = useState(DEFAULT_DURATION);
+  const [shownAttempt, setShownAttempt] = useState<ExamAttempt | null>(null);
+  const [status, setStatus] = useState<'idle' | 'generating' | 'grading'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // The paper is handed in automatically once when time runs out
+  const autoSubmittedRef = useRef(false);
+
+  // Stop any pending request when leaving the mode
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    if (!session) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [session]);
+
+  const remaining = session ? remainingMs(session, now) : 0;
+  const isTimeUp = session !== null && remaining <= 0;
+
+  useEffect(() => {
+    if (isTimeUp && status === 'idle' && !autoSubmittedRef.current) {
+      autoSubmittedRef.current = true;
+      submitPaper();
+    }
+  }, [isTimeUp, status]);
+
+  const runStructured = async (context: string, prompt: string, responseSchema: ResponseSchema): Promise<string | null> => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let json = '';
+    try {
+      const stream = provider.generateStream({
+        systemInstruction: `${systemInstruction}\n\n${context}`,
+        contents: [{ role: 'user', text: prompt }],
+        settings: modelSettings,
+        signal: controller.signal,
+        responseSchema
+      });
+      for await (const chunk of stream) {
+        if (controller.signal.aborted) break;
+        json += chunk;
+      }
+      return controller.signal.aborted ? null : json;
+    } catch (e) {
+      if (controller.signal.aborted) return null;
+      throw e;
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const describeError = (e: unknown, fallback: string) => {
+    console.error(e);
+    if (e instanceof RateLimitError) return e.message;
+    if (e instanceof ExamFormatError || e instanceof CaseStudyFormatError) return `${e.message} Vous pouvez réessayer.`;
+    return fallback;
+  };
+
+  const startExam = async () => {
+    const selected = chapters.filter(c => chapterIds.includes(c.id));
+    if (selected.length === 0) return;
+
+    setStatus('generating');
+    setError(null);
+    try {
+      const request = questionsRequest(course, selected, questionCount);
+      const questionsJson = await runStructured(request.context, request.prompt, examSchema(request.sections, questionCount));
+      if (questionsJson === null) return;
+      const questions = parseExamQuestions(questionsJson, request.sections, questionCount);
+
+      const caseReq = caseRequest(course, pickCaseSection(course, selected));
+      const caseJson = await runStructured(caseReq.context, caseReq.prompt, CASE_SCHEMA);
+      if (caseJson === null) return;
+      const caseStudy = parseCaseStudy(caseJson, caseReq.section);
+
+      // The clock starts once the whole paper is ready
+      autoSubmittedRef.current = false;
+      setNow(Date.now());
+      setSession({
+        paper: createPaper(selected.map(c => c.id), duration, questions, caseStudy),
+        answers: EMPTY_ANSWERS,
+        startedAt: new Date().toISOString()
+      });
+      setShownAttempt(null);
+    } catch (e) {
+      setError(describeError(e, "Une erreur est survenue lors de la rédaction du sujet. Veuillez réessayer dans un instant."));
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const submitPaper = async () => {
+    if (!session) return;
+    const { paper, answers } = session;
+    // Handed in now: the grading time counts neither against the clock nor in the duration of the report.
+    // A paper left open past the deadline (page closed, then reopened) is dated at the deadline.
+    const handedInAt = Date.now();
+    const timedOut = remainingMs(session, handedInAt) <= 0;
+    const submittedAt = new Date(timedOut ? handedInAt + remainingMs(session, handedInAt) : handedInAt);
+    setStatus('grading');
+    setError(null);
+    try {
+      const shortQuestions = answeredShortQuestions(paper, answers);
+      let shortJson: string | null = null;
+      if (shortQuestions.length > 0) {
+        const request = shortGradeRequest(shortQuestions, answers);
+        shortJson = await runStructured(request.context, request.prompt, shortGradeSchema(shortQuestions));
+        if (shortJson === null) return;
+      }
+
+      const caseReq = gradeRequest(course, paper.caseStudy, answers.caseAnswer, rubric);
+      const caseJson = await runStructured(caseReq.context, caseReq.prompt, gradeSchema(rubric));
+      if (caseJson === null) return;
+
+      const saved = saveAttempt({
+        ...session,
+        submittedAt: submittedAt.toISOString(),
+        timedOut,
+        report: buildReport(paper, answers, shortJson, parseCaseGrade(caseJson, rubric))
+      });
+      setSession(null);
+      setShownAttempt(saved);
+    } catch (e) {
+      setError(describeError(e, "Une erreur est survenue lors de la correction. Votre copie est conservée : vous pouvez la rendre à nouveau."));
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const abandonExam = () => {
+    if (window.confirm("Abandonner l'examen en cours ? Vos réponses ne seront pas corrigées.")) {
+      abortControllerRef.current?.abort();
+      setSession(null);
+    }
+  };
+
+  const updateAnswers = (patch: Partial<ExamAnswers>) => {
+    if (session && !isTimeUp) setSession({ ...session, answers: { ...session.answers, ...patch } });
+  };
+
+  const toggleChapter = (id: string) =>
+    setChapterIds(chapterIds.includes(id) ? chapterIds.filter(c => c !== id) : [...chapterIds, id]);
+
+  const isBusy = status !== 'idle';
+  const mix = questionMix(questionCount);
+  const answeredCount = session
+    ? session.paper.questions.filter(q => q.kind === 'qcm' ? session.answers.choices[q.id] !== undefined : session.answers.texts[q.id]?.trim()).length
+    : 0;
+
+  if (!isLoaded) return null;
+
+  return (
+    <div className="relative h-full overflow-hidden">
+      <div className="flex h-full max-w-6xl mx-auto w-full gap-6">
+        <div className="flex-1 min-w-0 overflow-y-auto pb-6 space-y-4">
+          {error && (
+            <p className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+              <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+              {error}
+            </p>
+          )}
+
+          {shownAttempt && !session && (
+            <ExamReportView
+              attempt={shownAttempt}
+              onExport={() => printReport(reportHtml(shownAttempt, course.title))}
+              onRestart={() => setShownAttempt(null)}
+            />
+          )}
+
+          {session && (
+            <>
+              <div className="sticky top-0 z-10 p-4 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 flex flex-wrap items-center gap-3 shadow-sm">
+                <span className={`flex items-center gap-2 font-mono text-xl font-bold ${remaining < WARNING_MS ? 'text-red-600 dark:text-red-400' : 'text-slate-800 dark:text-slate-100'}`}>
+                  <Timer size={20} />
+                  {formatCountdown(remaining)}
+                </span>
+                <span className="text-sm text-slate-500 dark:text-slate-400">
+                  {answeredCount} / {session.paper.questions.length} questions traitées
+                </span>
+                <div className="ml-auto flex items-center gap-2">
+                  {status === 'grading' ? (
+                    <button
+                      onClick={() => abortControllerRef.current?.abort()}
+                      className="flex items-center gap-2 px-4 py-2 bg-slate-800 dark:bg-slate-600 text-white text-sm font-medium rounded-lg hover:bg-slate-700 transition-colors"
+                    >
+                      <Loader2 size={16} className="animate-spin" />
+                      Correction en cours... Arrêter
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        onClick={abandonExam}
+                        className="px-3 py-2 text-sm text-slate-500 dark:text-slate-400 hover:text-red-600 transition-colors"
+                      >
+                        Abandonner
+                      </button>
+                      <button
+                        onClick={submitPaper}
+                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        <Send size={16} />
+                        Rendre ma copie
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {isTimeUp && status === 'idle' && (
+                <p className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-200">
+                  Le temps est écoulé : votre copie ne peut plus être modifiée.
+                </p>
+              )}
+
+              <div className="p-6 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800">
+                <h2 className="mb-4 font-serif font-bold text-lg text-slate-900 dark:text-white">Questions</h2>
+                <ol className="space-y-6">
+                  {session.paper.questions.map((question, i) => (
+                    <li key={question.id}>
+                      <p className="text-sm font-medium text-slate-800 dark:text-slate-100">
+                        {i + 1}. {question.question}
+                        <span className="ml-2 text-xs font-normal text-slate-400">({formatPoints(question.points)} pt{question.points > 1 ? 's' : ''})</span>
+                      </p>
+                      {question.kind === 'qcm' ? (
+                        <div className="mt-2 space-y-1.5">
+                          {question.choices.map((choice, c) => (
+                            <label key={c} className="flex items-start gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                              <input
+                                type="radio"
+                                name={`exam-${question.id}`}
+                                checked={session.answers.choices[question.id] === c}
+                                onChange={() => updateAnswers({ choices: { ...session.answers.choices, [question.id]: c } })}
+                                disabled={isTimeUp || isBusy}
+                                className="mt-0.5"
+                              />
+                              {choice}
+                            </label>
+                          ))}
+                        </div>
+                      ) : (
+                        <textarea
+                          value={session.answers.texts[question.id] || ''}
+                          onChange={(e) => updateAnswers({ texts: { ...session.answers.texts, [question.id]: e.target.value } })}
+                          readOnly={isTimeUp || isBusy}
+                          rows={4}
+                          className="mt-2 w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 focus:outline-none focus:border-blue-500 read-only:bg-slate-50 dark:read-only:bg-slate-900"
+                        />
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+
+              <div className="p-6 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 space-y-4">
+                <div className="flex items-baseline justify-between gap-3">
+                  <h2 className="font-serif font-bold text-lg text-slate-900 dark:text-white">Cas pratique — {session.paper.caseStudy.title}</h2>
+                  <span className="shrink-0 text-xs text-slate-400">({formatPoints(session.paper.casePoints)} pts)</span>
+                </div>
+                <div className="prose prose-sm max-w-none prose-slate dark:prose-invert">
+                  <ReactMarkdown>{session.paper.caseStudy.facts}</ReactMarkdown>
+                </div>
+                <p className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-sm font-medium text-amber-900 dark:text-amber-200">{session.paper.caseStudy.question}</p>
+                {ANSWER_STEPS.map(step => (
+                  <label key={step.field} className="block">
+                    <span className="block text-sm font-semibold text-slate-800 dark:text-slate-100">{step.label}</span>
+                    <span className="block mb-1.5 text-xs text-slate-500 dark:text-slate-400">{step.hint}</span>
+                    <textarea
+                      value={session.answers.caseAnswer[step.field]}
+                      onChange={(e) => updateAnswers({ caseAnswer: { ...session.answers.caseAnswer, [step.field]: e.target.value } })}
+                      readOnly={isTimeUp || isBusy}
+                      rows={step.field === 'majeure' || step.field === 'mineure' ? 6 : 3}
+                      className="w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 focus:outline-none focus:border-blue-500 read-only:bg-slate-50 dark:read-only:bg-slate-900"
+                    />
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+
+          {!session && !shownAttempt && (
+            <div className="p-6 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 space-y-5">
+              <div>
+                <h2 className="font-serif font-bold text-xl text-slate-900 dark:text-white">Examen blanc</h2>
+                <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                  Un sujet fixe sur les chapitres choisis : {mix.qcm} QCM, {mix.short} questions de cours et un cas pratique corrigé selon la grille de votre professeur. Le chronomètre démarre dès que le sujet est prêt ; la copie est rendue automatiquement à la fin du temps.
+                </p>
+              </div>
+
+              {chapters.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">Le plan du cours ne comporte ni chapitre ni section sur lesquels composer un sujet.</p>
+              ) : (
+                <fieldset>
+                  <legend className="mb-2 flex w-full items-center justify-between text-xs font-semibold uppercase tracking-wider text-slate-500">
+                    Chapitres au programme
+                    <button
+                      onClick={() => setChapterIds(chapterIds.length === chapters.length ? [] : chapters.map(c => c.id))}
+                      className="normal-case tracking-normal font-normal text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      {chapterIds.length === chapters.length ? 'Tout décocher' : 'Tout cocher'}
+                    </button>
+                  </legend>
+                  <div className="space-y-1.5">
+                    {chapters.map(chapter => (
+                      <label key={chapter.id} className="flex items-start gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                        <input type="checkbox" checked={chapterIds.includes(chapter.id)} onChange={() => toggleChapter(chapter.id)} disabled={isBusy} className="mt-0.5" />
+                        <span>{sectionPath(course, chapter)} – {chapter.title}</span>
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              )}
+
+              <div className="flex flex-wrap gap-4">
+                <label className="text-sm text-slate-700 dark:text-slate-300">
+                  <span className="block mb-1 text-xs font-semibold uppercase tracking-wider text-slate-500">Questions</span>
+                  <select
+                    value={questionCount}
+                    onChange={(e) => setQuestionCount(Number(e.target.value))}
+                    disabled={isBusy}
+                    className="px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+                  >
+                    {EXAM_QUESTION_COUNTS.map(count => <option key={count} value={count}>{count} questions</option>)}
+                  </select>
+                </label>
+                <label className="text-sm text-slate-700 dark:text-slate-300">
+                  <span className="block mb-1 text-xs font-semibold uppercase tracking-wider text-slate-500">Durée</span>
+                  <select
+                    value={duration}
+                    onChange={(e) => setDuration(Number(e.target.value))}
+                    disabled={isBusy}
+                    className="px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+                  >
+                    {EXAM_DURATIONS.map(minutes => (
+                      <option key={minutes} value={minutes}>{formatDuration(minutes)}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              {status === 'generating' ? (
+                <button
+                  onClick={() => abortControllerRef.current?.abort()}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-800 dark:bg-slate-600 text-white text-sm font-medium rounded-lg hover:bg-slate-700 transition-colors"
+                >
+                  <Square size={14} className="fill-current" />
+                  Rédaction du sujet... Arrêter
+                </button>
+              ) : (
+                <button
+                  onClick={startExam}
+                  disabled={chapterIds.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors"
+                >
+                  <Sparkles size={16} />
+                  Commencer l'examen
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <aside className="hidden lg:flex w-72 shrink-0 flex-col overflow-hidden">
+          <h3 className="flex items-center gap-2 mb-3 text-xs font-semibold uppercase tracking-wider text-slate-500">
+            <History size={14} />
+            Mes examens ({attempts.length})
+          </h3>
+          <ul className="flex-1 overflow-y-auto space-y-2 pb-6">
+            {attempts.length === 0 && <li className="text-xs text-slate-400">Aucun examen corrigé pour l'instant.</li>}
+            {attempts.map(attempt => (
+              <li key={attempt.id}>
+                <div
+                  onClick={() => !session && setShownAttempt(attempt)}
+                  className={`group p-3 rounded-lg border transition-colors ${session ? 'cursor-default opacity-60' : 'cursor-pointer'} ${
+                    shownAttempt?.id === attempt.id
+                      ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-700'
+                      : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 hover:border-blue-300'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="flex items-center gap-1.5 text-sm font-medium text-slate-800 dark:text-slate-100">
+                      <FileCheck2 size={14} className="text-slate-400" />
+                      {formatAttemptDate(attempt.submittedAt)}
+                    </span>
+                    <span className="shrink-0 text-sm font-bold text-blue-600 dark:text-blue-400">{formatPoints(markOn20(attempt.report))}/20</span>
+                  </div>
+                  <div className="mt-1 text-[11px] text-slate-400">
+                    {attempt.paper.questions.length} questions · {formatDuration(attempt.paper.durationMinutes)} · {attempt.report.sections.filter(isWeakSection).length} section(s) à revoir
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteAttempt(attempt.id);
+                      if (shownAttempt?.id === attempt.id) setShownAttempt(null);
+                    }}
+                    className="mt-1 hidden group-hover:flex items-center gap-1 text-[11px] text-slate-400 hover:text-red-600"
+                  >
+                    <Trash2 size={12} />
+                    Supprimer
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </aside>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Layers, Download, RotateCcw, Eye, BookOpen, CheckCircle2, Play, X } from 'lucide-react';
+import { CourseContext, SourceReference } from '../types';
+import {
+  Flashcard,
+  FlashcardKind,
+  ReviewGrade,
+  GRADE_LABELS,
+  buildDeck,
+  deckCounts,
+  dueQueue,
+  exportAnki,
+  formatDelay,
+  scheduleReview
+} from '../services/flashcards';
+import { useFlashcardStore } from '../hooks/useFlashcardStore';
+import { CoursePassagePanel } from './CoursePassagePanel';
+
+interface FlashcardsProps {
+  course: CourseContext;
+}
+
+type KindFilter = 'all' | FlashcardKind;
+
+const KIND_FILTERS: [KindFilter, string][] = [
+  ['all', 'Toutes'],
+  ['definition', 'Définitions'],
+  ['decision', 'Arrêts']
+];
+
+const GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: 'border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30',
+  hard: 'border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-300 hover:bg-amber-50 dark:hover:bg-amber-900/30',
+  good: 'border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 hover:bg-green-50 dark:hover:bg-green-900/30',
+  easy: 'border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30'
+};
+
+const HISTORY_DAYS = 14;
+
+const downloadText = (text: string, filename: string) => {
+  const blob = new Blob([text], { type: 'text/plain;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Flashcards of the course definitions and landmark decisions, reviewed on an SM-2 schedule
+export const Flashcards: React.FC<FlashcardsProps> = ({ course }) => {
+  const { states, history, isLoaded, reviewCard, resetReviews } = useFlashcardStore(course.id);
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  // Cards left in the current session (null when no session is running)
+  const [queue, setQueue] = useState<Flashcard[] | null>(null);
+  const [sessionReviewed, setSessionReviewed] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [openPassage, setOpenPassage] = useState<{ source: SourceReference; title: string } | null>(null);
+
+  const fullDeck = useMemo(() => buildDeck(course), [course]);
+  const deck = useMemo(
+    () => (kindFilter === 'all' ? fullDeck : fullDeck.filter(card => card.kind === kindFilter)),
+    [fullDeck, kindFilter]
+  );
+  const now = Date.now();
+  const counts = deckCounts(deck, states, history, now);
+  const current = queue?.[0];
+
+  const dailyHistory = useMemo(() => {
+    const days = Array.from({ length: HISTORY_DAYS }, (_, i) => {
+      const day = new Date();
+      day.setHours(0, 0, 0, 0);
+      day.setDate(day.getDate() - (HISTORY_DAYS - 1 - i));
+      return { start: day.getTime(), label: day.toLocaleDateString('fr-FR', { weekday: 'narrow' }), count: 0 };
+    });
+    history.forEach(log => {
+      const day = [...days].reverse().find(d => log.reviewedAt >= d.start);
+      if (day) day.count++;
+    });
+    return days;
+  }, [history]);
+  const busiestDay = Math.max(1, ...dailyHistory.map(d => d.count));
+
+  const startSession = () => {
+    setQueue(dueQueue(deck, states, counts.fresh, Date.now()));
+    setSessionReviewed(0);
+    setIsFlipped(false);
+  };
+
+  const grade = (value: ReviewGrade) => {
+    if (!current) return;
+    reviewCard(current.id, value);
+    setSessionReviewed(n => n + 1);
+    setIsFlipped(false);
+    // A forgotten card comes back at the end of the session
+    setQueue(prev => prev && (value === 'again' ? [...prev.slice(1), prev[0]] : prev.slice(1)));
+  };
+
+  // Space shows the answer, 1 to 4 grade it
+  useEffect(() => {
+    if (!current) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (!isFlipped && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setIsFlipped(true);
+      } else if (isFlipped && ['1', '2', '3', '4'].includes(e.key)) {
+        grade(GRADES[Number(e.key) - 1]);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [current, isFlipped]);
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadText(exportAnki(deck, course.title), `fiches-${course.id}-${date}.txt`);
+  };
+
+  const handleReset = () => {
+    if (window.confirm("Effacer toute la progression des révisions pour ce cours ? Les fiches redeviendront nouvelles.")) {
+      resetReviews();
+      setQueue(null);
+    }
+  };
+
+  const openSource = (card: Flashcard) => {
+    setOpenPassage({ source: card.source, title: card.kind === 'definition' ? `Définition — ${card.front}` : card.front });
+  };
+
+  return (
+    <div className="relative h-full overflow-hidden">
+      <div className="h-full overflow-y-auto">
+        <div className="max-w-4xl mx-auto w-full pb-6">
+          <div className="mb-6 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <h2 className="flex items-center gap-2 text-xl font-serif font-bold text-slate-800 dark:text-white">
+                <Layers size={22} className="text-blue-600 dark:text-blue-400" />
+                Fiches de révision
+              </h2>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                {fullDeck.length} fiches tirées des définitions et des grands arrêts de « {course.title} ». Votre progression reste dans ce navigateur.
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={handleExport}
+                disabled={deck.length === 0}
+                className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 text-sm transition-colors disabled:opacity-50"
+                title="Fichier texte à importer dans Anki (Fichier › Importer)"
+              >
+                <Download size={16} />
+                <span>Exporter pour Anki</span>
+              </button>
+              <button
+                onClick={handleReset}
+                disabled={history.length === 0}
+                className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 hover:text-red-600 text-slate-700 dark:text-slate-300 text-sm transition-colors disabled:opacity-50"
+              >
+                <RotateCcw size={16} />
+                <span>Réinitialiser</span>
+              </button>
+            </div>
+          </div>
+
+          <div className="mb-4 flex flex-wrap gap-2">
+            {KIND_FILTERS.map(([kind, label]) => (
+              <button
+                key={kind}
+                onClick={() => { setKindFilter(kind); setQueue(null); }}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+                  kindFilter === kind
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-blue-300'
+                }`}
+              >
+                {label} ({kind === 'all' ? fullDeck.length : fullDeck.filter(card => card.kind === kind).length})
+              </button>
+            ))}
+          </div>
+
+          <div className="mb-6 grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              ['À revoir', counts.due, 'text-red-600 dark:text-red-400'],
+              ['Nouvelles', counts.fresh, 'text-blue-600 dark:text-blue-400'],
+              ['Apprises', `${counts.learned}/${deck.length}`, 'text-green-600 dark:text-green-400'],
+              ['Rétention (30 j)', counts.retention === null ? '—' : `${Math.round(counts.retention * 100)} %`, 'text-slate-700 dark:text-slate-200']
+            ].map(([label, value, color]) => (
+              <div key={label as string} className="p-4 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800">
+                <p className="text-xs text-slate-500 dark:text-slate-400">{label}</p>
+                <p className={`text-2xl font-bold ${color}`}>{value}</p>
+              </div>
+            ))}
+          </div>
+
+          {!isLoaded ? null : current ? (
+            <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-sm overflow-hidden">
+              <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100 dark:border-slate-800 text-xs text-slate-500 dark:text-slate-400">
+                <span className={`px-2 py-0.5 rounded-full font-medium ${current.kind === 'definition' ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300' : 'bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300'}`}>
+                  {current.kind === 'definition' ? 'Définition' : 'Arrêt'}
+                  {!states[current.id] && ' · nouvelle'}
+                </span>
+                <span>{queue!.length} restante{queue!.length > 1 ? 's' : ''} · {sessionReviewed} révisée{sessionReviewed > 1 ? 's' : ''}</span>
+                <button onClick={() => setQueue([])} className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-800" title="Terminer la séance">
+                  <X size={16} />
+                </button>
+              </div>
+
+              <div className="px-6 py-8 text-center">
+                <p className="font-serif text-2xl font-bold text-slate-900 dark:text-white first-letter:uppercase">{current.front}</p>
+                <p className="mt-2 text-sm text-slate-500 dark:text-slate-400">{current.prompt}</p>
+              </div>
+
+              {isFlipped ? (
+                <>
+                  <div className="px-6 pb-6">
+                    <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 text-sm text-slate-800 dark:text-slate-200 leading-relaxed">
+                      <p className="whitespace-pre-line font-medium">{current.back}</p>
+                      {current.context && <p className="mt-3 italic text-slate-600 dark:text-slate-400">{current.context}</p>}
+                      <div className="mt-3 flex items-center justify-between gap-2 text-xs text-slate-400">
+                        <span className="truncate">{current.path}</span>
+                        <button
+                          onClick={() => openSource(current)}
+                          className="flex items-center gap-1 shrink-0 text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          <BookOpen size={12} />
+                          Voir dans le cours
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-4 gap-2 px-6 pb-6">
+                    {GRADES.map((value, i) => (
+                      <button
+                        key={value}
+                        onClick={() => grade(value)}
+                        className={`flex flex-col items-center gap-0.5 py-2 rounded-lg border text-sm font-medium transition-colors ${GRADE_STYLES[value]}`}
+                        title={`Touche ${i + 1}`}
+                      >
+                        {GRADE_LABELS[value]}
+                        <span className="text-[11px] font-normal opacity-70">{formatDelay(scheduleReview(states[current.id], value, now), now)}</span>
+                      </button>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <div className="px-6 pb-6 flex justify-center">
+                  <button
+                    onClick={() => setIsFlipped(true)}
+                    className="flex items-center gap-2 px-5 py-2.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+                    title="Espace"
+                  >
+                    <Eye size={18} />
+                    Afficher la réponse
+                  </button>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="p-8 text-center bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800">
+              {deck.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                  Aucune fiche : le cours ne contient ni ligne « Définition : » ni grand arrêt reconnu.
+                </p>
+              ) : counts.due + counts.fresh === 0 ? (
+                <p className="flex items-center justify-center gap-2 text-sm text-green-700 dark:text-green-400">
+                  <CheckCircle2 size={16} />
+                  {queue ? `Séance terminée : ${sessionReviewed} fiche${sessionReviewed > 1 ? 's' : ''} révisée${sessionReviewed > 1 ? 's' : ''}.` : 'Rien à réviser pour aujourd’hui.'}
+                  {' '}Revenez demain.
+                </p>
+              ) : (
+                <>
+                  {queue && <p className="mb-4 text-sm text-slate-500 dark:text-slate-400">Séance terminée : {sessionReviewed} fiche{sessionReviewed > 1 ? 's' : ''} révisée{sessionReviewed > 1 ? 's' : ''}.</p>}
+                  <button
+                    onClick={startSession}
+                    className="inline-flex items-center gap-2 px-5 py-2.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+                  >
+                    <Play size={18} />
+                    Réviser {counts.due + counts.fresh} fiche{counts.due + counts.fresh > 1 ? 's' : ''}
+                  </button>
+                  <p className="mt-3 text-xs text-slate-400">Espace pour retourner la fiche, 1 à 4 pour noter votre réponse.</p>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="mt-6 p-4 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800">
+            <div className="flex items-center justify-between mb-3 text-xs text-slate-500 dark:text-slate-400">
+              <span className="font-semibold uppercase tracking-wider">Révisions des {HISTORY_DAYS} derniers jours</span>
+              <span>{counts.reviewedToday} aujourd’hui · {history.length} au total</span>
+            </div>
+            <div className="flex items-end gap-1 h-16">
+              {dailyHistory.map(day => (
+                <div key={day.start} className="flex-1 flex flex-col items-center gap-1" title={`${new Date(day.start).toLocaleDateString('fr-FR')} : ${day.count} révision${day.count > 1 ? 's' : ''}`}>
+                  <div className="w-full rounded-t bg-blue-500/80 dark:bg-blue-400/70" style={{ height: `${(day.count / busiestDay) * 48}px` }} />
+                  <span className="text-[10px] text-slate-400">{day.label}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {openPassage && (
+        <CoursePassagePanel course={course} source={openPassage.source} title={openPassage.title} onClose={() => setOpenPassage(null)} />
+      )}
+    </div>
+  );
+};
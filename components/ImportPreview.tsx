@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { FileText, X, AlertTriangle, ListTree, Replace, ListPlus } from 'lucide-react';
+import { CourseNodeKind } from '../types';
+import { ImportedCourse } from '../services/courseImport';
+import { parseCourse } from '../services/courseParser';
+
+export type ImportMode = 'replace' | 'append';
+
+interface ImportPreviewProps {
+  imported: ImportedCourse;
+  hasContent: boolean;
+  onApply: (mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+const FORMAT_LABELS = { docx: 'Word', pdf: 'PDF', text: 'Texte' };
+
+// Indentation of the outline preview
+const KIND_DEPTH: Record<CourseNodeKind, number> = { course: 0, part: 0, chapter: 1, section: 2, roman: 3, letter: 4, number: 5, subletter: 6 };
+
+const PREVIEW_CHARS = 20000;
+const PREVIEW_HEADINGS = 60;
+
+// Shows what an imported file will become before it touches the course content
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ imported, hasContent, onApply, onCancel }) => {
+  const [mode, setMode] = useState<ImportMode>(hasContent ? 'append' : 'replace');
+  const parsed = useMemo(() => parseCourse(imported.text), [imported.text]);
+
+  const stats = [
+    imported.pageCount !== null && `${imported.pageCount} page${imported.pageCount > 1 ? 's' : ''}`,
+    `${parsed.headings.length} titres`,
+    `${parsed.definitions.length} définitions`,
+    `${imported.footnoteCount} notes`,
+    `${imported.text.length.toLocaleString()} caractères`
+  ].filter(Boolean);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-6" onClick={onCancel}>
+      <div
+        className="w-full max-w-5xl h-full flex flex-col bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-800 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-3 px-5 py-4 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded-lg">
+              <FileText size={20} />
+            </div>
+            <div className="min-w-0">
+              <h3 className="font-semibold text-slate-800 dark:text-white text-sm truncate">
+                Aperçu de l'import — {imported.fileName}
+                <span className="ml-2 px-1.5 py-0.5 text-xs font-medium rounded bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400">{FORMAT_LABELS[imported.format]}</span>
+              </h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{stats.join(' · ')}</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded" title="Annuler">
+            <X size={18} />
+          </button>
+        </div>
+
+        {imported.warnings.length > 0 && (
+          <div className="px-5 py-3 space-y-1 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-100 dark:border-amber-800/50">
+            {imported.warnings.map(warning => (
+              <p key={warning} className="flex items-start gap-2 text-xs text-amber-800 dark:text-amber-300">
+                <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                {warning}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 flex min-h-0">
+          {/* Detected outline */}
+          <div className="w-72 shrink-0 overflow-y-auto border-r border-slate-200 dark:border-slate-800 p-4">
+            <h4 className="flex items-center gap-2 mb-2 text-xs font-semibold uppercase tracking-wider text-slate-500">
+              <ListTree size={14} />
+              Plan détecté
+            </h4>
+            {parsed.headings.length === 0 ? (
+              <p className="text-xs text-slate-500 dark:text-slate-400">Aucun titre reconnu.</p>
+            ) : (
+              <ul className="space-y-1">
+                {parsed.headings.slice(0, PREVIEW_HEADINGS).map(node => (
+                  <li key={node.id} className="text-xs text-slate-700 dark:text-slate-300 truncate" style={{ paddingLeft: `${KIND_DEPTH[node.kind] * 0.75}rem` }} title={`${node.label} – ${node.title}`}>
+                    <span className="font-semibold">{node.label}</span> {node.title}
+                  </li>
+                ))}
+                {parsed.headings.length > PREVIEW_HEADINGS && (
+                  <li className="text-xs text-slate-400">… et {parsed.headings.length - PREVIEW_HEADINGS} autres titres</li>
+                )}
+              </ul>
+            )}
+          </div>
+
+          {/* Converted text */}
+          <pre className="flex-1 overflow-auto p-4 text-xs leading-relaxed whitespace-pre-wrap font-mono text-slate-700 dark:text-slate-200 bg-slate-50 dark:bg-slate-950">
+            {imported.text.slice(0, PREVIEW_CHARS)}
+            {imported.text.length > PREVIEW_CHARS && `\n\n… (${(imported.text.length - PREVIEW_CHARS).toLocaleString()} caractères supplémentaires)`}
+          </pre>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 px-5 py-4 border-t border-slate-200 dark:border-slate-800">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setMode('append')}
+              disabled={!hasContent}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm border transition-colors disabled:opacity-50 ${
+                mode === 'append' ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' : 'border-slate-300 dark:border-slate-700 text-slate-600 dark:text-slate-300'
+              }`}
+            >
+              <ListPlus size={16} />
+              Ajouter à la fin du cours
+            </button>
+            <button
+              onClick={() => setMode('replace')}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                mode === 'replace' ? 'border-amber-500 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300' : 'border-slate-300 dark:border-slate-700 text-slate-600 dark:text-slate-300'
+              }`}
+            >
+              <Replace size={16} />
+              Remplacer le contenu actuel
+            </button>
+          </div>
+          <div className="flex items-center gap-3">
+            {mode === 'replace' && hasContent && (
+              <span className="text-xs text-slate-500 dark:text-slate-400">L'ancien contenu restera disponible dans l'historique.</span>
+            )}
+            <button onClick={onCancel} className="px-3 py-1.5 text-sm text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+              Annuler
+            </button>
+            <button
+              onClick={() => onApply(mode)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors shadow-sm"
+            >
+              Importer
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
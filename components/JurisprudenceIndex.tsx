@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { Scale, Search, ChevronDown, ChevronRight, ArrowUp, ArrowDown, BookOpen } from 'lucide-react';
+import { CourseContext, CourseDecision, SourceReference } from '../types';
+import { getNodePath } from '../services/courseParser';
+import { CoursePassagePanel } from './CoursePassagePanel';
+
+interface JurisprudenceIndexProps {
+  course: CourseContext;
+}
+
+type SortKey = 'date' | 'court' | 'name' | 'citations';
+
+const ALL_COURTS = 'all';
+
+// Courts in their usual order of authority, for the court sort and the filter
+const COURT_ORDER = ['Conseil constitutionnel', 'Tribunal des conflits', 'Conseil d’État', 'Cour de cassation'];
+
+const courtRank = (court: string) => {
+  const index = COURT_ORDER.indexOf(court);
+  return index === -1 ? COURT_ORDER.length : index;
+};
+
+const displayName = (decision: CourseDecision) => decision.shortName || `${decision.court}, ${decision.dateLabel}`;
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const COMPARATORS: Record<SortKey, (a: CourseDecision, b: CourseDecision) => number> = {
+  date: (a, b) => a.date.localeCompare(b.date),
+  court: (a, b) => courtRank(a.court) - courtRank(b.court) || a.date.localeCompare(b.date),
+  name: (a, b) => displayName(a).localeCompare(displayName(b), 'fr'),
+  citations: (a, b) => a.occurrences.length - b.occurrences.length
+};
+
+// Every decision cited in the course, with links to the passages that cite it
+export const JurisprudenceIndex: React.FC<JurisprudenceIndexProps> = ({ course }) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'date', descending: false });
+  const [courtFilter, setCourtFilter] = useState(ALL_COURTS);
+  const [query, setQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [openPassage, setOpenPassage] = useState<{ source: SourceReference; title: string } | null>(null);
+
+  const { decisions } = course.structure;
+
+  const courts = useMemo(() => {
+    const counts = new Map<string, number>();
+    decisions.forEach(d => counts.set(d.court, (counts.get(d.court) || 0) + 1));
+    return [...counts.entries()].sort((a, b) => courtRank(a[0]) - courtRank(b[0]));
+  }, [decisions]);
+
+  const rows = useMemo(() => {
+    const needle = normalize(query.trim());
+    const filtered = decisions.filter(d =>
+      (courtFilter === ALL_COURTS || d.court === courtFilter) &&
+      (!needle || normalize(`${d.shortName} ${d.parties} ${d.court} ${d.formation || ''} ${d.dateLabel}`).includes(needle))
+    );
+    const compare = COMPARATORS[sort.key];
+    return filtered.sort((a, b) => (sort.descending ? -compare(a, b) : compare(a, b)));
+  }, [decisions, courtFilter, query, sort]);
+
+  const citationCount = decisions.reduce((total, d) => total + d.occurrences.length, 0);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : key === 'citations' }));
+  };
+
+  const openOccurrence = (decision: CourseDecision, index: number) => {
+    const occurrence = decision.occurrences[index];
+    const path = getNodePath(course.structure, occurrence.nodeId);
+    setOpenPassage({
+      title: `${displayName(decision)} — citation ${index + 1}/${decision.occurrences.length}`,
+      source: {
+        marker: index + 1,
+        nodeId: occurrence.nodeId,
+        path: path.map(n => n.label).join(' › '),
+        start: occurrence.start,
+        end: occurrence.end,
+        excerpt: course.content.slice(occurrence.start, occurrence.end)
+      }
+    });
+  };
+
+  const header = (key: SortKey, label: string, className = '') => (
+    <th className={`px-3 py-2 font-semibold ${className}`}>
+      <button onClick={() => toggleSort(key)} className="flex items-center gap-1 hover:text-slate-800 dark:hover:text-white">
+        {label}
+        {sort.key === key && (sort.descending ? <ArrowDown size={12} /> : <ArrowUp size={12} />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="relative h-full overflow-hidden">
+      <div className="h-full overflow-y-auto">
+        <div className="max-w-6xl mx-auto w-full">
+          <div className="mb-6">
+            <h2 className="flex items-center gap-2 text-xl font-serif font-bold text-slate-800 dark:text-white">
+              <Scale size={22} className="text-blue-600 dark:text-blue-400" />
+              Jurisprudence du cours
+            </h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              {decisions.length} décisions citées {citationCount} fois dans « {course.title} ». Cliquez sur une décision pour retrouver les passages qui la citent.
+            </p>
+          </div>
+
+          <div className="mb-4 flex flex-col md:flex-row md:items-center gap-3">
+            <div className="relative flex-1">
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Rechercher un arrêt (ex. Gheusi, APREI, 1935)..."
+                className="w-full pl-9 pr-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {[[ALL_COURTS, decisions.length] as [string, number], ...courts].map(([court, count]) => (
+                <button
+                  key={court}
+                  onClick={() => setCourtFilter(court)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+                    courtFilter === court
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-blue-300'
+                  }`}
+                >
+                  {court === ALL_COURTS ? 'Toutes' : court} ({count})
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {decisions.length === 0 ? (
+            <div className="p-8 text-center text-sm text-slate-500 dark:text-slate-400 bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800">
+              Aucune décision n'a été reconnue dans ce cours.
+            </div>
+          ) : (
+            <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 dark:bg-slate-800/50 text-left text-xs uppercase tracking-wider text-slate-500">
+                  <tr>
+                    {header('name', 'Arrêt')}
+                    {header('court', 'Juridiction')}
+                    {header('date', 'Date')}
+                    <th className="px-3 py-2 font-semibold hidden lg:table-cell">Parties</th>
+                    {header('citations', 'Citations', 'w-24')}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {rows.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="px-3 py-6 text-center text-slate-500 dark:text-slate-400">Aucune décision ne correspond.</td>
+                    </tr>
+                  )}
+                  {rows.map(decision => {
+                    const isExpanded = expandedId === decision.id;
+                    return (
+                      <React.Fragment key={decision.id}>
+                        <tr
+                          onClick={() => setExpandedId(isExpanded ? null : decision.id)}
+                          className={`cursor-pointer transition-colors ${isExpanded ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-slate-50 dark:hover:bg-slate-800/50'}`}
+                        >
+                          <td className="px-3 py-2 font-serif font-bold text-slate-900 dark:text-white">
+                            <span className="flex items-center gap-1.5">
+                              {isExpanded ? <ChevronDown size={14} className="shrink-0 text-slate-400" /> : <ChevronRight size={14} className="shrink-0 text-slate-400" />}
+                              {displayName(decision)}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-slate-600 dark:text-slate-300">
+                            {decision.court}
+                            {decision.formation && <span className="text-slate-400">, {decision.formation}</span>}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-slate-600 dark:text-slate-300">{decision.dateLabel}</td>
+                          <td className="px-3 py-2 hidden lg:table-cell text-slate-500 dark:text-slate-400 max-w-xs truncate" title={decision.parties}>{decision.parties}</td>
+                          <td className="px-3 py-2 text-center text-slate-600 dark:text-slate-300">{decision.occurrences.length}</td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="bg-slate-50 dark:bg-slate-950">
+                            <td colSpan={5} className="px-3 py-3">
+                              <ul className="space-y-1.5 pl-5">
+                                {decision.occurrences.map((occurrence, index) => (
+                                  <li key={occurrence.start}>
+                                    <button
+                                      onClick={() => openOccurrence(decision, index)}
+                                      className="w-full text-left flex items-start gap-2 p-2 rounded-lg hover:bg-white dark:hover:bg-slate-900 border border-transparent hover:border-slate-200 dark:hover:border-slate-800"
+                                    >
+                                      <BookOpen size={14} className="mt-0.5 shrink-0 text-amber-500" />
+                                      <span className="min-w-0">
+                                        <span className="block text-xs text-slate-500 dark:text-slate-400 truncate">
+                                          {getNodePath(course.structure, occurrence.nodeId).map(n => n.label).join(' › ') || 'Introduction'}
+                                        </span>
+                                        <span className="block text-xs text-slate-700 dark:text-slate-300 truncate">{occurrence.raw}</span>
+                                      </span>
+                                    </button>
+                                  </li>
+                                ))}
+                              </ul>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {openPassage && (
+        <CoursePassagePanel course={course} source={openPassage.source} title={openPassage.title} onClose={() => setOpenPassage(null)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Info, CheckCircle2, Wand2, X, ClipboardCheck } from 'lucide-react';
+import { isBatchFix, LintCategory, LintIssue, LINT_CATEGORY_LABELS } from '../services/courseLint';
+
+interface LintPanelProps {
+  issues: LintIssue[];
+  onSelect: (issue: LintIssue) => void;
+  onApply: (issues: LintIssue[]) => void;
+  onClose: () => void;
+}
+
+const CATEGORY_ORDER: LintCategory[] = ['numbering', 'reference', 'definition', 'citation'];
+
+// Problems found in the course text, grouped by kind, each with its one-click fix when there is one
+export const LintPanel: React.FC<LintPanelProps> = ({ issues, onSelect, onApply, onClose }) => {
+  // Fix whose before/after texts are shown, waiting for confirmation (fixes that drop wording)
+  const [reviewedId, setReviewedId] = useState<string | null>(null);
+
+  const groups = CATEGORY_ORDER
+    .map(category => ({ category, items: issues.filter(issue => issue.category === category) }))
+    .filter(group => group.items.length > 0);
+
+  return (
+    <aside className="w-72 shrink-0 flex flex-col border border-slate-200 dark:border-slate-800 rounded-lg bg-slate-50 dark:bg-slate-950 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-200 dark:border-slate-800">
+        <span className="flex items-center gap-2 text-sm font-semibold text-slate-800 dark:text-white">
+          <ClipboardCheck size={16} />
+          Vérification
+        </span>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded" title="Fermer la vérification">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {groups.length === 0 && (
+          <p className="p-3 flex items-center gap-2 text-xs text-green-700 dark:text-green-400">
+            <CheckCircle2 size={14} />
+            Aucun problème détecté.
+          </p>
+        )}
+        {groups.map(({ category, items }) => {
+          const fixable = items.filter(isBatchFix);
+          return (
+            <section key={category} className="border-b border-slate-200 dark:border-slate-800">
+              <div className="flex items-center justify-between px-3 py-2 bg-slate-100 dark:bg-slate-900">
+                <span className="text-xs font-semibold uppercase tracking-wider text-slate-500">
+                  {LINT_CATEGORY_LABELS[category]} ({items.length})
+                </span>
+                {fixable.length > 1 && (
+                  <button
+                    onClick={() => onApply(fixable)}
+                    className="flex items-center gap-1 px-2 py-0.5 text-xs text-blue-700 dark:text-blue-400 hover:bg-white dark:hover:bg-slate-800 rounded"
+                    title="Appliquer tous les correctifs de cette rubrique"
+                  >
+                    <Wand2 size={12} />
+                    Tout corriger
+                  </button>
+                )}
+              </div>
+              <ul className="divide-y divide-slate-200 dark:divide-slate-800">
+                {items.map(issue => (
+                  <li key={issue.id} className="p-3">
+                    <button onClick={() => onSelect(issue)} className="w-full text-left flex items-start gap-2" title="Aller au passage">
+                      {issue.severity === 'warning'
+                        ? <AlertTriangle size={14} className="mt-0.5 shrink-0 text-amber-500" />
+                        : <Info size={14} className="mt-0.5 shrink-0 text-blue-500" />}
+                      <span className="text-xs text-slate-700 dark:text-slate-300">
+                        <span className="font-medium text-slate-500 dark:text-slate-400">Ligne {issue.line + 1} · </span>
+                        {issue.message}
+                      </span>
+                    </button>
+                    {issue.fix?.review && reviewedId === issue.id && (
+                      <div className="mt-2 ml-6 space-y-2 text-xs">
+                        <div>
+                          <p className="font-semibold text-green-700 dark:text-green-400">Formulation conservée</p>
+                          <p className="mt-0.5 p-2 rounded bg-green-50 dark:bg-green-900/20 text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{issue.fix.review.kept}</p>
+                        </div>
+                        <div>
+                          <p className="font-semibold text-red-700 dark:text-red-400">Formulation remplacée (sera perdue)</p>
+                          <p className="mt-0.5 p-2 rounded bg-red-50 dark:bg-red-900/20 text-slate-700 dark:text-slate-300 whitespace-pre-wrap line-through decoration-red-400/60">{issue.fix.review.replaced}</p>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => { setReviewedId(null); onApply([issue]); }}
+                            className="flex items-center gap-1 px-2 py-0.5 text-white bg-blue-600 hover:bg-blue-700 rounded"
+                          >
+                            <Wand2 size={12} />
+                            Confirmer
+                          </button>
+                          <button
+                            onClick={() => setReviewedId(null)}
+                            className="px-2 py-0.5 text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-700 rounded hover:bg-white dark:hover:bg-slate-800"
+                          >
+                            Annuler
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    {issue.fix && !(issue.fix.review && reviewedId === issue.id) && (
+                      <button
+                        onClick={() => (issue.fix?.review ? setReviewedId(issue.id) : onApply([issue]))}
+                        className="mt-2 ml-6 flex items-center gap-1 px-2 py-0.5 text-xs text-blue-700 dark:text-blue-400 border border-blue-200 dark:border-blue-800 rounded hover:bg-blue-50 dark:hover:bg-blue-900/30"
+                      >
+                        <Wand2 size={12} />
+                        {issue.fix.label}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
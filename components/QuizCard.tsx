@@ -0,0 +1,112 @@
+import React, { useId, useState } from 'react';
+import { CheckCircle2, XCircle, BookOpen, HelpCircle } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { Quiz, SourceReference } from '../types';
+import { QUIZ_LABELS } from '../services/quiz';
+
+interface QuizCardProps {
+  quiz: Quiz;
+  onAnswer: (itemIndex: number, choice: number) => void;
+  onOpenSource: (source: SourceReference) => void;
+}
+
+const letter = (i: number) => String.fromCharCode(65 + i);
+
+// A structured quiz in the chat: one radio group per question, checked on submit, then the explanation
+export const QuizCard: React.FC<QuizCardProps> = ({ quiz, onAnswer, onOpenSource }) => {
+  const groupId = useId();
+  // Choices picked but not yet submitted; submitted answers live in the quiz itself
+  const [selected, setSelected] = useState<Record<number, number>>({});
+
+  const answered = quiz.items.filter(item => item.response !== undefined);
+  const correct = answered.filter(item => item.response === item.answerIndex).length;
+
+  return (
+    <div className="not-prose w-full space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="flex items-center gap-2 font-serif font-bold text-slate-900 dark:text-white">
+          <HelpCircle size={18} className="text-blue-600 dark:text-blue-400" />
+          {QUIZ_LABELS[quiz.kind]}
+        </h3>
+        <span className="text-xs font-medium text-slate-500 dark:text-slate-400">
+          {answered.length === 0 ? `${quiz.items.length} questions` : `Score : ${correct}/${answered.length}`}
+        </span>
+      </div>
+
+      <ol className="space-y-4">
+        {quiz.items.map((item, i) => {
+          const isAnswered = item.response !== undefined;
+          const isRight = item.response === item.answerIndex;
+          const choice = isAnswered ? item.response : selected[i];
+          return (
+            <li key={i} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+              <p className="mb-3 text-sm font-medium text-slate-800 dark:text-slate-100">
+                <span className="mr-1 text-slate-400">{i + 1}.</span>
+                {item.type === 'vrai-faux' && <span className="mr-1 text-emerald-600 dark:text-emerald-400">Vrai ou faux :</span>}
+                {item.question}
+              </p>
+
+              <fieldset disabled={isAnswered} className="space-y-1.5">
+                <legend className="sr-only">Choix pour la question {i + 1}</legend>
+                {item.choices.map((label, c) => {
+                  const state = !isAnswered
+                    ? choice === c ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/30' : 'border-slate-200 dark:border-slate-700 hover:border-blue-300'
+                    : c === item.answerIndex
+                      ? 'border-green-400 bg-green-50 dark:bg-green-900/30'
+                      : c === item.response ? 'border-red-400 bg-red-50 dark:bg-red-900/30' : 'border-slate-200 dark:border-slate-700 opacity-60';
+                  return (
+                    <label key={c} className={`flex items-start gap-2 px-3 py-2 rounded-lg border text-sm text-slate-700 dark:text-slate-200 transition-colors ${isAnswered ? '' : 'cursor-pointer'} ${state}`}>
+                      <input
+                        type="radio"
+                        name={`${groupId}-${i}`}
+                        checked={choice === c}
+                        onChange={() => setSelected(prev => ({ ...prev, [i]: c }))}
+                        className="mt-0.5 accent-blue-600"
+                      />
+                      {item.type === 'qcm' && <span className="font-semibold text-slate-400">{letter(c)}.</span>}
+                      <span>{label}</span>
+                    </label>
+                  );
+                })}
+              </fieldset>
+
+              {!isAnswered ? (
+                <button
+                  onClick={() => onAnswer(i, selected[i])}
+                  disabled={selected[i] === undefined}
+                  className="mt-3 px-4 py-1.5 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors"
+                >
+                  Valider
+                </button>
+              ) : (
+                <div className={`mt-3 p-3 rounded-lg text-sm ${isRight ? 'bg-green-50 dark:bg-green-900/20' : 'bg-red-50 dark:bg-red-900/20'}`}>
+                  <p className={`flex items-center gap-1.5 mb-1 font-semibold ${isRight ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}`}>
+                    {isRight ? <CheckCircle2 size={16} /> : <XCircle size={16} />}
+                    {isRight ? 'Bonne réponse' : `Mauvaise réponse — la bonne réponse était : ${item.choices[item.answerIndex]}`}
+                  </p>
+                  {item.explanation && (
+                    <div className="prose prose-sm max-w-none prose-slate dark:prose-invert">
+                      <ReactMarkdown>{item.explanation}</ReactMarkdown>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Shown once answered: the passage would give the answer away */}
+              {isAnswered && item.source && (
+                <button
+                  onClick={() => onOpenSource(item.source!)}
+                  className="mt-2 flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  title={item.source.path}
+                >
+                  <BookOpen size={12} />
+                  Voir le passage du cours
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle, BookOpen } from 'lucide-react';
+import { QuoteDeviation, SourceReference } from '../types';
+import { diffLines } from '../services/diff';
+
+const KIND_LABELS: Record<QuoteDeviation['kind'], string> = {
+  definition: 'Définition',
+  decision: 'Arrêt',
+  statute: 'Texte'
+};
+
+export const QUOTE_REASON_LABELS: Record<QuoteDeviation['reason'], string> = {
+  modified: 'Citation modifiée',
+  truncated: 'Citation incomplète',
+  unknown: 'Absent du cours'
+};
+
+// Word-level comparison with the course wording: missing words struck through, added ones highlighted
+const QuoteDiff: React.FC<{ expected: string; quoted: string }> = ({ expected, quoted }) => {
+  const parts = useMemo(
+    () => diffLines(expected.trim().split(/\s+/).join('\n'), quoted.trim().split(/\s+/).join('\n')),
+    [expected, quoted]
+  );
+  return (
+    <p className="leading-relaxed">
+      {parts.map((part, i) => (
+        <React.Fragment key={i}>
+          {part.type === 'equal' && <span>{part.text}</span>}
+          {part.type === 'delete' && <del className="px-0.5 rounded bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300">{part.text}</del>}
+          {part.type === 'insert' && <ins className="px-0.5 rounded no-underline bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300">{part.text}</ins>}
+          {' '}
+        </React.Fragment>
+      ))}
+    </p>
+  );
+};
+
+interface QuoteDeviationListProps {
+  deviations: QuoteDeviation[];
+  onOpenSource?: (source: SourceReference) => void;
+}
+
+// Quotes of an answer that differ from the course, each compared with the course wording
+export const QuoteDeviationList: React.FC<QuoteDeviationListProps> = ({ deviations, onOpenSource }) => (
+  <ul className="space-y-3">
+    {deviations.map((deviation, i) => (
+      <li key={i} className="text-xs text-slate-700 dark:text-slate-300">
+        <div className="flex items-center gap-2 mb-1">
+          <AlertTriangle size={12} className="shrink-0 text-amber-500" />
+          <span className="font-semibold text-amber-700 dark:text-amber-400">{QUOTE_REASON_LABELS[deviation.reason]}</span>
+          <span className="text-slate-400">· {KIND_LABELS[deviation.kind]}</span>
+          {deviation.reason !== 'unknown' && <span className="text-slate-400">· {Math.round(deviation.similarity * 100)} % identique</span>}
+          {deviation.source && onOpenSource && (
+            <button
+              onClick={() => onOpenSource(deviation.source!)}
+              className="ml-auto flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              <BookOpen size={12} />
+              Voir dans le cours
+            </button>
+          )}
+        </div>
+        {deviation.reason === 'unknown' ? (
+          <p className="italic">« {deviation.quoted} » ne figure pas dans le cours.</p>
+        ) : (
+          <QuoteDiff expected={deviation.expected} quoted={deviation.quoted} />
+        )}
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, RefreshCw, Trash2, MessageSquare, CheckCircle2 } from 'lucide-react';
+import { QuoteReport } from '../types';
+import { QuoteDeviationList } from './QuoteDeviations';
+
+// Server calls bound to the professor's session and to the open course
+export interface QuoteReportSource {
+  listReports: () => Promise<QuoteReport[]>;
+  clearReports: () => Promise<void>;
+}
+
+interface QuoteReportsProps {
+  source: QuoteReportSource;
+}
+
+const formatReportDate = (iso: string) =>
+  new Date(iso).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' });
+
+// Quotes of the course that the assistant did not reproduce word for word, as reported by students' browsers
+export const QuoteReports: React.FC<QuoteReportsProps> = ({ source }) => {
+  const [reports, setReports] = useState<QuoteReport[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    source.listReports()
+      .then(list => { if (!cancelled) setReports(list); })
+      .catch(e => { if (!cancelled) setError((e as Error).message); });
+    return () => { cancelled = true; };
+  }, [revision]);
+
+  const handleClear = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await source.clearReports();
+      setReports([]);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden animate-in fade-in duration-200">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Définitions, arrêts et textes que l'IA n'a pas cités mot pour mot. Chaque écart est signalé à l'étudiant dans la discussion.
+        </p>
+        <div className="flex gap-2 shrink-0">
+          <button
+            onClick={() => setRevision(r => r + 1)}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 text-sm transition-colors"
+          >
+            <RefreshCw size={16} />
+            <span>Actualiser</span>
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={isBusy || !reports?.length}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 hover:text-red-600 text-slate-700 dark:text-slate-300 text-sm transition-colors disabled:opacity-50"
+          >
+            {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Trash2 size={16} />}
+            <span>Vider</span>
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex-1 overflow-y-auto space-y-3">
+        {!reports && !error && (
+          <div className="flex items-center justify-center py-12 text-slate-500 dark:text-slate-400">
+            <Loader2 size={20} className="animate-spin" />
+          </div>
+        )}
+        {reports?.length === 0 && (
+          <p className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+            <CheckCircle2 size={16} />
+            Aucune citation modifiée n'a été signalée.
+          </p>
+        )}
+        {reports?.map(report => (
+          <article key={report.id} className="p-4 rounded-lg border border-slate-200 dark:border-slate-800">
+            <div className="flex items-start gap-2 mb-3 text-sm">
+              <MessageSquare size={16} className="mt-0.5 shrink-0 text-slate-400" />
+              <p className="flex-1 text-slate-800 dark:text-slate-200">{report.question || <em className="text-slate-400">Question non transmise</em>}</p>
+              <span className="shrink-0 text-xs text-slate-400">{formatReportDate(report.createdAt)}</span>
+            </div>
+            <QuoteDeviationList deviations={report.deviations} />
+          </article>
+        ))}
+      </div>
+    </div>
+  );
+};
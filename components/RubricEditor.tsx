@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, RotateCcw, ArrowUp, ArrowDown } from 'lucide-react';
+import { RubricCriterion } from '../types';
+import { DEFAULT_CASE_RUBRIC, MAX_CRITERIA, normalizeRubric } from '../services/caseStudy';
+
+interface RubricEditorProps {
+  rubric: RubricCriterion[];
+  onSave: (rubric: RubricCriterion[]) => void;
+}
+
+const sameRubric = (a: RubricCriterion[], b: RubricCriterion[]) => JSON.stringify(a) === JSON.stringify(b);
+
+// Grading grid of the cas pratique; like the persona, changes are published when a field loses focus
+export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onSave }) => {
+  const [draft, setDraft] = useState(rubric);
+
+  useEffect(() => setDraft(rubric), [rubric]);
+
+  const publish = (next: RubricCriterion[]) => {
+    const cleaned = normalizeRubric(next);
+    if (cleaned.length > 0 && !sameRubric(cleaned, rubric)) onSave(cleaned);
+  };
+
+  const update = (index: number, patch: Partial<RubricCriterion>) => {
+    setDraft(draft.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  };
+
+  const remove = (index: number) => {
+    const next = draft.filter((_, i) => i !== index);
+    setDraft(next);
+    publish(next);
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...draft];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setDraft(next);
+    publish(next);
+  };
+
+  const add = () => {
+    setDraft([...draft, { id: `critere-${Date.now().toString(36)}`, label: '', description: '', points: 2 }]);
+  };
+
+  const total = draft.reduce((sum, c) => sum + (Number(c.points) || 0), 0);
+
+  return (
+    <div className="flex flex-col h-full overflow-y-auto animate-in fade-in duration-200">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Critères de correction des cas pratiques. L'IA note chaque critère selon sa description, sans dépasser son barème. Total : <strong className="text-slate-700 dark:text-slate-200">{total.toLocaleString('fr-FR')} points</strong>.
+        </p>
+        <button
+          onClick={() => { setDraft(DEFAULT_CASE_RUBRIC); publish(DEFAULT_CASE_RUBRIC); }}
+          className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 text-sm transition-colors shrink-0"
+        >
+          <RotateCcw size={16} />
+          <span>Grille par défaut</span>
+        </button>
+      </div>
+
+      <ol className="space-y-3">
+        {draft.map((criterion, index) => (
+          <li key={criterion.id} className="p-4 rounded-lg border border-slate-200 dark:border-slate-800">
+            <div className="flex items-center gap-3">
+              <span className="text-xs font-semibold text-slate-400">{index + 1}.</span>
+              <input
+                value={criterion.label}
+                onChange={(e) => update(index, { label: e.target.value })}
+                onBlur={() => publish(draft)}
+                placeholder="Intitulé du critère"
+                className="flex-1 min-w-0 px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-semibold bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+              />
+              <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+                <input
+                  type="number"
+                  min={0.5}
+                  max={100}
+                  step={0.5}
+                  value={criterion.points}
+                  onChange={(e) => update(index, { points: Number(e.target.value) })}
+                  onBlur={() => publish(draft)}
+                  className="w-20 px-2 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+                />
+                pts
+              </label>
+              <div className="flex items-center">
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1.5 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 disabled:opacity-30" title="Monter">
+                  <ArrowUp size={14} />
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === draft.length - 1} className="p-1.5 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 disabled:opacity-30" title="Descendre">
+                  <ArrowDown size={14} />
+                </button>
+                <button onClick={() => remove(index)} disabled={draft.length === 1} className="p-1.5 text-slate-400 hover:text-red-600 disabled:opacity-30" title="Supprimer">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+            <textarea
+              value={criterion.description}
+              onChange={(e) => update(index, { description: e.target.value })}
+              onBlur={() => publish(draft)}
+              rows={2}
+              placeholder="Ce qui est attendu pour obtenir tous les points"
+              className="mt-2 w-full px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 resize-none"
+            />
+          </li>
+        ))}
+      </ol>
+
+      <button
+        onClick={add}
+        disabled={draft.length >= MAX_CRITERIA}
+        className="mt-3 self-start flex items-center gap-2 px-3 py-1.5 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+      >
+        <Plus size={16} />
+        Ajouter un critère
+      </button>
+    </div>
+  );
+};
@@ -1,18 +1,36 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2, Sparkles, BookOpen, CheckCircle, HelpCircle, Plus, MessageSquare, Trash2, Edit2, X, Check, PanelLeftClose, PanelLeft, Lightbulb, ExternalLink } from 'lucide-react';
-import { GoogleGenAI } from '@google/genai';
-import ReactMarkdown from 'react-markdown';
-import { ChatMessage } from '../types';
-import { useChatStore } from '../hooks/useChatStore';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Square, Bot, User, Loader2, Sparkles, BookOpen, CheckCircle, HelpCircle, Plus, MessageSquare, Trash2, Edit2, X, Check, PanelLeftClose, PanelLeft, Lightbulb, ExternalLink, AlertTriangle, Mic } from 'lucide-react';
+import ReactMarkdown, { Components, Options } from 'react-markdown';
+import { ChatMessage, CourseContext, ModelSettings, QuizKind, RetrievalConfig, SourceReference } from '../types';
+import { ChatStore } from '../hooks/useChatStore';
+import { useCourseIndex } from '../hooks/useCourseIndex';
+import { buildCourseContextBlock } from '../services/retrieval';
+import { resolveSources, historyText, CITATION_INSTRUCTION } from '../services/citations';
+import { CoursePassagePanel } from './CoursePassagePanel';
+import { DefinitionTerm, rehypeGlossaryTerms } from './DefinitionTerm';
+import { useGlossary } from '../hooks/useGlossary';
+import { definitionSource } from '../services/glossary';
+import { buildQuoteIndex, checkQuotes } from '../services/quoteCheck';
+import { reportQuoteDeviations } from '../services/professorClient';
+import { QuoteDeviationList } from './QuoteDeviations';
+import { QuizCard } from './QuizCard';
+import { QUIZ_INSTRUCTION, QUIZ_PROMPTS, QuizFormatError, parseQuiz, quizSchema, quizScore, quizToText, quizTopic } from '../services/quiz';
+import { LlmProvider, RateLimitError } from '../services/llmProvider';
 
 interface TextChatProps {
-  courseContent: string;
+  course: CourseContext;
   systemInstruction: string;
-  apiKey: string;
+  retrievalConfig: RetrievalConfig;
+  modelSettings: ModelSettings;
+  provider: LlmProvider;
+  pendingPrompt?: string | null;        // question sent from another view, asked as soon as the chat is ready
+  onPendingPromptSent?: () => void;
+  onOpenCasePractice?: () => void;      // the Cas Pratique quick action opens the dedicated mode
+  chatStore: ChatStore;                 // shared with the oral chat, whose transcripts are listed here
 }
 
-export const TextChat: React.FC<TextChatProps> = ({ courseContent, systemInstruction, apiKey }) => {
+export const TextChat: React.FC<TextChatProps> = ({ course, systemInstruction, retrievalConfig, modelSettings, provider, pendingPrompt, onPendingPromptSent, onOpenCasePractice, chatStore }) => {
   const { 
     sessions, 
     activeSessionId, 
@@ -21,27 +39,45 @@ export const TextChat: React.FC<TextChatProps> = ({ courseContent, systemInstruc
     deleteSession, 
     renameSession,
     addMessageToSession,
+    updateMessageInSession,
     activeSession 
-  } = useChatStore();
+  } = chatStore;
+  const courseIndex = useCourseIndex(course);
+  const glossary = useGlossary(course);
+  const quoteIndex = useMemo(() => buildQuoteIndex(course), [course]);
 
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Text received so far for the answer being streamed (null when nothing is streaming)
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   // Default to false (closed) for all screens
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [openSource, setOpenSource] = useState<SourceReference | null>(null);
+  // Course passage opened from a term's hover card or a flagged quote
+  const [openPassage, setOpenPassage] = useState<{ source: SourceReference; title: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
  
   // Rename state
   const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
   const [editTitleInput, setEditTitleInput] = useState('');
 
+  // Answer whose flagged quotes are unfolded
+  const [openQuotesIndex, setOpenQuotesIndex] = useState<number | null>(null);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
   useEffect(() => {
     scrollToBottom();
-  }, [activeSession?.messages]);
+  }, [activeSession?.messages, streamingText]);
+
+  // Stop any pending request when leaving the chat
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   const sendMessage = async (text: string) => {
     if (!text.trim() || isLoading || !activeSessionId) return;
@@ -51,59 +87,206 @@ export const TextChat: React.FC<TextChatProps> = ({ courseContent, systemInstruc
     setInput('');
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let responseText = '';
+    let courseBlock: ReturnType<typeof buildCourseContextBlock> | null = null;
+
+    // Whatever was streamed before a stop or an error is kept, with its sources like a complete answer
+    const keepPartialAnswer = () => {
+      if (!responseText) return;
+      addMessageToSession(activeSessionId, {
+        role: 'model',
+        text: responseText,
+        timestamp: new Date(),
+        isPartial: true,
+        sources: courseBlock ? resolveSources(courseIndex, course.content, courseBlock, responseText) : undefined
+      });
+    };
+
     try {
-      const ai = new GoogleGenAI({ apiKey });
-      
-      // Combine user instructions with the course content
-      const fullSystemInstruction = `${systemInstruction}\n\nCONTENU DU COURS (Source Unique de Vérité) :\n${courseContent}`;
+      // Combine user instructions with the course passages relevant to this question
+      const history = activeSession?.messages || [];
+      courseBlock = buildCourseContextBlock(courseIndex, course, text, history, retrievalConfig);
+      const fullSystemInstruction = courseBlock.mode === 'retrieval'
+        ? `${systemInstruction}\n\n${CITATION_INSTRUCTION}\n\n${courseBlock.text}`
+        : `${systemInstruction}\n\n${courseBlock.text}`;
       
-      const response = await ai.models.generateContent({
-        model: 'models/gemini-2.0-flash',
+      const stream = provider.generateStream({
+        systemInstruction: fullSystemInstruction,
         contents: [
-            ...(activeSession?.messages || []).map(m => ({
-                role: m.role,
-                parts: [{ text: m.text }]
-            })),
-            { role: 'user', parts: [{ text: text }] }
+            ...history.map(m => ({ role: m.role, text: historyText(m) })),
+            { role: 'user', text }
         ],
-        config: {
-            systemInstruction: fullSystemInstruction
-        }
+        settings: modelSettings,
+        signal: controller.signal
       });
 
-      const responseText = response.text || "Désolé, je n'ai pas pu générer de réponse.";
-      
+      setStreamingText('');
+      for await (const chunk of stream) {
+        if (controller.signal.aborted) break;
+        responseText += chunk;
+        setStreamingText(responseText);
+      }
+
+      if (controller.signal.aborted) {
+        // Stopped by the student: keep what was already written
+        keepPartialAnswer();
+        return;
+      }
+
+      // Definitions, decisions and statutes must be quoted word for word: deviations are shown and reported to the professor
+      const quoteDeviations = responseText ? checkQuotes(quoteIndex, responseText) : [];
+      if (quoteDeviations.length > 0) reportQuoteDeviations(course.id, { question: text, deviations: quoteDeviations });
+
       addMessageToSession(activeSessionId, {
         role: 'model',
-        text: responseText,
-        timestamp: new Date()
+        text: responseText || "Désolé, je n'ai pas pu générer de réponse.",
+        timestamp: new Date(),
+        sources: responseText ? resolveSources(courseIndex, course.content, courseBlock, responseText) : undefined,
+        quoteDeviations: quoteDeviations.length > 0 ? quoteDeviations : undefined
       });
 
     } catch (error) {
+      // Aborting may surface as an error from the provider: same handling as a clean stop
+      if (controller.signal.aborted) {
+        keepPartialAnswer();
+        return;
+      }
       console.error(error);
+      keepPartialAnswer();
       addMessageToSession(activeSessionId, {
         role: 'model',
-        text: "Une erreur est survenue lors de la communication avec l'IA. Veuillez vérifier votre clé API ou réessayer.",
+        text: error instanceof RateLimitError
+          ? error.message
+          : responseText
+            ? "La réponse a été interrompue par une erreur de communication avec l'IA. Vous pouvez reformuler ou réessayer."
+            : "Une erreur est survenue lors de la communication avec l'IA. Veuillez réessayer dans un instant.",
         timestamp: new Date(),
         isError: true
       });
     } finally {
+      abortControllerRef.current = null;
+      setStreamingText(null);
       setIsLoading(false);
     }
   };
 
+  // Quiz, QCM and true/false items are requested as JSON and rendered as interactive cards
+  const requestQuiz = async (kind: QuizKind) => {
+    if (isLoading || !activeSessionId) return;
+
+    const history = activeSession?.messages || [];
+    const topic = quizTopic(course, history);
+    const prompt = topic.section ? `${QUIZ_PROMPTS[kind]} Thème : « ${topic.section} ».` : QUIZ_PROMPTS[kind];
+    addMessageToSession(activeSessionId, { role: 'user', text: prompt, timestamp: new Date() });
+    setIsLoading(true);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let json = '';
+
+    try {
+      const courseBlock = buildCourseContextBlock(courseIndex, course, topic.query, [], retrievalConfig);
+      const stream = provider.generateStream({
+        systemInstruction: `${systemInstruction}\n\n${QUIZ_INSTRUCTION}\n\n${courseBlock.text}`,
+        contents: [
+            ...history.map(m => ({ role: m.role, text: historyText(m) })),
+            { role: 'user', text: prompt }
+        ],
+        settings: modelSettings,
+        signal: controller.signal,
+        responseSchema: quizSchema(kind)
+      });
+      for await (const chunk of stream) {
+        if (controller.signal.aborted) break;
+        json += chunk;
+      }
+      // A quiz cut short is not usable: nothing is kept
+      if (controller.signal.aborted) return;
+
+      const quiz = parseQuiz(kind, json, courseIndex, course, courseBlock);
+      addMessageToSession(activeSessionId, { role: 'model', text: quizToText(quiz), timestamp: new Date(), quiz });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(error);
+      addMessageToSession(activeSessionId, {
+        role: 'model',
+        text: error instanceof RateLimitError
+          ? error.message
+          : error instanceof QuizFormatError
+            ? `${error.message} Vous pouvez relancer l'exercice.`
+            : "Une erreur est survenue lors de la préparation de l'exercice. Veuillez réessayer dans un instant.",
+        timestamp: new Date(),
+        isError: true
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  // Submitted answers are stored in the message, so the session keeps its score
+  const answerQuizItem = (messageIndex: number, itemIndex: number, choice: number) => {
+    const message = activeSession?.messages[messageIndex];
+    if (!activeSessionId || !message?.quiz) return;
+    const quiz = {
+      ...message.quiz,
+      items: message.quiz.items.map((item, i) => (i === itemIndex ? { ...item, response: choice } : item))
+    };
+    updateMessageInSession(activeSessionId, messageIndex, { ...message, quiz, text: quizToText(quiz) });
+  };
+
+  useEffect(() => {
+    if (!pendingPrompt || !activeSessionId) return;
+    const timer = setTimeout(() => {
+      onPendingPromptSent?.();
+      sendMessage(pendingPrompt);
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [pendingPrompt, activeSessionId]);
+
+  // Answers mark the first mention of each defined term, with the course definition on hover
+  const answerMarkdown = useMemo(() => {
+    const components: Components = {
+      dfn: ({ children, ...props }) => (
+        <DefinitionTerm
+          entry={glossary.entries.find(entry => entry.id === (props as Record<string, unknown>)['data-entry-id'])}
+          onOpen={(entry) => {
+            setOpenSource(null);
+            setOpenPassage({ source: definitionSource(entry, course.content), title: `Définition — ${entry.term}` });
+          }}
+        >
+          {children}
+        </DefinitionTerm>
+      )
+    };
+    const rehypePlugins: Options['rehypePlugins'] = [[rehypeGlossaryTerms, glossary]];
+    return { rehypePlugins, components };
+  }, [glossary, course.content]);
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleQuickAction = (action: string) => {
     let prompt = "";
     switch(action) {
         case 'explain': prompt = "Choisis une notion clé ou une définition importante du cours et explique-la de manière pédagogique."; break;
-        case 'quiz': prompt = "Génère une question de quiz aléatoire sur le cours."; break;
-        case 'qcm': prompt = "Crée un QCM avec 3 choix et la réponse expliquée."; break;
-        case 'cas': prompt = "Propose un petit cas pratique juridique basé sur le cours."; break;
-        case 'vrai-faux': prompt = "Donne-moi une affirmation VRAI ou FAUX à vérifier."; break;
+        case 'cas':
+            if (onOpenCasePractice) { onOpenCasePractice(); return; }
+            prompt = "Propose un petit cas pratique juridique basé sur le cours."; break;
+        case 'quiz':
+        case 'qcm':
+        case 'vrai-faux': requestQuiz(action); return;
     }
     if (prompt) sendMessage(prompt);
   };
 
+  // Quiz scores of every conversation, answers included
+  const sessionScores = useMemo(() => new Map(sessions.map(session => [session.id, quizScore(session.messages)])), [sessions]);
+  const score = activeSessionId ? sessionScores.get(activeSessionId) : undefined;
+
   const startEditing = (id: string, currentTitle: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setEditingSessionId(id);
@@ -219,6 +402,14 @@ export const TextChat: React.FC<TextChatProps> = ({ courseContent, systemInstruc
         </div>
       )}
 
+      {/* Course passage behind a footnote chip */}
+      {openSource && (
+        <CoursePassagePanel course={course} source={openSource} onClose={() => setOpenSource(null)} />
+      )}
+      {openPassage && (
+        <CoursePassagePanel course={course} source={openPassage.source} title={openPassage.title} onClose={() => setOpenPassage(null)} />
+      )}
+
       {/* Sidebar Overlay Backdrop - Active on both Mobile and Desktop when open */}
       {isSidebarOpen && (
         <div 
@@ -266,7 +457,11 @@ export const TextChat: React.FC<TextChatProps> = ({ courseContent, systemInstruc
                             : 'text-slate-600 dark:text-slate-400 hover:bg-slate-200/50 dark:hover:bg-slate-900 hover:text-slate-900 dark:hover:text-slate-200'
                         }`}
                     >
-                        <MessageSquare size={18} className={`shrink-0 ${activeSessionId === session.id ? 'text-blue-600 dark:text-blue-400' : 'text-slate-400'}`} />
+                        {session.kind === 'oral' ? (
+                            <Mic size={18} className={`shrink-0 ${activeSessionId === session.id ? 'text-blue-600 dark:text-blue-400' : 'text-slate-400'}`} />
+                        ) : (
+                            <MessageSquare size={18} className={`shrink-0 ${activeSessionId === session.id ? 'text-blue-600 dark:text-blue-400' : 'text-slate-400'}`} />
+                        )}
                         
                         {editingSessionId === session.id ? (
                             <div className="flex items-center flex-1 gap-1" onClick={e => e.stopPropagation()}>
@@ -291,6 +486,11 @@ export const TextChat: React.FC<TextChatProps> = ({ courseContent, systemInstruc
                         ) : (
                             <>
                                 <span className="flex-1 truncate">{session.title}</span>
+                                {sessionScores.get(session.id)!.answered > 0 && (
+                                    <span className="shrink-0 text-[10px] font-medium text-slate-400" title="Score aux exercices">
+                                        {sessionScores.get(session.id)!.correct}/{sessionScores.get(session.id)!.answered}
+                                    </span>
+                                )}
                                 
                                 <div className={`flex items-center gap-1 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity ${activeSessionId === session.id ? 'opacity-100' : ''}`}>
                                     <button 
@@ -345,7 +545,8 @@ export const TextChat: React.FC<TextChatProps> = ({ courseContent, systemInstruc
                         {activeSession?.title || 'Droit Public IA'}
                     </span>
                     <span className="text-xs text-slate-400 truncate hidden md:block">
-                        {activeSession ? 'Historique actif' : 'Nouvelle session'}
+                        {activeSession ? (activeSession.kind === 'oral' ? 'Transcription de la séance orale' : 'Historique actif') : 'Nouvelle session'}
+                        {score && score.answered > 0 && ` · Exercices : ${score.correct}/${score.answered} bonnes réponses`}
                     </span>
                 </div>
               </div>
@@ -382,15 +583,81 @@ export const TextChat: React.FC<TextChatProps> = ({ courseContent, systemInstruc
                                 ? 'bg-blue-600 text-white rounded-tr-none prose-invert' 
                                 : 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 border border-slate-200 dark:border-slate-700 rounded-tl-none prose-slate dark:prose-invert'
                             }`}>
-                                <ReactMarkdown>{msg.text}</ReactMarkdown>
+                                {msg.quiz
+                                    ? <QuizCard
+                                        quiz={msg.quiz}
+                                        onAnswer={(itemIndex, choice) => answerQuizItem(idx, itemIndex, choice)}
+                                        onOpenSource={(source) => { setOpenPassage(null); setOpenSource(source); }}
+                                      />
+                                    : msg.role === 'model' && !msg.isError
+                                    ? <ReactMarkdown {...answerMarkdown}>{msg.text}</ReactMarkdown>
+                                    : <ReactMarkdown>{msg.text}</ReactMarkdown>}
                             </div>
+                            {msg.sources && msg.sources.length > 0 && (
+                                <div className="flex flex-wrap gap-1.5 mt-2">
+                                    {msg.sources.map(source => (
+                                        <button
+                                            key={source.marker}
+                                            onClick={() => { setOpenPassage(null); setOpenSource(source); }}
+                                            className={`flex items-center gap-1.5 max-w-xs px-2.5 py-1 text-xs rounded-full border transition-colors ${
+                                                openSource === source
+                                                ? 'bg-amber-100 dark:bg-amber-900/40 border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-200'
+                                                : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-amber-300 dark:hover:border-amber-700'
+                                            }`}
+                                            title="Voir le passage du cours"
+                                        >
+                                            <span className="font-semibold text-amber-600 dark:text-amber-400">[{source.marker}]</span>
+                                            <span className="truncate">{source.path.split(' › ').slice(-3).join(' › ')}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            {msg.quoteDeviations && msg.quoteDeviations.length > 0 && (
+                                <div className="mt-2 w-full">
+                                    <button
+                                        onClick={() => setOpenQuotesIndex(openQuotesIndex === idx ? null : idx)}
+                                        className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-full border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/50 transition-colors"
+                                        title="Comparer avec le texte du cours"
+                                    >
+                                        <AlertTriangle size={12} />
+                                        Citation modifiée{msg.quoteDeviations.length > 1 && ` (${msg.quoteDeviations.length})`}
+                                    </button>
+                                    {openQuotesIndex === idx && (
+                                        <div className="mt-2 p-3 rounded-xl border border-amber-200 dark:border-amber-800/50 bg-amber-50/60 dark:bg-amber-900/10">
+                                            <p className="mb-3 text-xs text-slate-500 dark:text-slate-400">
+                                                Ces passages ne reproduisent pas exactement le cours, qui fait foi. Le professeur en a été informé.
+                                            </p>
+                                            <QuoteDeviationList
+                                                deviations={msg.quoteDeviations}
+                                                onOpenSource={(source) => {
+                                                    setOpenSource(null);
+                                                    setOpenPassage({ source, title: 'Texte du cours' });
+                                                }}
+                                            />
+                                        </div>
+                                    )}
+                                </div>
+                            )}
                             <span className="text-[10px] md:text-xs text-slate-400 mt-1 px-1">
                                 {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                {msg.isPartial && <span className="ml-2 italic text-amber-600 dark:text-amber-400">Réponse interrompue</span>}
                             </span>
                         </div>
                     </div>
                     ))}
-                    {isLoading && (
+                    {isLoading && streamingText ? (
+                        <div className="flex gap-4">
+                            <div className="flex-shrink-0 w-8 h-8 md:w-10 md:h-10 rounded-full flex items-center justify-center bg-blue-600 text-white">
+                                <Bot size={20} />
+                            </div>
+                            <div className="flex flex-col max-w-[90%] md:max-w-[95%] items-start">
+                                <div className="px-5 py-4 md:px-6 md:py-5 rounded-2xl shadow-sm prose prose-base max-w-none leading-relaxed bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 border border-slate-200 dark:border-slate-700 rounded-tl-none prose-slate dark:prose-invert">
+                                    <ReactMarkdown>{streamingText}</ReactMarkdown>
+                                    <span className="inline-block w-2 h-4 align-middle bg-blue-600 dark:bg-blue-400 animate-pulse" />
+                                </div>
+                            </div>
+                        </div>
+                    ) : isLoading && (
                         <div className="flex gap-4">
                             <div className="w-10 h-10 rounded-full bg-blue-600 flex items-center justify-center text-white">
                                 <Bot size={20} />
@@ -438,13 +705,24 @@ export const TextChat: React.FC<TextChatProps> = ({ courseContent, systemInstruc
                     className="w-full pl-5 pr-14 py-4 bg-white dark:bg-slate-800 border-2 border-slate-300 dark:border-slate-700 rounded-2xl focus:outline-none focus:border-blue-600 focus:ring-4 focus:ring-blue-500/10 transition-all text-slate-800 dark:text-slate-100 placeholder:text-slate-500 shadow-md text-base"
                     disabled={isLoading || !activeSessionId}
                 />
-                <button 
-                    onClick={() => sendMessage(input)}
-                    disabled={!input.trim() || isLoading || !activeSessionId}
-                    className="absolute right-3 p-2 bg-blue-600 text-white rounded-xl hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors shadow-sm"
-                >
-                    <Send size={20} />
-                </button>
+                {isLoading ? (
+                    <button 
+                        onClick={stopGeneration}
+                        className="absolute right-3 flex items-center gap-1.5 px-3 py-2 bg-slate-800 dark:bg-slate-600 text-white text-sm font-medium rounded-xl hover:bg-slate-700 dark:hover:bg-slate-500 transition-colors shadow-sm"
+                        title="Arrêter la réponse"
+                    >
+                        <Square size={14} className="fill-current" />
+                        <span>Stop</span>
+                    </button>
+                ) : (
+                    <button 
+                        onClick={() => sendMessage(input)}
+                        disabled={!input.trim() || !activeSessionId}
+                        className="absolute right-3 p-2 bg-blue-600 text-white rounded-xl hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors shadow-sm"
+                    >
+                        <Send size={20} />
+                    </button>
+                )}
             </div>
           </div>
       </div>
@@ -0,0 +1,274 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { History, X, RotateCcw, GitCompare, Loader2, Tag } from 'lucide-react';
+import { ContentVersion, VersionedField } from '../types';
+import { diffLines, diffStats, sideBySide, DiffCell } from '../services/diff';
+
+// Access to the saved versions of the course being edited
+export interface VersionHistorySource {
+  listVersions: (field: VersionedField) => Promise<ContentVersion[]>;
+  readVersion: (field: VersionedField, versionId: string) => Promise<string>;
+}
+
+interface VersionHistoryProps {
+  field: VersionedField;
+  currentText: string;
+  revision: number;    // bumped by the editor after each save, to reload the list
+  source: VersionHistorySource;
+  onRestore: (text: string, message: string) => Promise<void>;
+  onMark: (message: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const formatVersionDate = (iso: string) =>
+  new Date(iso).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' });
+
+const versionLabel = (v: ContentVersion) =>
+  `${formatVersionDate(v.updatedAt || v.createdAt)} · ${v.author || 'Inconnu'}${v.message ? ` · ${v.message}` : ''}`;
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ field, currentText, revision, source, onRestore, onMark, onClose }) => {
+  const [versions, setVersions] = useState<ContentVersion[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<{ baseId: string; targetId: string } | null>(null);
+  const texts = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    let cancelled = false;
+    source.listVersions(field)
+      .then(list => { if (!cancelled) setVersions(list); })
+      .catch(e => { if (!cancelled) setError((e as Error).message); });
+    return () => { cancelled = true; };
+  }, [field, revision]);
+
+  // Version texts never change: each one is fetched once
+  const loadText = async (versionId: string) => {
+    if (versionId === CURRENT) return currentText;
+    let text = texts.current.get(versionId);
+    if (text === undefined) {
+      text = await source.readVersion(field, versionId);
+      texts.current.set(versionId, text);
+    }
+    return text;
+  };
+
+  const handleRestore = async (version: ContentVersion) => {
+    setBusyId(version.id);
+    setError(null);
+    try {
+      await onRestore(await loadText(version.id), `Restauration de la version du ${formatVersionDate(version.createdAt)}`);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleMark = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!note.trim()) return;
+    setBusyId(CURRENT);
+    setError(null);
+    try {
+      await onMark(note.trim());
+      setNote('');
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <aside className="w-72 shrink-0 flex flex-col border border-slate-200 dark:border-slate-800 rounded-lg bg-slate-50 dark:bg-slate-950 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-200 dark:border-slate-800">
+        <span className="flex items-center gap-2 text-sm font-semibold text-slate-800 dark:text-white">
+          <History size={16} />
+          Historique
+        </span>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded" title="Fermer l'historique">
+          <X size={16} />
+        </button>
+      </div>
+
+      <form onSubmit={handleMark} className="p-3 border-b border-slate-200 dark:border-slate-800 flex gap-2">
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note (ex. version du partiel)"
+          className="flex-1 min-w-0 px-2 py-1 border border-slate-300 dark:border-slate-700 rounded-lg text-xs bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+        />
+        <button
+          type="submit"
+          disabled={!note.trim() || busyId !== null}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg"
+          title="Enregistrer le texte actuel comme une version annotée"
+        >
+          <Tag size={12} />
+          Marquer
+        </button>
+      </form>
+
+      {error && <p className="px-3 py-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      <ul className="flex-1 overflow-y-auto divide-y divide-slate-200 dark:divide-slate-800">
+        {versions === null && !error && (
+          <li className="p-3 flex justify-center text-slate-400"><Loader2 size={16} className="animate-spin" /></li>
+        )}
+        {versions?.length === 0 && (
+          <li className="p-3 text-xs text-slate-500 dark:text-slate-400">Aucune version pour l'instant : chaque enregistrement en créera une.</li>
+        )}
+        {versions?.map((version, index) => (
+          <li key={version.id} className="p-3">
+            <p className="text-xs font-medium text-slate-800 dark:text-slate-200">
+              {formatVersionDate(version.createdAt)}
+              {index === 0 && <span className="ml-2 text-green-600 dark:text-green-400">publiée</span>}
+            </p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {version.author || 'Inconnu'} · {version.length.toLocaleString()} car.
+            </p>
+            {version.message && <p className="mt-1 text-xs italic text-slate-600 dark:text-slate-300">{version.message}</p>}
+            <div className="mt-2 flex gap-2">
+              <button
+                onClick={() => setComparison({ baseId: version.id, targetId: CURRENT })}
+                className="flex items-center gap-1 px-2 py-0.5 text-xs text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-700 rounded hover:bg-white dark:hover:bg-slate-800"
+              >
+                <GitCompare size={12} />
+                Comparer
+              </button>
+              <button
+                onClick={() => handleRestore(version)}
+                disabled={busyId !== null}
+                className="flex items-center gap-1 px-2 py-0.5 text-xs text-amber-700 dark:text-amber-400 border border-amber-300 dark:border-amber-800 rounded hover:bg-amber-50 dark:hover:bg-amber-900/30 disabled:opacity-50"
+              >
+                {busyId === version.id ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                Restaurer
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {comparison && versions && (
+        <VersionDiff
+          versions={versions}
+          baseId={comparison.baseId}
+          targetId={comparison.targetId}
+          loadText={loadText}
+          onChange={setComparison}
+          onClose={() => setComparison(null)}
+        />
+      )}
+    </aside>
+  );
+};
+
+interface VersionDiffProps {
+  versions: ContentVersion[];
+  baseId: string;
+  targetId: string;
+  loadText: (versionId: string) => Promise<string>;
+  onChange: (comparison: { baseId: string; targetId: string }) => void;
+  onClose: () => void;
+}
+
+const ROW_STYLES = {
+  equal: ['', ''],
+  change: ['bg-red-50 dark:bg-red-900/20', 'bg-green-50 dark:bg-green-900/20'],
+  delete: ['bg-red-50 dark:bg-red-900/20', 'bg-slate-50 dark:bg-slate-900'],
+  insert: ['bg-slate-50 dark:bg-slate-900', 'bg-green-50 dark:bg-green-900/20']
+};
+
+const Cell: React.FC<{ cell: DiffCell | null; className: string; divider?: boolean }> = ({ cell, className, divider }) => (
+  <>
+    <td className={`w-12 px-2 text-right align-top select-none text-slate-400 ${divider ? 'border-l border-slate-200 dark:border-slate-800' : ''} ${className}`}>{cell?.lineNo}</td>
+    <td className={`px-2 whitespace-pre-wrap break-words align-top text-slate-700 dark:text-slate-200 ${className}`}>{cell?.text}</td>
+  </>
+);
+
+// Side-by-side comparison of two versions (or of a version and the text being edited)
+const VersionDiff: React.FC<VersionDiffProps> = ({ versions, baseId, targetId, loadText, onChange, onClose }) => {
+  const [texts, setTexts] = useState<[string, string] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTexts(null);
+    Promise.all([loadText(baseId), loadText(targetId)])
+      .then(([base, target]) => { if (!cancelled) setTexts([base, target]); })
+      .catch(e => { if (!cancelled) setError((e as Error).message); });
+    return () => { cancelled = true; };
+  }, [baseId, targetId]);
+
+  const diff = useMemo(() => {
+    if (!texts) return null;
+    const lines = diffLines(texts[0], texts[1]);
+    return { rows: sideBySide(lines), stats: diffStats(lines) };
+  }, [texts]);
+
+  const selector = (value: string, onSelect: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(e.target.value)}
+      className="flex-1 min-w-0 px-2 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-xs bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+    >
+      <option value={CURRENT}>Texte en cours d'édition</option>
+      {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl h-full flex flex-col bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-800 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-slate-200 dark:border-slate-800">
+          <GitCompare size={18} className="text-blue-500 shrink-0" />
+          {selector(baseId, id => onChange({ baseId: id, targetId }))}
+          <span className="text-xs text-slate-400">→</span>
+          {selector(targetId, id => onChange({ baseId, targetId: id }))}
+          {diff && (
+            <span className="shrink-0 text-xs font-medium">
+              <span className="text-green-600 dark:text-green-400">+{diff.stats.added}</span>{' '}
+              <span className="text-red-600 dark:text-red-400">−{diff.stats.removed}</span>
+            </span>
+          )}
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded" title="Fermer">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto font-mono text-xs">
+          {error && <p className="p-4 text-red-600 dark:text-red-400">{error}</p>}
+          {!diff && !error && (
+            <div className="h-full flex items-center justify-center text-slate-400"><Loader2 size={20} className="animate-spin" /></div>
+          )}
+          {diff && (
+            <table className="w-full table-fixed border-collapse">
+              <colgroup>
+                <col className="w-12" /><col /><col className="w-12" /><col />
+              </colgroup>
+              <tbody>
+                {diff.rows.map((row, i) => row.type === 'skip' ? (
+                  <tr key={i}>
+                    <td colSpan={4} className="px-4 py-1 text-center text-slate-400 bg-slate-50 dark:bg-slate-950">
+                      ⋯ {row.count.toLocaleString()} ligne{row.count > 1 ? 's' : ''} identique{row.count > 1 ? 's' : ''}
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={i}>
+                    <Cell cell={row.left} className={ROW_STYLES[row.type][0]} />
+                    <Cell cell={row.right} className={ROW_STYLES[row.type][1]} divider />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,54 @@
 
-import React, { useEffect, useState } from 'react';
-import { Mic, MicOff, Phone, PhoneOff, AlertCircle } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Mic, MicOff, Phone, PhoneOff, AlertCircle, MessageSquare, Volume2 } from 'lucide-react';
 import { useLiveSession } from '../hooks/useLiveSession';
+import { LlmProvider } from '../services/llmProvider';
 import { AudioVisualizer } from './AudioVisualizer';
+import { ChatMessage, CourseContext, ModelSettings, RetrievalConfig, VoiceInputMode } from '../types';
+import { useCourseIndex } from '../hooks/useCourseIndex';
+import { ChatStore } from '../hooks/useChatStore';
+import { buildCourseContextBlock } from '../services/retrieval';
 
 interface VoiceChatProps {
-  courseContent: string;
+  course: CourseContext;
   systemInstruction: string;
-  apiKey: string;
+  retrievalConfig: RetrievalConfig;
+  modelSettings: ModelSettings;
+  provider: LlmProvider;
+  onOpenTranscripts?: () => void;   // rereading a saved transcript happens in the written chat
+  chatStore: ChatStore;             // the written chat's store: each call is saved there as an oral session
 }
 
-export const VoiceChat: React.FC<VoiceChatProps> = ({ courseContent, systemInstruction, apiKey }) => {
+const INPUT_MODE_KEY = 'voice_input_mode';
+// Captions arrive several times a second: the transcript is saved at most this often, and when the call ends
+const TRANSCRIPT_SAVE_INTERVAL_MS = 3000;
+
+const INPUT_MODES: { id: VoiceInputMode; label: string; hint: string }[] = [
+  { id: 'open', label: 'Micro ouvert', hint: 'Parlez librement : vos prises de parole sont détectées par le serveur.' },
+  { id: 'gated', label: 'Détection de la voix', hint: 'Seule votre voix est transmise, pas le bruit ambiant : adapté à une bibliothèque ou un amphithéâtre.' },
+  { id: 'pushToTalk', label: 'Appuyer pour parler', hint: "Maintenez le bouton ou la barre d'espace pendant que vous parlez." }
+];
+
+const isInputMode = (value: string | null): value is VoiceInputMode => INPUT_MODES.some(mode => mode.id === value);
+
+export const VoiceChat: React.FC<VoiceChatProps> = ({ course, systemInstruction, retrievalConfig, modelSettings, provider, onOpenTranscripts, chatStore }) => {
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  
+  // Optional topic of the oral session, used to select the relevant course passages
+  const [topic, setTopic] = useState('');
+  const [inputMode, setInputMode] = useState<VoiceInputMode>(() => {
+    const stored = localStorage.getItem(INPUT_MODE_KEY);
+    return isInputMode(stored) ? stored : 'open';
+  });
+  const courseIndex = useCourseIndex(course);
+
+  // The Live API receives its instructions once, at setup: without a topic the whole course is sent
+  const courseBlock = useMemo(
+    () => buildCourseContextBlock(courseIndex, course, topic, [], retrievalConfig),
+    [courseIndex, course, topic, retrievalConfig]
+  );
+
   // Combine custom instructions with course content for the Live API
-  const fullSystemInstruction = `${systemInstruction}\n\nCONTENU DU COURS (Source Unique de Vérité) :\n${courseContent}`;
+  const fullSystemInstruction = `${systemInstruction}\n\n${courseBlock.text}`;
   
   const { 
     status, 
@@ -22,14 +56,93 @@ export const VoiceChat: React.FC<VoiceChatProps> = ({ courseContent, systemInstr
     disconnect, 
     isMuted, 
     toggleMute, 
-    volumeLevel 
-  } = useLiveSession({ apiKey, systemInstruction: fullSystemInstruction });
+    volumeLevel,
+    isModelSpeaking,
+    isTalking,
+    startTalking,
+    stopTalking,
+    transcript
+  } = useLiveSession({ provider, systemInstruction: fullSystemInstruction, settings: modelSettings, inputMode });
+
+  // Each call is saved as an oral session of the written chat, updated as the captions come in
+  const { createOralSession, setSessionMessages } = chatStore;
+  const oralSessionIdRef = useRef<string | null>(null);
+  const transcriptRef = useRef<ChatMessage[]>(transcript);
+  transcriptRef.current = transcript;
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const captionsEndRef = useRef<HTMLDivElement>(null);
+
+  const saveTranscript = () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const messages = transcriptRef.current;
+    if (messages.length === 0) return;
+    if (oralSessionIdRef.current) setSessionMessages(oralSessionIdRef.current, messages);
+    else oralSessionIdRef.current = createOralSession(messages);
+  };
+
+  useEffect(() => {
+    if (transcript.length === 0) return;
+    if (!saveTimerRef.current) saveTimerRef.current = setTimeout(saveTranscript, TRANSCRIPT_SAVE_INTERVAL_MS);
+    captionsEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [transcript]);
+
+  // Leaving the oral mode mid-call keeps the last captions too
+  useEffect(() => saveTranscript, []);
 
   const handleConnect = () => {
     setErrorMsg(null);
+    saveTranscript();
+    oralSessionIdRef.current = null;
     connect();
   };
 
+  // While reconnecting the microphone stays open and the call controls remain available
+  const isLive = status === 'connected' || status === 'connecting' || status === 'reconnecting';
+
+  // The call has ended: the transcript is saved in full right away
+  useEffect(() => {
+    if (!isLive) saveTranscript();
+  }, [isLive]);
+
+  const handleInputModeChange = (mode: VoiceInputMode) => {
+    setInputMode(mode);
+    localStorage.setItem(INPUT_MODE_KEY, mode);
+  };
+
+  // Push-to-talk from the keyboard: hold the spacebar (outside of text fields)
+  useEffect(() => {
+    if (!isLive || inputMode !== 'pushToTalk') return;
+    const isTyping = (target: EventTarget | null) => target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', stopTalking);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', stopTalking);
+    };
+  }, [isLive, inputMode]);
+
+  // What the student should do next, depending on who has the floor and the input mode
+  const floorHint = isModelSpeaking
+    ? `${course.persona.assistantName} parle… ${inputMode === 'pushToTalk' ? "Maintenez la barre d'espace pour l'interrompre." : "Prenez la parole pour l'interrompre."}`
+    : isTalking
+      ? (inputMode === 'gated' ? 'Voix détectée, transmission en cours…' : 'Vous parlez…')
+      : (inputMode === 'pushToTalk' ? "Maintenez la barre d'espace pour parler." : 'À vous de parler.');
+
   useEffect(() => {
     if (status === 'error') {
         setErrorMsg("Connexion échouée. Veuillez vérifier que votre navigateur autorise le microphone et que votre clé API est valide.");
@@ -50,18 +163,62 @@ export const VoiceChat: React.FC<VoiceChatProps> = ({ courseContent, systemInstr
         </div>
 
         <div className="relative">
-            <AudioVisualizer level={volumeLevel} isActive={status === 'connected'} />
+            <AudioVisualizer level={volumeLevel} isActive={status === 'connected' || status === 'reconnecting'} />
             
             {/* Status Badge */}
             <div className={`absolute -bottom-4 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full text-xs font-semibold tracking-wide uppercase transition-colors ${
                 status === 'connected' ? 'bg-green-500/20 text-green-400 border border-green-500/50' : 
-                status === 'connecting' ? 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/50' :
+                status === 'connecting' || status === 'reconnecting' ? 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/50' :
                 'bg-slate-700 text-slate-400 border border-slate-600'
             }`}>
-                {status === 'connected' ? 'En ligne' : status === 'connecting' ? 'Connexion...' : 'Hors ligne'}
+                {status === 'connected' ? 'En ligne' : status === 'connecting' ? 'Connexion...' : status === 'reconnecting' ? 'Reconnexion…' : 'Hors ligne'}
             </div>
         </div>
 
+        {/* Who has the floor: speaking over the assistant cuts its answer short */}
+        {status === 'connected' && (
+            <p className={`-mt-6 flex items-center gap-2 text-sm transition-colors ${isModelSpeaking ? 'text-blue-300' : isTalking ? 'text-green-400' : 'text-slate-500'}`}>
+                {isModelSpeaking ? <Volume2 size={16} className="animate-pulse" /> : <Mic size={16} className={isTalking ? 'animate-pulse' : ''} />}
+                {floorHint}
+            </p>
+        )}
+
+        {!isLive && (
+            <div className="w-full space-y-2 text-left">
+                <label className="block text-xs font-semibold text-slate-400 uppercase tracking-wider">Sujet de la séance (optionnel)</label>
+                <input
+                    type="text"
+                    value={topic}
+                    onChange={(e) => setTopic(e.target.value)}
+                    placeholder="Ex : la police administrative, l'arrêt Benjamin..."
+                    className="w-full px-4 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white placeholder:text-slate-500 focus:outline-none focus:border-blue-500"
+                />
+                <p className="text-xs text-slate-500">
+                    {courseBlock.mode === 'full'
+                        ? 'Le cours complet sera transmis au professeur IA.'
+                        : `${courseBlock.passages.length} extraits du cours sélectionnés (~${courseBlock.estimatedTokens.toLocaleString()} tokens).`}
+                </p>
+
+                <label className="block pt-2 text-xs font-semibold text-slate-400 uppercase tracking-wider">Micro</label>
+                <div className="grid grid-cols-3 gap-1 p-1 bg-slate-800 border border-slate-700 rounded-lg" role="radiogroup">
+                    {INPUT_MODES.map(mode => (
+                        <button
+                            key={mode.id}
+                            role="radio"
+                            aria-checked={inputMode === mode.id}
+                            onClick={() => handleInputModeChange(mode.id)}
+                            className={`px-2 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                                inputMode === mode.id ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'
+                            }`}
+                        >
+                            {mode.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-xs text-slate-500">{INPUT_MODES.find(mode => mode.id === inputMode)?.hint}</p>
+            </div>
+        )}
+
         {errorMsg && (
             <div className="flex items-center gap-2 p-3 bg-red-900/50 border border-red-500/50 rounded-lg text-red-200 text-sm text-left">
                 <AlertCircle size={20} className="shrink-0" />
@@ -70,7 +227,7 @@ export const VoiceChat: React.FC<VoiceChatProps> = ({ courseContent, systemInstr
         )}
 
         <div className="flex items-center gap-6">
-            {status === 'connected' || status === 'connecting' ? (
+            {isLive ? (
                 <>
                     <button 
                         onClick={toggleMute}
@@ -83,6 +240,23 @@ export const VoiceChat: React.FC<VoiceChatProps> = ({ courseContent, systemInstr
                     >
                         {isMuted ? <MicOff size={28} /> : <Mic size={28} />}
                     </button>
+                    {inputMode === 'pushToTalk' && (
+                        <button
+                            onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); startTalking(); }}
+                            onPointerUp={stopTalking}
+                            onPointerCancel={stopTalking}
+                            onContextMenu={(e) => e.preventDefault()}
+                            disabled={isMuted || status !== 'connected'}
+                            className={`px-6 py-5 rounded-full font-semibold select-none touch-none transition-all disabled:opacity-40 ${
+                                isTalking
+                                ? 'bg-green-500 text-white shadow-lg shadow-green-500/30 scale-105'
+                                : 'bg-slate-800 text-white hover:bg-slate-700'
+                            }`}
+                            title="Maintenir pour parler (barre d'espace)"
+                        >
+                            {isTalking ? 'Je parle…' : 'Maintenir pour parler'}
+                        </button>
+                    )}
                     <button 
                         onClick={disconnect}
                         className="p-5 rounded-full bg-red-600 text-white hover:bg-red-700 shadow-lg shadow-red-600/30 transition-all transform hover:scale-105"
@@ -101,6 +275,35 @@ export const VoiceChat: React.FC<VoiceChatProps> = ({ courseContent, systemInstr
                 </button>
             )}
         </div>
+
+        {/* Live captions of both sides of the conversation */}
+        {transcript.length > 0 && (
+            <div className="w-full text-left">
+                <div className="max-h-56 overflow-y-auto space-y-2 p-3 bg-slate-800/60 border border-slate-700 rounded-lg" aria-live="polite">
+                    {transcript.map((message, i) => (
+                        <p key={i} className={`text-sm leading-relaxed ${message.role === 'user' ? 'text-slate-300' : 'text-white'}`}>
+                            <span className={`mr-2 text-xs font-semibold uppercase tracking-wider ${message.role === 'user' ? 'text-slate-500' : 'text-blue-400'}`}>
+                                {message.role === 'user' ? 'Vous' : course.persona.assistantName}
+                            </span>
+                            {message.text}
+                            {message.isPartial && <span className="ml-1 text-xs text-slate-500">(interrompu)</span>}
+                        </p>
+                    ))}
+                    <div ref={captionsEndRef} />
+                </div>
+                {!isLive && (
+                    <p className="mt-2 flex items-center gap-2 text-xs text-slate-500">
+                        <MessageSquare size={14} />
+                        <span>
+                            La transcription est enregistrée dans vos conversations.
+                            {onOpenTranscripts && (
+                                <button onClick={onOpenTranscripts} className="ml-1 text-blue-400 hover:underline">La relire</button>
+                            )}
+                        </span>
+                    </p>
+                )}
+            </div>
+        )}
       </div>
     </div>
   );
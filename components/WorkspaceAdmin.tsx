@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Users, BookPlus, Trash2, Save, Loader2, ShieldCheck, X } from 'lucide-react';
+import { CourseSummary, ProfessorAccount } from '../types';
+import { AuthError, createCourse, deleteAccount, fetchAccounts, saveAccount, PublishedCourse } from '../services/professorClient';
+
+interface WorkspaceAdminProps {
+  token: string;
+  courses: CourseSummary[];
+  onCourseCreated: (course: PublishedCourse) => void;
+  onAuthError: (message: string) => void;
+  onClose: () => void;
+}
+
+interface AccountDraft {
+  username: string;
+  displayName: string;
+  password: string;
+  courseIds: string[];
+  isAdmin: boolean;
+  isNew: boolean;
+}
+
+const EMPTY_DRAFT: AccountDraft = { username: '', displayName: '', password: '', courseIds: [], isAdmin: false, isNew: true };
+
+const inputClass = "w-full px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200";
+
+export const WorkspaceAdmin: React.FC<WorkspaceAdminProps> = ({ token, courses, onCourseCreated, onAuthError, onClose }) => {
+  const [accounts, setAccounts] = useState<ProfessorAccount[]>([]);
+  const [draft, setDraft] = useState<AccountDraft | null>(null);
+  const [newCourse, setNewCourse] = useState({ title: '', description: '' });
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Runs an API call, routing session errors to the parent and other errors to the panel
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      if (e instanceof AuthError) onAuthError(e.message);
+      else setError((e as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    run(async () => setAccounts(await fetchAccounts(token)));
+  }, [token]);
+
+  const handleCreateCourse = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCourse.title.trim()) return;
+    run(async () => {
+      const course = await createCourse(token, newCourse);
+      setNewCourse({ title: '', description: '' });
+      onCourseCreated(course);
+    });
+  };
+
+  const handleSaveAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    run(async () => {
+      const saved = await saveAccount(token, {
+        username: draft.username.trim().toLowerCase(),
+        displayName: draft.displayName,
+        courseIds: draft.courseIds,
+        isAdmin: draft.isAdmin,
+        password: draft.password || undefined
+      });
+      setAccounts(prev => [...prev.filter(a => a.username !== saved.username), saved].sort((a, b) => a.username.localeCompare(b.username)));
+      setDraft(null);
+    });
+  };
+
+  const handleDeleteAccount = (username: string) => {
+    run(async () => {
+      await deleteAccount(token, username);
+      setAccounts(prev => prev.filter(a => a.username !== username));
+      if (draft?.username === username) setDraft(null);
+    });
+  };
+
+  const toggleDraftCourse = (courseId: string) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      courseIds: draft.courseIds.includes(courseId) ? draft.courseIds.filter(id => id !== courseId) : [...draft.courseIds, courseId]
+    });
+  };
+
+  const courseTitle = (id: string) => courses.find(c => c.id === id)?.title || id;
+
+  return (
+    <div className="mb-6 p-4 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-800 rounded-xl animate-in fade-in slide-in-from-top-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400 rounded-lg">
+            <ShieldCheck size={20} />
+          </div>
+          <div>
+            <h3 className="font-semibold text-slate-800 dark:text-white text-sm">Espace de travail</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Créez des cours et attribuez-les aux professeurs.</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-full" title="Fermer">
+          <X size={18} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 px-3 py-2 rounded-lg text-sm bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* New course */}
+        <form onSubmit={handleCreateCourse} className="p-4 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-800 space-y-3">
+          <div className="flex items-center gap-2 font-semibold text-slate-800 dark:text-white text-sm">
+            <BookPlus size={16} className="text-emerald-500" />
+            Nouveau cours
+          </div>
+          <input
+            value={newCourse.title}
+            onChange={(e) => setNewCourse({ ...newCourse, title: e.target.value })}
+            placeholder="Titre (ex. Droit constitutionnel)"
+            className={inputClass}
+          />
+          <textarea
+            value={newCourse.description}
+            onChange={(e) => setNewCourse({ ...newCourse, description: e.target.value })}
+            placeholder="Description affichée dans le catalogue"
+            rows={2}
+            className={`${inputClass} resize-none`}
+          />
+          <button
+            type="submit"
+            disabled={isBusy || !newCourse.title.trim()}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            <Plus size={16} />
+            Créer le cours
+          </button>
+        </form>
+
+        {/* Professor accounts */}
+        <div className="p-4 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-800">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2 font-semibold text-slate-800 dark:text-white text-sm">
+              <Users size={16} className="text-emerald-500" />
+              Comptes professeurs
+            </div>
+            <button
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-emerald-700 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/30 rounded-lg"
+            >
+              <Plus size={14} />
+              Ajouter
+            </button>
+          </div>
+
+          <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+            {accounts.length === 0 && (
+              <li className="py-2 text-xs text-slate-500 dark:text-slate-400">Aucun compte pour l'instant.</li>
+            )}
+            {accounts.map(account => (
+              <li key={account.username} className="py-2 flex items-center justify-between gap-3">
+                <button
+                  onClick={() => setDraft({ ...account, password: '', isNew: false })}
+                  className="min-w-0 text-left"
+                  title="Modifier"
+                >
+                  <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">
+                    {account.displayName} <span className="text-xs text-slate-400">({account.username})</span>
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                    {account.isAdmin ? 'Administrateur — tous les cours' : account.courseIds.map(courseTitle).join(', ') || 'Aucun cours'}
+                  </p>
+                </button>
+                <button
+                  onClick={() => handleDeleteAccount(account.username)}
+                  disabled={isBusy}
+                  className="p-1.5 text-slate-400 hover:text-red-600 rounded"
+                  title="Supprimer le compte"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {draft && (
+            <form onSubmit={handleSaveAccount} className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-800 space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  value={draft.username}
+                  onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+                  disabled={!draft.isNew}
+                  placeholder="Identifiant"
+                  className={`${inputClass} disabled:opacity-60`}
+                />
+                <input
+                  value={draft.displayName}
+                  onChange={(e) => setDraft({ ...draft, displayName: e.target.value })}
+                  placeholder="Nom affiché"
+                  className={inputClass}
+                />
+              </div>
+              <input
+                type="password"
+                value={draft.password}
+                onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+                placeholder={draft.isNew ? 'Mot de passe (8 caractères minimum)' : 'Nouveau mot de passe (laisser vide pour conserver)'}
+                className={inputClass}
+              />
+              <div className="flex flex-wrap gap-2">
+                {courses.map(course => (
+                  <label key={course.id} className="flex items-center gap-1.5 px-2 py-1 text-xs rounded-lg border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 cursor-pointer">
+                    <input type="checkbox" checked={draft.courseIds.includes(course.id)} onChange={() => toggleDraftCourse(course.id)} />
+                    {course.title}
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+                <input type="checkbox" checked={draft.isAdmin} onChange={(e) => setDraft({ ...draft, isAdmin: e.target.checked })} />
+                Administrateur (tous les cours, gestion des comptes)
+              </label>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={isBusy || !draft.username.trim()}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg"
+                >
+                  {isBusy ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+                  Enregistrer
+                </button>
+                <button type="button" onClick={() => setDraft(null)} className="px-3 py-1.5 text-sm text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+                  Annuler
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { CaseAttempt } from '../types';
+
+const STORAGE_KEY = 'droit_public_case_attempts';
+const MAX_ATTEMPTS = 100;
+
+// Graded cas pratiques are kept per course in the browser, most recent first
+export const useCaseAttempts = (courseId: string) => {
+  const storageKey = `${STORAGE_KEY}:${courseId}`;
+  const [attempts, setAttempts] = useState<CaseAttempt[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(storageKey);
+    if (stored) {
+      try {
+        setAttempts(JSON.parse(stored));
+      } catch (e) {
+        console.error("Failed to parse case attempts", e);
+      }
+    }
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) localStorage.setItem(storageKey, JSON.stringify(attempts));
+  }, [attempts, isLoaded]);
+
+  const saveAttempt = (attempt: Omit<CaseAttempt, 'id' | 'createdAt'>): CaseAttempt => {
+    const saved = { ...attempt, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+    setAttempts(prev => [saved, ...prev].slice(0, MAX_ATTEMPTS));
+    return saved;
+  };
+
+  const deleteAttempt = (id: string) => setAttempts(prev => prev.filter(a => a.id !== id));
+
+  return { attempts, saveAttempt, deleteAttempt };
+};
@@ -1,59 +1,66 @@
 import React, { useState, useEffect } from 'react';
 import { ChatSession, ChatMessage } from '../types';
+import { DEFAULT_COURSE_ID } from '../services/courses';
 
 const STORAGE_KEY = 'droit_public_sessions';
 
-export const useChatStore = () => {
+// Sessions are kept per course in a single store shared by the written and the oral chat (one instance, held by App):
+// two copies would each write their whole array back and overwrite the other's changes.
+export const useChatStore = (courseId: string | null, welcomeMessage: string) => {
+  const storageKey = `${STORAGE_KEY}:${courseId}`;
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  // Course whose sessions are in state: nothing is saved while another course's sessions are still shown
+  const [loadedCourseId, setLoadedCourseId] = useState<string | null>(null);
 
-  // Load from local storage on mount
+  const welcomeSession = (): ChatSession => ({
+    id: crypto.randomUUID(),
+    title: 'Nouvelle conversation',
+    messages: [{
+      role: 'model',
+      text: welcomeMessage,
+      timestamp: new Date()
+    }],
+    updatedAt: Date.now()
+  });
+
+  // Load from local storage whenever the course changes
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    setLoadedCourseId(null);
+    if (!courseId) return;
+    let loaded: ChatSession[] = [];
+    // Sessions saved before courses existed belong to the original course
+    const stored = localStorage.getItem(storageKey) ?? (courseId === DEFAULT_COURSE_ID ? localStorage.getItem(STORAGE_KEY) : null);
     if (stored) {
       try {
         const parsed = JSON.parse(stored);
         // Revive dates
-        const revived = parsed.map((s: any) => ({
+        loaded = parsed.map((s: any) => ({
           ...s,
           messages: s.messages.map((m: any) => ({
             ...m,
             timestamp: new Date(m.timestamp)
           }))
         }));
-        setSessions(revived);
-        if (revived.length > 0) {
-          setActiveSessionId(revived[0].id);
-        } else {
-          createNewSession();
-        }
       } catch (e) {
         console.error("Failed to parse sessions", e);
-        createNewSession();
       }
-    } else {
-      createNewSession();
     }
-  }, []);
+    if (loaded.length === 0) loaded = [welcomeSession()];
+    setSessions(loaded);
+    setActiveSessionId(loaded[0].id);
+    setLoadedCourseId(courseId);
+  }, [courseId]);
 
   // Save to local storage whenever sessions change
   useEffect(() => {
-    if (sessions.length > 0) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+    if (loadedCourseId && loadedCourseId === courseId && sessions.length > 0) {
+      localStorage.setItem(storageKey, JSON.stringify(sessions));
     }
-  }, [sessions]);
+  }, [sessions, loadedCourseId]);
 
   const createNewSession = () => {
-    const newSession: ChatSession = {
-      id: crypto.randomUUID(),
-      title: 'Nouvelle conversation',
-      messages: [{
-        role: 'model',
-        text: "Bonjour ! Je suis **Ada**, votre assistante juridique **virtuelle**, spécialisée en droit administratif. Posez-moi une question sur le cours, ou demandez-moi de générer un Quiz ou un Cas Pratique.",
-        timestamp: new Date()
-      }],
-      updatedAt: Date.now()
-    };
+    const newSession = welcomeSession();
     setSessions(prev => [newSession, ...prev]);
     setActiveSessionId(newSession.id);
     return newSession.id;
@@ -73,7 +80,7 @@ export const useChatStore = () => {
     }
     
     // Explicit save for deletion to handle empty array case which useEffect might skip if logic differs
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newSessions));
+    localStorage.setItem(storageKey, JSON.stringify(newSessions));
   };
 
   const renameSession = (id: string, newTitle: string) => {
@@ -102,6 +109,34 @@ export const useChatStore = () => {
     }).sort((a, b) => b.updatedAt - a.updatedAt)); // Move active to top
   };
 
+  // Replaces a message in place, e.g. when the student answers a quiz; the session keeps its position
+  const updateMessageInSession = (sessionId: string, messageIndex: number, message: ChatMessage) => {
+    setSessions(prev => prev.map(s =>
+      s.id === sessionId ? { ...s, messages: s.messages.map((m, i) => (i === messageIndex ? message : m)) } : s
+    ));
+  };
+
+  // Oral sessions are saved while the call goes on, so the transcript survives a dropped connection or leaving the page
+  const createOralSession = (messages: ChatMessage[]) => {
+    const date = new Date().toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' });
+    const newSession: ChatSession = {
+      id: crypto.randomUUID(),
+      title: `Séance orale du ${date}`,
+      kind: 'oral',
+      messages,
+      updatedAt: Date.now()
+    };
+    setSessions(prev => [newSession, ...prev]);
+    setActiveSessionId(newSession.id);
+    return newSession.id;
+  };
+
+  const setSessionMessages = (sessionId: string, messages: ChatMessage[]) => {
+    setSessions(prev => prev.map(s =>
+      s.id === sessionId ? { ...s, messages, updatedAt: Date.now() } : s
+    ).sort((a, b) => b.updatedAt - a.updatedAt));
+  };
+
   const getActiveSession = () => sessions.find(s => s.id === activeSessionId);
 
   return {
@@ -112,6 +147,11 @@ export const useChatStore = () => {
     deleteSession,
     renameSession,
     addMessageToSession,
+    updateMessageInSession,
+    createOralSession,
+    setSessionMessages,
     activeSession: getActiveSession()
   };
 };
+
+export type ChatStore = ReturnType<typeof useChatStore>;
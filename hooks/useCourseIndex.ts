@@ -0,0 +1,8 @@
+import { useMemo } from 'react';
+import { CourseContext } from '../types';
+import { buildCourseIndex } from '../services/retrieval';
+
+// The BM25 index is rebuilt only when the course itself changes.
+export const useCourseIndex = (course: CourseContext) => {
+  return useMemo(() => buildCourseIndex(course), [course]);
+};
@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { ExamAttempt, ExamSession } from '../types';
+
+const STORAGE_KEY = 'droit_public_exams';
+const MAX_ATTEMPTS = 30;
+
+interface StoredExams {
+  session: ExamSession | null;
+  attempts: ExamAttempt[];
+}
+
+// Mock exams are kept per course in the browser: the one in progress (so a reload keeps the clock running) and the graded ones
+export const useExamAttempts = (courseId: string) => {
+  const storageKey = `${STORAGE_KEY}:${courseId}`;
+  const [session, setSession] = useState<ExamSession | null>(null);
+  const [attempts, setAttempts] = useState<ExamAttempt[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(storageKey);
+    if (stored) {
+      try {
+        const data: StoredExams = JSON.parse(stored);
+        setSession(data.session || null);
+        setAttempts(data.attempts || []);
+      } catch (e) {
+        console.error("Failed to parse exams", e);
+      }
+    }
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) localStorage.setItem(storageKey, JSON.stringify({ session, attempts }));
+  }, [session, attempts, isLoaded]);
+
+  const saveAttempt = (attempt: Omit<ExamAttempt, 'id'>): ExamAttempt => {
+    const saved = { ...attempt, id: crypto.randomUUID() };
+    setAttempts(prev => [saved, ...prev].slice(0, MAX_ATTEMPTS));
+    return saved;
+  };
+
+  const deleteAttempt = (id: string) => setAttempts(prev => prev.filter(a => a.id !== id));
+
+  return { session, setSession, attempts, isLoaded, saveAttempt, deleteAttempt };
+};
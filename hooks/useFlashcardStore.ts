@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { CardState, ReviewGrade, ReviewLog, scheduleReview } from '../services/flashcards';
+
+const STORAGE_KEY = 'droit_public_flashcards';
+// Oldest reviews are dropped beyond this, the scheduling state of each card is always kept
+const MAX_HISTORY = 5000;
+
+interface StoredReviews {
+  states: Record<string, CardState>;
+  history: ReviewLog[];
+}
+
+// Review progress is kept per course in the browser, like chat sessions
+export const useFlashcardStore = (courseId: string) => {
+  const storageKey = `${STORAGE_KEY}:${courseId}`;
+  const [reviews, setReviews] = useState<StoredReviews>({ states: {}, history: [] });
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(storageKey);
+    if (stored) {
+      try {
+        const parsed = JSON.parse(stored);
+        setReviews({ states: parsed.states || {}, history: parsed.history || [] });
+      } catch (e) {
+        console.error("Failed to parse flashcard reviews", e);
+      }
+    }
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) localStorage.setItem(storageKey, JSON.stringify(reviews));
+  }, [reviews, isLoaded]);
+
+  const reviewCard = (cardId: string, grade: ReviewGrade, now = Date.now()) => {
+    setReviews(prev => {
+      const state = scheduleReview(prev.states[cardId], grade, now);
+      return {
+        states: { ...prev.states, [cardId]: state },
+        history: [...prev.history, { cardId, grade, reviewedAt: now, interval: state.interval }].slice(-MAX_HISTORY)
+      };
+    });
+  };
+
+  const resetReviews = () => setReviews({ states: {}, history: [] });
+
+  return {
+    states: reviews.states,
+    history: reviews.history,
+    isLoaded,
+    reviewCard,
+    resetReviews
+  };
+};
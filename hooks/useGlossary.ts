@@ -0,0 +1,8 @@
+import { useMemo } from 'react';
+import { CourseContext } from '../types';
+import { buildGlossary } from '../services/glossary';
+
+// The glossary is rebuilt only when the course itself changes.
+export const useGlossary = (course: CourseContext) => {
+  return useMemo(() => buildGlossary(course.structure), [course]);
+};
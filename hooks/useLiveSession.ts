@@ -2,66 +2,50 @@
 "use client";
 
 import { useState, useRef, useEffect } from 'react';
+import { arrayBufferToBase64, createVoiceGate, PCM_CAPTURE_PROCESSOR } from '../services/audioUtils';
+import { createPlaybackScheduler } from '../services/audioPlayback';
+// Le module de capture est bundlé à part et chargé dans l'AudioWorklet par son URL
+import pcmCaptureWorkletUrl from '../services/pcmCaptureWorklet.ts?worker&url';
 
-// --- FONCTIONS UTILITAIRES AUDIO (Internes et robustes) ---
-
-function floatTo16BitPCM(input) {
-  const output = new DataView(new ArrayBuffer(input.length * 2));
-  for (let i = 0; i < input.length; i++) {
-    const s = Math.max(-1, Math.min(1, input[i]));
-    const val = s < 0 ? s * 0x8000 : s * 0x7FFF;
-    output.setInt16(i * 2, val, true);
-  }
-  return output.buffer;
-}
-
-function arrayBufferToBase64(buffer) {
-  let binary = '';
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-function downsampleBuffer(buffer, sampleRate, outSampleRate) {
-  if (outSampleRate === sampleRate) return buffer;
-  if (outSampleRate > sampleRate) return buffer;
-  const sampleRateRatio = sampleRate / outSampleRate;
-  const newLength = Math.round(buffer.length / sampleRateRatio);
-  const result = new Float32Array(newLength);
-  let offsetResult = 0;
-  let offsetBuffer = 0;
-  while (offsetResult < result.length) {
-    const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRateRatio);
-    let accum = 0, count = 0;
-    for (let i = offsetBuffer; i < nextOffsetBuffer && i < buffer.length; i++) {
-      accum += buffer[i];
-      count++;
-    }
-    result[offsetResult] = accum / count;
-    offsetResult++;
-    offsetBuffer = nextOffsetBuffer;
-  }
-  return result;
-}
+// --- HOOK PRINCIPAL (INDÉPENDANT DU FOURNISSEUR) ---
 
-// --- HOOK PRINCIPAL (SANS LE SDK GOOGLE) ---
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+const CAPTURE_RATE = 16000;
+// Porte vocale : les morceaux qui précèdent l'ouverture sont envoyés aussi, pour ne pas couper le début de la phrase
+const PRE_ROLL_CHUNKS = 3;
 
-export const useLiveSession = ({ apiKey, systemInstruction }) => {
+export const useLiveSession = ({ provider, systemInstruction, settings, inputMode = 'open' }) => {
   const [status, setStatus] = useState('disconnected');
   const [isMuted, setIsMuted] = useState(false);
   const [volumeLevel, setVolumeLevel] = useState(0);
+  const [isModelSpeaking, setIsModelSpeaking] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);   // l'étudiant a la parole (porte ouverte ou bouton maintenu)
+  // Sous-titres de la séance, sous forme de messages de conversation
+  const [transcript, setTranscript] = useState([]);
 
   // Refs
-  const wsRef = useRef(null); // Le WebSocket natif
+  const connectionRef = useRef(null); // Connexion Live du fournisseur, tant qu'elle est ouverte
+  const liveLinkRef = useRef(null);   // connexion en cours (ouverte ou non) et son état
+  const resumptionHandleRef = useRef(null);
+  const reconnectAttemptsRef = useRef(0);
+  const reconnectTimerRef = useRef(null);
   const inputAudioContextRef = useRef(null);
   const outputAudioContextRef = useRef(null);
   const streamRef = useRef(null);
   const processorRef = useRef(null);
   const inputSourceRef = useRef(null);
-  const nextStartTimeRef = useRef(0);
+  const playbackRef = useRef(null);   // ordonnanceur des réponses audio (arrêt immédiat à l'interruption)
+  // Lus dans les rappels audio : un état React y serait figé à sa valeur du premier rendu
+  const mutedRef = useRef(false);
+  const inputModeRef = useRef(inputMode);
+  const pushToTalkRef = useRef(false);  // bouton maintenu
+  const activityOpenRef = useRef(false); // début de prise de parole envoyé, fin pas encore
+  const gateRef = useRef(createVoiceGate());
+  const preRollRef = useRef([]);
+  const transcriptRef = useRef([]);   // source de vérité : les fragments arrivent plus vite que les rendus
+  const turnOpenRef = useRef(false);  // le dernier message reçoit encore des fragments
 
   useEffect(() => {
     return () => disconnect();
@@ -69,38 +53,159 @@ export const useLiveSession = ({ apiKey, systemInstruction }) => {
 
   // Lecture des réponses audio
   const playAudioChunk = async (base64Audio) => {
-      if (!outputAudioContextRef.current) return;
       const ctx = outputAudioContextRef.current;
+      if (!ctx || !playbackRef.current) return;
       if (ctx.state === 'suspended') await ctx.resume();
-
       try {
-        const binaryString = atob(base64Audio);
-        const len = binaryString.length;
-        const bytes = new Uint8Array(len);
-        for (let i = 0; i < len; i++) bytes[i] = binaryString.charCodeAt(i);
-        
-        const pcm16 = new Int16Array(bytes.buffer);
-        const float32 = new Float32Array(pcm16.length);
-        for(let i=0; i<pcm16.length; i++) float32[i] = pcm16[i] / 32768;
-
-        const audioBuffer = ctx.createBuffer(1, float32.length, 24000); 
-        audioBuffer.copyToChannel(float32, 0);
-
-        const source = ctx.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(ctx.destination);
-        
-        const currentTime = ctx.currentTime;
-        if (nextStartTimeRef.current < currentTime) nextStartTimeRef.current = currentTime + 0.05;
-        
-        source.start(nextStartTimeRef.current);
-        nextStartTimeRef.current += audioBuffer.duration;
+        playbackRef.current?.enqueue(base64Audio);
       } catch (err) { console.error("Decode error", err); }
   };
 
+  // Transcription : les fragments d'un même tour complètent le dernier message, un changement d'interlocuteur en ouvre un nouveau
+  const appendCaption = (role, text) => {
+    if (!text) return;
+    const messages = transcriptRef.current;
+    const last = messages[messages.length - 1];
+    transcriptRef.current = last && last.role === role && turnOpenRef.current
+      ? [...messages.slice(0, -1), { ...last, text: last.text + text }]
+      : [...messages, { role, text: text.trimStart(), timestamp: new Date() }];
+    turnOpenRef.current = true;
+    setTranscript(transcriptRef.current);
+  };
+
+  const closeTurn = (interrupted) => {
+    const messages = transcriptRef.current;
+    const last = messages[messages.length - 1];
+    if (interrupted && turnOpenRef.current && last?.role === 'model') {
+      transcriptRef.current = [...messages.slice(0, -1), { ...last, isPartial: true }];
+      setTranscript(transcriptRef.current);
+    }
+    turnOpenRef.current = false;
+  };
+
+  // Ouvre la connexion au fournisseur (Gemini ou simulateur hors ligne). Lors d'une reconnexion, le micro
+  // et la lecture restent en place : seule la connexion est remplacée, reprise avec le dernier jeton reçu.
+  const openConnection = (isResume) => {
+    const usedHandle = resumptionHandleRef.current;
+    // Une connexion remplacée ou fermée volontairement ("retired") n'a plus d'effet sur la séance ;
+    // elle n'est "confirmed" qu'une fois la configuration acceptée par le serveur (setupComplete)
+    const link = { connection: null, opened: false, confirmed: false, retired: false };
+
+    link.connection = provider.connectLive(
+      {
+        settings,
+        resumptionHandle: usedHandle,
+        manualActivity: inputModeRef.current !== 'open',
+        systemInstruction: systemInstruction + " CRITIQUE : Tu es un professeur de droit français masculin. Tu parles PARFAITEMENT français. Interdiction formelle d'avoir un accent anglais. Prononce 'ou' comme un mot, ne l'épelle jamais 'o-u'. Lie les mots entre eux (liaison). Ton élocution doit être fluide, native et naturelle. Si tu ne peux pas prononcer un mot correctement, reformule."
+      },
+      {
+        onOpen: () => {
+          if (link.retired) return;
+          link.opened = true;
+          connectionRef.current = link.connection;
+          // Nouvelle connexion : une prise de parole en cours y est rouverte
+          activityOpenRef.current = false;
+          if (pushToTalkRef.current || gateRef.current.isOpen()) beginActivity();
+          setStatus('connected');
+
+          // PING DE RÉVEIL (séance nouvelle uniquement : une reprise poursuit la conversation)
+          if (!isResume) {
+            setTimeout(() => {
+              if (link.retired) return;
+              console.log("📨 [PING] Envoi du message 'Bonjour'...");
+              link.connection.sendText("Bonjour ! Est-ce que tu m'entends ?");
+            }, 1000);
+          }
+        },
+        // Audio reçu
+        onAudio: (base64Audio) => {
+          if (!link.retired) playAudioChunk(base64Audio);
+        },
+        // Interruption
+        onInterrupted: () => {
+          console.log("⏸️ [INTERRUPTION]");
+          // L'étudiant a pris la parole : tout ce qui restait à dire est coupé, en fondu
+          playbackRef.current?.interrupt();
+          closeTurn(true);
+        },
+        onTranscription: (role, text) => {
+          if (!link.retired) appendCaption(role, text);
+        },
+        onTurnComplete: () => closeTurn(false),
+        onSetupComplete: () => {
+          if (link.retired) return;
+          link.confirmed = true;
+          reconnectAttemptsRef.current = 0;
+        },
+        onResumptionHandle: (handle) => {
+          if (!link.retired) resumptionHandleRef.current = handle;
+        },
+        // Le serveur annonce la fin de la connexion : on la remplace sans attendre la coupure
+        onGoAway: (timeLeftMs) => {
+          if (link.retired) return;
+          console.log(`⏳ [GOAWAY] Fermeture annoncée dans ${timeLeftMs} ms, reprise de la séance.`);
+          retire(link);
+          setStatus('reconnecting');
+          openConnection(true);
+        },
+        onClose: () => {
+          if (link.retired) return;
+          link.retired = true;
+          connectionRef.current = null;
+          // Connexion établie mais configuration refusée (jeton expiré, modèle, clé ou configuration invalide)
+          const refused = link.opened && !link.confirmed;
+          // Jeton refusé : la tentative suivante ouvre une nouvelle session
+          if (refused && usedHandle) resumptionHandleRef.current = null;
+          // Seule une séance déjà acceptée est reprise (une coupure réseau pendant la reprise est retentée) ;
+          // une séance neuve refusée est une erreur, la retenter ne ferait qu'épuiser le quota du proxy
+          scheduleReconnect(link.confirmed || (isResume && !(refused && !usedHandle)));
+        },
+        onError: (error) => console.warn("⚠️ [LIVE] Erreur de connexion :", error)
+      }
+    );
+    liveLinkRef.current = link;
+  };
+
+  const retire = (link) => {
+    if (!link || link.retired) return;
+    link.retired = true;
+    link.connection?.close();
+    if (connectionRef.current === link.connection) connectionRef.current = null;
+  };
+
+  // Reconnexion avec délai exponentiel (et un peu d'aléa, pour ne pas synchroniser les étudiants coupés ensemble)
+  const scheduleReconnect = (wasLive) => {
+    closeTurn(true);
+    // La première connexion n'a jamais abouti, ou trop d'échecs : l'erreur est signalée
+    if (!wasLive || reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS) {
+      console.error("❌ [LIVE] Connexion perdue.");
+      releaseResources();
+      setStatus('error');
+      return;
+    }
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttemptsRef.current) * (0.8 + Math.random() * 0.4);
+    reconnectAttemptsRef.current += 1;
+    setStatus('reconnecting');
+    console.log(`🔄 [LIVE] Reconnexion dans ${Math.round(delay)} ms (tentative ${reconnectAttemptsRef.current}/${MAX_RECONNECT_ATTEMPTS}).`);
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      openConnection(true);
+    }, delay);
+  };
+
   const connect = async () => {
-    if (status === 'connected' || status === 'connecting') return;
+    if (status !== 'disconnected' && status !== 'error') return;
     setStatus('connecting');
+    transcriptRef.current = [];
+    turnOpenRef.current = false;
+    setTranscript([]);
+    resumptionHandleRef.current = null;
+    reconnectAttemptsRef.current = 0;
+    // Le mode est transmis au serveur à l'ouverture : il ne change pas en cours de séance
+    inputModeRef.current = inputMode;
+    pushToTalkRef.current = false;
+    gateRef.current.reset();
+    preRollRef.current = [];
 
     try {
       // 1. Init Audio
@@ -110,103 +215,16 @@ export const useLiveSession = ({ apiKey, systemInstruction }) => {
 
       if (inputAudioContextRef.current.state === 'suspended') await inputAudioContextRef.current.resume();
       if (outputAudioContextRef.current.state === 'suspended') await outputAudioContextRef.current.resume();
+      playbackRef.current = createPlaybackScheduler(outputAudioContextRef.current, setIsModelSpeaking);
 
-      // 2. Connexion WebSocket DIRECTE (Sans SDK)
-      // URL officielle pour le streaming bidi
-      const url = `wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent?key=${apiKey}`;
-      const ws = new WebSocket(url);
-
-      ws.onopen = () => {
-        console.log("✅ [SOCKET] Connecté au serveur Google.");
-        
-        // 3. Handshake (Envoi de la configuration)
-       // 3. Handshake (Configuration optimisée "Professeur Français")
-        // 3. Handshake (Tentative "Charon" + Anti-Épellation)
-        const setupMessage = {
-            setup: {
-                model: "models/gemini-2.0-flash-exp",
-                generation_config: {
-                    response_modalities: ["AUDIO"],
-                    speech_config: {
-                        voice_config: { 
-                            prebuilt_voice_config: { 
-                                // CHARON : Voix masculine, grave, souvent plus stable.
-                                voice_name: "Charon" 
-                            } 
-                        }
-                    }
-                },
-                system_instruction: { 
-                    parts: [{ 
-                        text: systemInstruction + " CRITIQUE : Tu es un professeur de droit français masculin. Tu parles PARFAITEMENT français. Interdiction formelle d'avoir un accent anglais. Prononce 'ou' comme un mot, ne l'épelle jamais 'o-u'. Lie les mots entre eux (liaison). Ton élocution doit être fluide, native et naturelle. Si tu ne peux pas prononcer un mot correctement, reformule." 
-                    }] 
-                }
-            }
-        };
-        ws.send(JSON.stringify(setupMessage));
-        console.log("📨 [SETUP] Configuration envoyée.");
-        
-        setStatus('connected');
-
-        // 4. PING DE RÉVEIL (Via protocole brut)
-        setTimeout(() => {
-            console.log("📨 [PING] Envoi du message 'Bonjour'...");
-            const clientContent = {
-                client_content: {
-                    turns: [{
-                        role: "user",
-                        parts: [{ text: "Bonjour ! Est-ce que tu m'entends ?" }]
-                    }],
-                    turn_complete: true
-                }
-            };
-            ws.send(JSON.stringify(clientContent));
-        }, 1000);
-      };
-
-      ws.onmessage = async (event) => {
-        // Réception des données (souvent un Blob)
-        let data;
-        if (event.data instanceof Blob) {
-            data = JSON.parse(await event.data.text());
-        } else {
-            data = JSON.parse(event.data);
-        }
-
-        // Audio reçu
-        if (data.serverContent?.modelTurn?.parts?.[0]?.inlineData) {
-            console.log("📥 [REÇU] Audio !");
-            const base64Audio = data.serverContent.modelTurn.parts[0].inlineData.data;
-            playAudioChunk(base64Audio);
-        }
-        
-        // Interruption
-        if (data.serverContent?.interrupted) {
-            console.log("⏸️ [INTERRUPTION]");
-            if(outputAudioContextRef.current) {
-                outputAudioContextRef.current.suspend().then(() => outputAudioContextRef.current?.resume());
-                nextStartTimeRef.current = outputAudioContextRef.current.currentTime;
-            }
-        }
-      };
-
-      ws.onclose = () => {
-        console.log("❌ [SOCKET] Déconnecté.");
-        setStatus('disconnected');
-      };
-
-      ws.onerror = (error) => {
-        console.log("⚠️ [SOCKET] Erreur:", error);
-        setStatus('error');
-      };
-
-      wsRef.current = ws;
+      // 2. Connexion, puis micro
+      openConnection(false);
       await startAudioInput();
 
     } catch (error) {
       console.error('Init failed:', error);
+      releaseResources();
       setStatus('error');
-      disconnect();
     }
   };
 
@@ -219,41 +237,20 @@ export const useLiveSession = ({ apiKey, systemInstruction }) => {
 
       const ctx = inputAudioContextRef.current;
       const source = ctx.createMediaStreamSource(stream);
-      const processor = ctx.createScriptProcessor(4096, 1, 1);
-
-      processor.onaudioprocess = (e) => {
-        if (isMuted || !wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
-
-        const inputData = e.inputBuffer.getChannelData(0);
-        
-        // Volumètre
-        let sum = 0;
-        for (let i = 0; i < inputData.length; i++) sum += inputData[i] * inputData[i];
-        setVolumeLevel(Math.min(1, Math.sqrt(sum / inputData.length) * 5));
-
-        // Encodage
-        let dataToProcess = inputData;
-        if (ctx.sampleRate !== 16000) {
-           dataToProcess = downsampleBuffer(inputData, ctx.sampleRate, 16000);
-        }
-        const pcm16 = floatTo16BitPCM(dataToProcess);
-        const base64Data = arrayBufferToBase64(pcm16);
-
-        // Envoi Audio (Protocole Brut)
-        const audioMessage = {
-            realtime_input: {
-                media_chunks: [{
-                    mime_type: "audio/pcm",
-                    data: base64Data
-                }]
-            }
-        };
-        
-        try {
-            wsRef.current.send(JSON.stringify(audioMessage));
-        } catch (error) { /* Ignore */ }
+
+      // Rééchantillonnage, encodage et volumètre dans le fil audio : le fil principal ne fait que transmettre
+      await ctx.audioWorklet.addModule(pcmCaptureWorkletUrl);
+      const processor = new AudioWorkletNode(ctx, PCM_CAPTURE_PROCESSOR, { numberOfInputs: 1, numberOfOutputs: 1, channelCount: 1 });
+
+      processor.port.onmessage = ({ data }) => {
+        if (mutedRef.current) return;
+        setVolumeLevel(data.level);
+        const chunk = arrayBufferToBase64(data.pcm);
+        if (inputModeRef.current === 'gated') gateChunk(chunk, data.level, data.pcm.byteLength / 2 / CAPTURE_RATE * 1000);
+        else if (inputModeRef.current === 'open' || pushToTalkRef.current) sendChunk(chunk);
       };
 
+      // Sortie muette : le nœud doit être relié à la destination pour être exécuté
       const muteNode = ctx.createGain();
       muteNode.gain.value = 0;
       source.connect(processor);
@@ -268,18 +265,91 @@ export const useLiveSession = ({ apiKey, systemInstruction }) => {
     }
   };
 
-  const disconnect = () => {
-    if (wsRef.current) { wsRef.current.close(); wsRef.current = null; }
-    if (processorRef.current) { processorRef.current.disconnect(); processorRef.current = null; }
+  // Pendant une reconnexion, le micro reste ouvert mais rien n'est envoyé
+  const sendChunk = (chunk) => {
+    if (connectionRef.current) connectionRef.current.sendAudio(chunk);
+  };
+
+  // Porte vocale : seule la parole est transmise, encadrée par les signaux de début et de fin
+  const gateChunk = (chunk, level, durationMs) => {
+    const change = gateRef.current.update(level, durationMs);
+    if (change === 'open') {
+      beginActivity();
+      preRollRef.current.forEach(sendChunk);
+      preRollRef.current = [];
+    }
+    if (gateRef.current.isOpen()) sendChunk(chunk);
+    else preRollRef.current = [...preRollRef.current, chunk].slice(-PRE_ROLL_CHUNKS);
+    if (change === 'close') endActivity();
+  };
+
+  const beginActivity = () => {
+    setIsTalking(true);
+    if (activityOpenRef.current || !connectionRef.current) return;
+    activityOpenRef.current = true;
+    // Le professeur se tait dès que l'étudiant prend la parole, sans attendre la réponse du serveur
+    playbackRef.current?.interrupt();
+    connectionRef.current.sendActivityStart();
+  };
+
+  const endActivity = () => {
+    setIsTalking(false);
+    if (!activityOpenRef.current) return;
+    activityOpenRef.current = false;
+    connectionRef.current?.sendActivityEnd();
+  };
+
+  // Bouton à maintenir (ou barre d'espace)
+  const startTalking = () => {
+    if (inputModeRef.current !== 'pushToTalk' || pushToTalkRef.current || mutedRef.current) return;
+    pushToTalkRef.current = true;
+    beginActivity();
+  };
+
+  const stopTalking = () => {
+    if (!pushToTalkRef.current) return;
+    pushToTalkRef.current = false;
+    endActivity();
+  };
+
+  // Libère connexion, micro et contextes audio, sans toucher au statut
+  const releaseResources = () => {
+    if (reconnectTimerRef.current) { clearTimeout(reconnectTimerRef.current); reconnectTimerRef.current = null; }
+    retire(liveLinkRef.current);
+    liveLinkRef.current = null;
+    connectionRef.current = null;
+    if (processorRef.current) { processorRef.current.port.onmessage = null; processorRef.current.disconnect(); processorRef.current = null; }
     if (inputSourceRef.current) { inputSourceRef.current.disconnect(); inputSourceRef.current = null; }
     if (streamRef.current) { streamRef.current.getTracks().forEach(t => t.stop()); streamRef.current = null; }
+    if (playbackRef.current) { playbackRef.current.close(); playbackRef.current = null; }
     if (inputAudioContextRef.current) { inputAudioContextRef.current.close(); inputAudioContextRef.current = null; }
     if (outputAudioContextRef.current) { outputAudioContextRef.current.close(); outputAudioContextRef.current = null; }
-    setStatus('disconnected');
     setVolumeLevel(0);
+    setIsModelSpeaking(false);
+    pushToTalkRef.current = false;
+    activityOpenRef.current = false;
+    gateRef.current.reset();
+    preRollRef.current = [];
+    setIsTalking(false);
   };
 
-  const toggleMute = () => setIsMuted(p => !p);
+  const disconnect = () => {
+    releaseResources();
+    resumptionHandleRef.current = null;
+    setStatus('disconnected');
+  };
+
+  // Couper le micro interrompt aussi la prise de parole en cours
+  const toggleMute = () => {
+    mutedRef.current = !mutedRef.current;
+    setIsMuted(mutedRef.current);
+    if (!mutedRef.current) return;
+    pushToTalkRef.current = false;
+    gateRef.current.reset();
+    preRollRef.current = [];
+    endActivity();
+    setVolumeLevel(0);
+  };
 
-  return { status, connect, disconnect, isMuted, toggleMute, volumeLevel };
+  return { status, connect, disconnect, isMuted, toggleMute, volumeLevel, isModelSpeaking, isTalking, startTalking, stopTalking, transcript };
 };
@@ -0,0 +1,118 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * Empreinte scrypt d'un mot de passe, au format `scrypt:<sel hex>:<empreinte hex>`
+ * (sans `$`, que le chargement des fichiers .env interpréterait comme une variable).
+ */
+export function hashPassword(password: string, salt: string = randomBytes(16).toString('hex')): string {
+  return `scrypt:${salt}:${scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Empreinte de référence : une tentative sur un compte inconnu coûte autant qu'une vraie vérification.
+const DUMMY_HASH = hashPassword(randomBytes(16).toString('hex'));
+
+export interface AuthOptions {
+  sessionTtlMs?: number;
+  /** Échecs consécutifs tolérés avant verrouillage du client. */
+  maxFailures?: number;
+  lockoutMs?: number;
+}
+
+export interface ServerSession {
+  token: string;
+  username: string;
+  expiresAt: number;
+}
+
+export type LoginResult =
+  | { status: 'ok'; session: ServerSession }
+  | { status: 'invalid'; remainingAttempts: number }
+  | { status: 'locked'; retryAfterMs: number };
+
+export interface AuthService {
+  /** `account` : compte correspondant à l'identifiant saisi, `null` s'il n'existe pas. */
+  login: (clientId: string, account: { username: string; passwordHash: string } | null, password: string) => LoginResult;
+  logout: (token: string) => void;
+  /** Ferme toutes les sessions d'un compte (suppression, changement de mot de passe). */
+  revokeUser: (username: string) => void;
+  /** Session valide correspondant au jeton, `null` si inconnue ou expirée. */
+  verify: (token: string | null) => ServerSession | null;
+}
+
+/**
+ * Authentification de l'Espace Professeur, entièrement côté serveur :
+ * sessions en mémoire à durée limitée, verrouillage par client après des échecs répétés.
+ * Un redémarrage du serveur invalide toutes les sessions.
+ */
+export function createAuthService({
+  sessionTtlMs = 2 * 60 * 60_000,
+  maxFailures = 5,
+  lockoutMs = 15 * 60_000
+}: AuthOptions): AuthService {
+  const sessions = new Map<string, ServerSession>();
+  const failures = new Map<string, { count: number; lockedUntil: number }>();
+
+  const purgeExpired = (now: number) => {
+    sessions.forEach((session, token) => {
+      if (session.expiresAt <= now) sessions.delete(token);
+    });
+  };
+
+  const login = (clientId: string, account: { username: string; passwordHash: string } | null, password: string): LoginResult => {
+    const now = Date.now();
+    const record = failures.get(clientId);
+    if (record && record.lockedUntil > now) {
+      return { status: 'locked', retryAfterMs: record.lockedUntil - now };
+    }
+
+    const valid = verifyPassword(password, account?.passwordHash || DUMMY_HASH) && account !== null;
+    if (!valid) {
+      const count = (record && record.lockedUntil === 0 ? record.count : 0) + 1;
+      if (count >= maxFailures) {
+        failures.set(clientId, { count: 0, lockedUntil: now + lockoutMs });
+        return { status: 'locked', retryAfterMs: lockoutMs };
+      }
+      failures.set(clientId, { count, lockedUntil: 0 });
+      return { status: 'invalid', remainingAttempts: maxFailures - count };
+    }
+
+    failures.delete(clientId);
+    purgeExpired(now);
+    const session = { token: randomBytes(32).toString('base64url'), username: account.username, expiresAt: now + sessionTtlMs };
+    sessions.set(session.token, session);
+    return { status: 'ok', session };
+  };
+
+  const logout = (token: string) => {
+    sessions.delete(token);
+  };
+
+  const revokeUser = (username: string) => {
+    sessions.forEach((session, token) => {
+      if (session.username === username) sessions.delete(token);
+    });
+  };
+
+  const verify = (token: string | null): ServerSession | null => {
+    if (!token) return null;
+    const session = sessions.get(token);
+    if (!session) return null;
+    if (session.expiresAt <= Date.now()) {
+      sessions.delete(token);
+      return null;
+    }
+    return session;
+  };
+
+  return { login, logout, revokeUser, verify };
+}
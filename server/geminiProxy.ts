@@ -0,0 +1,254 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { Plugin, Connect, ViteDevServer } from 'vite';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { createRateLimiter } from './rateLimiter';
+import { createUsageLogger, readUsageMetadata } from './usageLog';
+import { HttpError, sendError, readBody, clientIdOf } from './http';
+
+export const PROXY_PATH = '/api/gemini';
+const LIVE_PATH = `${PROXY_PATH}/live`;
+
+const UPSTREAM_URL = 'https://generativelanguage.googleapis.com';
+const UPSTREAM_LIVE_URL = 'wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent';
+
+// Seules les méthodes de génération sont relayées : la clé ne doit pas servir à autre chose.
+const ALLOWED_PATH_RE = /^\/v1(?:alpha|beta)?\/models\/[\w.-]+:(?:generateContent|streamGenerateContent)$/;
+
+export interface GeminiProxyOptions {
+  apiKey: string;
+  /** Questions écrites autorisées par client et par minute. */
+  requestsPerMinute?: number;
+  /** Séances orales ouvertes par client sur 10 minutes (les reprises après coupure ne sont pas comptées). */
+  liveSessionsPer10Min?: number;
+  /** Séances orales simultanées par client. */
+  maxConcurrentLiveSessions?: number;
+  /** Fichier JSON Lines du journal d'utilisation (console seule sinon). */
+  usageLogFile?: string;
+  /** Derrière un reverse proxy : identifier le client par X-Forwarded-For. */
+  trustForwardedFor?: boolean;
+}
+
+function sizeOf(data: RawData): number {
+  if (Array.isArray(data)) return data.reduce((n, b) => n + b.length, 0);
+  return data.byteLength;
+}
+
+/**
+ * Dernier `usageMetadata` d'une réponse (JSON simple ou flux SSE) : c'est le total de la génération.
+ */
+function extractUsage(body: string) {
+  const matches = body.match(/"usageMetadata"\s*:\s*\{[^}]*\}/g);
+  if (!matches) return {};
+  try {
+    return readUsageMetadata(JSON.parse(`{${matches[matches.length - 1]}}`).usageMetadata);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Proxy Gemini intégré au serveur Vite (développement et `vite preview`).
+ * La clé API reste côté serveur : le navigateur n'appelle que `/api/gemini/...`, en HTTP pour le texte
+ * et en WebSocket (`/api/gemini/live`) pour le mode oral. Chaque client est limité en débit
+ * et chaque appel est journalisé.
+ */
+export function geminiProxyPlugin(options: GeminiProxyOptions): Plugin {
+  const {
+    apiKey,
+    requestsPerMinute = 20,
+    liveSessionsPer10Min = 6,
+    maxConcurrentLiveSessions = 2,
+    usageLogFile,
+    trustForwardedFor = false
+  } = options;
+
+  const textLimiter = createRateLimiter({ limit: requestsPerMinute, windowMs: 60_000 });
+  const liveLimiter = createRateLimiter({ limit: liveSessionsPer10Min, windowMs: 10 * 60_000 });
+  const openLiveSessions = new Map<string, number>();
+  const logUsage = createUsageLogger(usageLogFile);
+  const wss = new WebSocketServer({ noServer: true });
+
+  // --- TEXTE : generateContent / streamGenerateContent ---
+
+  const handleGenerate = async (req: IncomingMessage, res: ServerResponse) => {
+    const startedAt = Date.now();
+    const client = clientIdOf(req, trustForwardedFor);
+    const url = new URL(req.url || '/', 'http://localhost');
+    const model = url.pathname.match(/models\/([^:]+)/)?.[1];
+
+    if (req.method !== 'POST' || !ALLOWED_PATH_RE.test(url.pathname)) {
+      sendError(res, 404, 'Méthode non relayée par le proxy.');
+      return;
+    }
+
+    const quota = textLimiter.take(client);
+    if (!quota.allowed) {
+      const retryAfter = Math.ceil(quota.retryAfterMs / 1000);
+      sendError(res, 429, `Trop de questions en peu de temps. Réessayez dans ${retryAfter} s.`, { 'Retry-After': String(retryAfter) });
+      logUsage({ kind: 'generate', client, model, status: 429, startedAt });
+      return;
+    }
+
+    // Le client a fermé la connexion (bouton Stop) : on interrompt aussi l'appel à Google.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    let status: number | string = 502;
+    let received = '';
+    try {
+      const body = await readBody(req);
+      const upstream = await fetch(`${UPSTREAM_URL}${url.pathname}${url.search}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: body.toString('utf8'),
+        signal: controller.signal
+      });
+      status = upstream.status;
+
+      res.writeHead(upstream.status, {
+        'Content-Type': upstream.headers.get('content-type') || 'application/json',
+        'Cache-Control': 'no-cache'
+      });
+      if (upstream.body) {
+        const decoder = new TextDecoder();
+        for await (const chunk of upstream.body as unknown as AsyncIterable<Uint8Array>) {
+          res.write(chunk);
+          received += decoder.decode(chunk, { stream: true });
+        }
+      }
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        status = 'interrompu';
+      } else if (error instanceof HttpError) {
+        status = error.status;
+        sendError(res, error.status, error.message);
+      } else {
+        console.error('[proxy] Appel Gemini impossible :', error);
+        if (!res.headersSent) sendError(res, 502, 'Service IA injoignable.');
+        else res.end();
+      }
+    } finally {
+      logUsage({ kind: 'generate', client, model, status, startedAt, ...extractUsage(received) });
+    }
+  };
+
+  const middleware: Connect.NextHandleFunction = (req, res, next) => {
+    if (!req.url?.startsWith(`${PROXY_PATH}/`) || req.url.startsWith(LIVE_PATH)) {
+      next();
+      return;
+    }
+    req.url = req.url.slice(PROXY_PATH.length);
+    handleGenerate(req, res);
+  };
+
+  // --- ORAL : WebSocket BidiGenerateContent ---
+
+  const rejectUpgrade = (socket: Duplex, status: number, reason: string) => {
+    socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+    socket.destroy();
+  };
+
+  // Codes réservés (1005, 1006, 1015) ou hors plage : interdits dans une trame de fermeture.
+  const sendableCloseCode = (code: number) => (code >= 1000 && code <= 4999 && ![1004, 1005, 1006, 1015].includes(code) ? code : 1011);
+
+  const bridgeLiveSession = (client: WebSocket, clientId: string) => {
+    const startedAt = Date.now();
+    const upstream = new WebSocket(`${UPSTREAM_LIVE_URL}?key=${apiKey}`);
+    const pending: { data: RawData; isBinary: boolean }[] = [];
+    let model: string | undefined;
+    let usage = {};
+    let bytesIn = 0;
+    let bytesOut = 0;
+    let closed = false;
+    let setupSeen = false;
+
+    openLiveSessions.set(clientId, (openLiveSessions.get(clientId) || 0) + 1);
+
+    const finish = (status: number | string) => {
+      if (closed) return;
+      closed = true;
+      openLiveSessions.set(clientId, (openLiveSessions.get(clientId) || 1) - 1);
+      if (openLiveSessions.get(clientId) === 0) openLiveSessions.delete(clientId);
+      logUsage({ kind: 'live', client: clientId, model, status, startedAt, bytesIn, bytesOut, ...usage });
+    };
+
+    client.on('message', (data, isBinary) => {
+      if (closed) return;
+      bytesIn += sizeOf(data);
+      if (!setupSeen) {
+        setupSeen = true;
+        let setup: { model?: string; session_resumption?: { handle?: string }; sessionResumption?: { handle?: string } } | undefined;
+        try {
+          setup = JSON.parse(data.toString()).setup;
+        } catch { /* message audio */ }
+        model = setup?.model;
+        // Une reprise (avec jeton) poursuit une séance déjà comptée : seules les séances neuves consomment le quota
+        const isResume = Boolean(setup?.session_resumption?.handle || setup?.sessionResumption?.handle);
+        if (!isResume && !liveLimiter.take(clientId).allowed) {
+          finish(429);
+          client.close(1008, 'Trop de séances orales. Réessayez dans quelques minutes.');
+          return;
+        }
+      }
+      if (upstream.readyState === WebSocket.OPEN) upstream.send(data, { binary: isBinary });
+      else pending.push({ data, isBinary });
+    });
+
+    upstream.on('open', () => {
+      pending.splice(0).forEach(({ data, isBinary }) => upstream.send(data, { binary: isBinary }));
+    });
+
+    upstream.on('message', (data, isBinary) => {
+      const text = data.toString();
+      bytesOut += sizeOf(data);
+      if (text.includes('usageMetadata')) usage = { ...usage, ...extractUsage(text) };
+      if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+    });
+
+    upstream.on('close', (code, reason) => {
+      if (client.readyState === WebSocket.OPEN) client.close(sendableCloseCode(code), reason);
+      finish(`fermé (${code})`);
+    });
+
+    client.on('close', () => {
+      if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) upstream.close();
+      finish('terminé');
+    });
+
+    upstream.on('error', (error) => {
+      console.error('[proxy] Session Live Gemini en erreur :', error.message);
+      if (client.readyState === WebSocket.OPEN) client.close(1011, 'Service IA injoignable.');
+      finish('erreur');
+    });
+
+    client.on('error', () => upstream.close());
+  };
+
+  const handleUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (!req.url?.startsWith(LIVE_PATH)) return; // HMR de Vite, etc.
+
+    const clientId = clientIdOf(req, trustForwardedFor);
+    if ((openLiveSessions.get(clientId) || 0) >= maxConcurrentLiveSessions) {
+      rejectUpgrade(socket, 429, 'Too Many Requests');
+      logUsage({ kind: 'live', client: clientId, status: 429, startedAt: Date.now() });
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => bridgeLiveSession(ws, clientId));
+  };
+
+  const attach = (middlewares: Connect.Server, httpServer: ViteDevServer['httpServer']) => {
+    middlewares.use(middleware);
+    httpServer?.on('upgrade', handleUpgrade);
+  };
+
+  return {
+    name: 'gemini-proxy',
+    configureServer: (server) => attach(server.middlewares, server.httpServer),
+    configurePreviewServer: (server) => attach(server.middlewares, server.httpServer)
+  };
+}
@@ -0,0 +1,300 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin, Connect } from 'vite';
+import type { CourseConfig, ProfessorAccount, QuoteDeviation } from '../types';
+import { createAuthService, hashPassword } from './auth';
+import { createWorkspaceStore, isCourseId, isVersionedField, StoredAccount } from './workspaceStore';
+import { HttpError, sendJson, sendError, readJsonBody, clientIdOf, bearerToken } from './http';
+import { createRateLimiter } from './rateLimiter';
+
+export interface ProfessorApiOptions {
+  /** Compte administrateur défini par l'environnement (toujours présent, non modifiable depuis l'application). */
+  adminAccount?: { username: string; passwordHash: string };
+  sessionTtlMs?: number;
+  maxFailures?: number;
+  lockoutMs?: number;
+  /** Répertoire de l'espace de travail (cours et comptes). */
+  workspaceDir: string;
+  trustForwardedFor?: boolean;
+}
+
+type Handler = (req: IncomingMessage, res: ServerResponse, params: string[]) => Promise<void>;
+
+const USERNAME_RE = /^[a-z0-9._-]{2,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Signalements envoyés par les navigateurs des étudiants : bornés en nombre et en taille
+const QUOTE_REPORTS_PER_10_MIN = 30;
+const MAX_REPORTED_DEVIATIONS = 20;
+const MAX_QUOTE_LENGTH = 2000;
+const QUOTE_KINDS: QuoteDeviation['kind'][] = ['definition', 'decision', 'statute'];
+const QUOTE_REASONS: QuoteDeviation['reason'][] = ['modified', 'truncated', 'unknown'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isOptionalNumber = (value: unknown) => value === null || typeof value === 'number';
+
+// Forme attendue de chaque champ du cours : une valeur d'un autre type est refusée plutôt qu'écrite sur le disque
+const COURSE_FIELD_CHECKS: Record<keyof CourseConfig | 'title' | 'description', (value: unknown) => boolean> = {
+  title: isString,
+  description: isString,
+  courseContent: isString,
+  systemInstruction: isString,
+  retrievalConfig: v => isObject(v) && (v.mode === 'retrieval' || v.mode === 'full') && typeof v.tokenBudget === 'number',
+  modelSettings: v => isObject(v) && isString(v.textModel) && isString(v.liveModel) && isString(v.voiceName)
+    && isOptionalNumber(v.temperature) && isOptionalNumber(v.topP) && isOptionalNumber(v.maxOutputTokens) && isOptionalNumber(v.thinkingBudget),
+  persona: v => isObject(v) && [v.assistantName, v.professorName, v.subject, v.assistantIntro, v.professorBio].every(isString),
+  caseRubric: v => Array.isArray(v) && v.every(c => isObject(c) && isString(c.id) && isString(c.label) && isString(c.description) && typeof c.points === 'number')
+};
+
+type CoursePatch = Partial<CourseConfig> & { title?: string; description?: string };
+
+/**
+ * Modification d'un cours transmise par l'éditeur : champs connus uniquement, chacun vérifié.
+ */
+function readCoursePatch(body: Record<string, unknown>): CoursePatch {
+  const patch: Record<string, unknown> = {};
+  for (const [key, check] of Object.entries(COURSE_FIELD_CHECKS)) {
+    if (body[key] === undefined) continue;
+    if (!check(body[key])) throw new HttpError(400, `Champ du cours invalide : ${key}.`);
+    patch[key] = body[key];
+  }
+  return patch as CoursePatch;
+}
+
+function publicAccount({ username, displayName, courseIds, isAdmin }: StoredAccount): ProfessorAccount {
+  return { username, displayName, courseIds, isAdmin };
+}
+
+/**
+ * Écarts de citation transmis par le navigateur, réduits aux champs attendus (le passage du cours est relu par le professeur dans l'éditeur).
+ */
+function readDeviations(value: unknown): QuoteDeviation[] {
+  if (!Array.isArray(value)) return [];
+  return value.slice(0, MAX_REPORTED_DEVIATIONS).flatMap((item): QuoteDeviation[] => {
+    if (!item || !QUOTE_KINDS.includes(item.kind) || !QUOTE_REASONS.includes(item.reason) || typeof item.quoted !== 'string') return [];
+    return [{
+      kind: item.kind,
+      reason: item.reason,
+      quoted: item.quoted.slice(0, MAX_QUOTE_LENGTH),
+      expected: String(item.expected || '').slice(0, MAX_QUOTE_LENGTH),
+      similarity: Math.min(1, Math.max(0, Number(item.similarity) || 0))
+    }];
+  });
+}
+
+/**
+ * API de l'espace de travail, servie par Vite (développement et `vite preview`) :
+ *  - authentification : POST /api/auth/login, POST /api/auth/logout, GET /api/auth/session
+ *  - catalogue et cours : GET /api/courses, GET /api/courses/:id (publics), POST /api/courses (administrateur),
+ *    PUT /api/courses/:id (professeur du cours ou administrateur)
+ *  - historique : GET /api/courses/:id/history/:champ et GET /api/courses/:id/history/:champ/:version
+ *    (professeur du cours ou administrateur ; champ = courseContent ou systemInstruction)
+ *  - citations modifiées par l'IA : POST /api/courses/:id/quote-reports (public, limité par client),
+ *    GET et DELETE /api/courses/:id/quote-reports (professeur du cours ou administrateur)
+ *  - comptes professeurs : GET /api/accounts, PUT et DELETE /api/accounts/:username (administrateur)
+ */
+export function professorApiPlugin(options: ProfessorApiOptions): Plugin {
+  const { adminAccount, workspaceDir, trustForwardedFor = false } = options;
+  const auth = createAuthService({ sessionTtlMs: options.sessionTtlMs, maxFailures: options.maxFailures, lockoutMs: options.lockoutMs });
+  const store = createWorkspaceStore(workspaceDir);
+  const quoteReportLimiter = createRateLimiter({ limit: QUOTE_REPORTS_PER_10_MIN, windowMs: 10 * 60_000 });
+
+  const admin: StoredAccount | null = adminAccount
+    ? { username: adminAccount.username, passwordHash: adminAccount.passwordHash, displayName: 'Administrateur', courseIds: [], isAdmin: true }
+    : null;
+
+  const findAccount = async (username: string): Promise<StoredAccount | null> => {
+    if (admin && username === admin.username) return admin;
+    return (await store.listAccounts()).find(a => a.username === username) || null;
+  };
+
+  // Le compte est relu à chaque requête : une modification de ses droits s'applique immédiatement.
+  const requireAccount = async (req: IncomingMessage): Promise<StoredAccount> => {
+    const session = auth.verify(bearerToken(req));
+    const account = session && await findAccount(session.username);
+    if (!account) throw new HttpError(401, 'Session expirée ou invalide. Veuillez vous reconnecter.');
+    return account;
+  };
+
+  const requireAdmin = async (req: IncomingMessage): Promise<StoredAccount> => {
+    const account = await requireAccount(req);
+    if (!account.isAdmin) throw new HttpError(403, "Action réservée à l'administrateur.");
+    return account;
+  };
+
+  const requireCourseEditor = async (req: IncomingMessage, courseId: string): Promise<StoredAccount> => {
+    const account = await requireAccount(req);
+    if (!account.isAdmin && !account.courseIds.includes(courseId)) throw new HttpError(403, "Vous n'êtes pas autorisé à modifier ce cours.");
+    return account;
+  };
+
+  const routes: [string, RegExp, Handler][] = [
+    ['POST', /^\/api\/auth\/login$/, async (req, res) => {
+      const { username, password } = await readJsonBody<{ username?: string; password?: string }>(req);
+      const account = await findAccount(String(username || '').trim().toLowerCase());
+      const result = auth.login(clientIdOf(req, trustForwardedFor), account, String(password || ''));
+
+      if (result.status === 'ok') {
+        sendJson(res, 200, { token: result.session.token, expiresAt: result.session.expiresAt, account: publicAccount(account!) });
+      } else if (result.status === 'locked') {
+        const minutes = Math.ceil(result.retryAfterMs / 60_000);
+        sendError(res, 429, `Trop de tentatives. Réessayez dans ${minutes} min.`, { 'Retry-After': String(Math.ceil(result.retryAfterMs / 1000)) });
+      } else {
+        const plural = result.remainingAttempts > 1 ? 's' : '';
+        sendError(res, 401, `Identifiant ou mot de passe incorrect (${result.remainingAttempts} essai${plural} restant${plural}).`);
+      }
+    }],
+
+    ['POST', /^\/api\/auth\/logout$/, async (req, res) => {
+      const token = bearerToken(req);
+      if (token) auth.logout(token);
+      res.writeHead(204).end();
+    }],
+
+    ['GET', /^\/api\/auth\/session$/, async (req, res) => {
+      const account = await requireAccount(req);
+      const { expiresAt } = auth.verify(bearerToken(req))!;
+      sendJson(res, 200, { expiresAt, account: publicAccount(account) });
+    }],
+
+    ['GET', /^\/api\/courses$/, async (_req, res) => {
+      sendJson(res, 200, await store.listCourses());
+    }],
+
+    ['POST', /^\/api\/courses$/, async (req, res) => {
+      await requireAdmin(req);
+      const { title, description } = await readJsonBody<{ title?: string; description?: string }>(req);
+      if (!title?.trim()) throw new HttpError(400, 'Le titre du cours est obligatoire.');
+      sendJson(res, 201, await store.createCourse({ title: title.trim(), description: description?.trim() }));
+    }],
+
+    ['GET', /^\/api\/courses\/([^/]+)$/, async (_req, res, [id]) => {
+      const course = await store.readCourse(id);
+      if (!course) throw new HttpError(404, 'Cours introuvable.');
+      sendJson(res, 200, course);
+    }],
+
+    ['PUT', /^\/api\/courses\/([^/]+)$/, async (req, res, [id]) => {
+      const account = await requireCourseEditor(req, id);
+      const body = await readJsonBody<Record<string, unknown>>(req);
+      if (!isObject(body)) throw new HttpError(400, 'Modification du cours invalide.');
+      const versionMessage = isString(body.versionMessage) ? body.versionMessage : undefined;
+      const course = await store.updateCourse(id, readCoursePatch(body), { author: account.displayName, message: versionMessage });
+      if (!course) throw new HttpError(404, 'Cours introuvable.');
+      sendJson(res, 200, course);
+    }],
+
+    ['GET', /^\/api\/courses\/([^/]+)\/history\/([^/]+)$/, async (req, res, [id, field]) => {
+      await requireCourseEditor(req, id);
+      if (!isVersionedField(field)) throw new HttpError(404, 'Historique introuvable.');
+      sendJson(res, 200, await store.listVersions(id, field));
+    }],
+
+    ['GET', /^\/api\/courses\/([^/]+)\/history\/([^/]+)\/([^/]+)$/, async (req, res, [id, field, versionId]) => {
+      await requireCourseEditor(req, id);
+      const text = isVersionedField(field) ? await store.readVersion(id, field, versionId) : null;
+      if (text === null) throw new HttpError(404, 'Version introuvable.');
+      sendJson(res, 200, { text });
+    }],
+
+    ['POST', /^\/api\/courses\/([^/]+)\/quote-reports$/, async (req, res, [id]) => {
+      const quota = quoteReportLimiter.take(clientIdOf(req, trustForwardedFor));
+      if (!quota.allowed) throw new HttpError(429, 'Trop de signalements en peu de temps.');
+      if (!await store.readCourse(id)) throw new HttpError(404, 'Cours introuvable.');
+
+      const { question, deviations } = await readJsonBody<{ question?: string; deviations?: unknown }>(req);
+      const kept = readDeviations(deviations);
+      if (kept.length === 0) throw new HttpError(400, 'Aucun écart de citation à signaler.');
+      await store.appendQuoteReport(id, { question: String(question || '').slice(0, MAX_QUOTE_LENGTH), deviations: kept });
+      res.writeHead(204).end();
+    }],
+
+    ['GET', /^\/api\/courses\/([^/]+)\/quote-reports$/, async (req, res, [id]) => {
+      await requireCourseEditor(req, id);
+      sendJson(res, 200, await store.listQuoteReports(id));
+    }],
+
+    ['DELETE', /^\/api\/courses\/([^/]+)\/quote-reports$/, async (req, res, [id]) => {
+      await requireCourseEditor(req, id);
+      if (!await store.readCourse(id)) throw new HttpError(404, 'Cours introuvable.');
+      await store.clearQuoteReports(id);
+      res.writeHead(204).end();
+    }],
+
+    ['GET', /^\/api\/accounts$/, async (req, res) => {
+      await requireAdmin(req);
+      sendJson(res, 200, (await store.listAccounts()).map(publicAccount));
+    }],
+
+    ['PUT', /^\/api\/accounts\/([^/]+)$/, async (req, res, [username]) => {
+      await requireAdmin(req);
+      if (!USERNAME_RE.test(username)) throw new HttpError(400, 'Identifiant invalide (2 à 32 caractères : lettres minuscules, chiffres, . _ -).');
+      if (admin && username === admin.username) throw new HttpError(409, "Le compte administrateur se configure sur le serveur.");
+
+      const body = await readJsonBody<{ displayName?: string; password?: string; courseIds?: string[]; isAdmin?: boolean }>(req);
+      if (!isObject(body)) throw new HttpError(400, 'Modification du compte invalide.');
+      if (body.password !== undefined && !isString(body.password)) throw new HttpError(400, 'Mot de passe invalide.');
+      if (body.displayName !== undefined && !isString(body.displayName)) throw new HttpError(400, 'Nom affiché invalide.');
+      if (body.password && body.password.length < MIN_PASSWORD_LENGTH) {
+        throw new HttpError(400, `Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères.`);
+      }
+      const passwordHash = body.password ? hashPassword(body.password) : null;
+
+      let existing: StoredAccount | undefined;
+      let account!: StoredAccount;
+      await store.updateAccounts(accounts => {
+        existing = accounts.find(a => a.username === username);
+        if (!existing && !passwordHash) throw new HttpError(400, 'Un mot de passe est obligatoire pour un nouveau compte.');
+        account = {
+          username,
+          displayName: body.displayName?.trim() || existing?.displayName || username,
+          courseIds: Array.isArray(body.courseIds) ? body.courseIds.filter(isCourseId) : existing?.courseIds || [],
+          isAdmin: typeof body.isAdmin === 'boolean' ? body.isAdmin : existing?.isAdmin || false,
+          passwordHash: passwordHash || existing!.passwordHash
+        };
+        return [...accounts.filter(a => a.username !== username), account];
+      });
+      if (passwordHash && existing) auth.revokeUser(username);
+      sendJson(res, existing ? 200 : 201, publicAccount(account));
+    }],
+
+    ['DELETE', /^\/api\/accounts\/([^/]+)$/, async (req, res, [username]) => {
+      await requireAdmin(req);
+      await store.updateAccounts(accounts => {
+        if (!accounts.some(a => a.username === username)) throw new HttpError(404, 'Compte introuvable.');
+        return accounts.filter(a => a.username !== username);
+      });
+      auth.revokeUser(username);
+      res.writeHead(204).end();
+    }]
+  ];
+
+  const middleware: Connect.NextHandleFunction = (req, res, next) => {
+    const path = (req.url || '').split('?')[0];
+    for (const [method, pattern, handler] of routes) {
+      const match = req.method === method && path.match(pattern);
+      if (!match) continue;
+      handler(req, res, match.slice(1).map(decodeURIComponent)).catch(error => {
+        if (error instanceof HttpError) {
+          sendError(res, error.status, error.message);
+          return;
+        }
+        console.error('[api] Erreur :', error);
+        sendError(res, 500, 'Erreur interne du serveur.');
+      });
+      return;
+    }
+    next();
+  };
+
+  if (!admin) {
+    console.warn("⚠️  Aucun mot de passe administrateur (TEACHER_PASSWORD_HASH) : seuls les comptes déjà créés peuvent se connecter.");
+  }
+
+  return {
+    name: 'professor-api',
+    configureServer: (server) => { server.middlewares.use(middleware); },
+    configurePreviewServer: (server) => { server.middlewares.use(middleware); }
+  };
+}
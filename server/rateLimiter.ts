@@ -0,0 +1,49 @@
+export interface RateLimitOptions {
+  limit: number;      // nombre d'opérations autorisées par fenêtre
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take: (clientId: string) => RateLimitResult;
+}
+
+/**
+ * Limiteur à fenêtre glissante, par client (adresse IP).
+ * Les horodatages expirés sont purgés à chaque appel, et les clients inactifs à chaque fenêtre :
+ * la mémoire reste proportionnelle à l'activité récente.
+ */
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions): RateLimiter {
+  const hits = new Map<string, number[]>();
+  let lastSweep = Date.now();
+
+  // Clients sans opération dans la fenêtre : leur entrée est supprimée (au plus une fois par fenêtre)
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    hits.forEach((times, clientId) => {
+      if (now - times[times.length - 1] >= windowMs) hits.delete(clientId);
+    });
+  };
+
+  const take = (clientId: string): RateLimitResult => {
+    const now = Date.now();
+    sweep(now);
+    const recent = (hits.get(clientId) || []).filter(t => now - t < windowMs);
+
+    if (recent.length >= limit) {
+      hits.set(clientId, recent);
+      return { allowed: false, retryAfterMs: windowMs - (now - recent[0]) };
+    }
+
+    recent.push(now);
+    hits.set(clientId, recent);
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  return { take };
+}
@@ -0,0 +1,47 @@
+import { appendFile } from 'node:fs/promises';
+
+export interface UsageEntry {
+  kind: 'generate' | 'live';
+  client: string;
+  model?: string;
+  status: number | string;   // code HTTP, ou motif de fermeture pour une session Live
+  durationMs: number;
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  bytesIn?: number;           // session Live : octets reçus de l'étudiant
+  bytesOut?: number;          // session Live : octets renvoyés par le modèle
+}
+
+export type UsageLogger = (entry: Omit<UsageEntry, 'durationMs'> & { startedAt: number }) => void;
+
+/**
+ * Journal d'utilisation du proxy : une ligne lisible dans la console et,
+ * si `file` est fourni, une ligne JSON par requête (format JSON Lines) pour le suivi des coûts.
+ */
+export function createUsageLogger(file?: string): UsageLogger {
+  return ({ startedAt, ...rest }) => {
+    const entry: UsageEntry & { date: string } = { date: new Date().toISOString(), ...rest, durationMs: Date.now() - startedAt };
+
+    const tokens = entry.totalTokens !== undefined ? ` ${entry.totalTokens} tokens` : '';
+    console.log(`[usage] ${entry.kind} ${entry.client} ${entry.model || '?'} → ${entry.status} (${entry.durationMs} ms${tokens})`);
+
+    if (file) {
+      appendFile(file, JSON.stringify(entry) + '\n').catch(error => console.error('[usage] Écriture du journal impossible :', error));
+    }
+  };
+}
+
+/**
+ * Compteurs de tokens d'un objet `usageMetadata` renvoyé par Gemini.
+ */
+export function readUsageMetadata(usage: unknown): Pick<UsageEntry, 'promptTokens' | 'outputTokens' | 'totalTokens'> {
+  if (!usage || typeof usage !== 'object') return {};
+  const counts = usage as Record<string, unknown>;
+  const count = (key: string) => (typeof counts[key] === 'number' ? counts[key] as number : undefined);
+  return {
+    promptTokens: count('promptTokenCount'),
+    outputTokens: count('candidatesTokenCount') ?? count('responseTokenCount'),
+    totalTokens: count('totalTokenCount')
+  };
+}
@@ -0,0 +1,264 @@
+import { randomBytes } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ContentVersion, CourseConfig, CourseSummary, ProfessorAccount, QuoteReport, VersionedField } from '../types';
+import { DEFAULT_COURSE_CONTENT, DEFAULT_SYSTEM_INSTRUCTION } from '../constants';
+// Identifiants partagés avec le client : le cours par défaut et les identifiants de cours ne doivent pas diverger
+import { DEFAULT_COURSE_ID } from '../services/courses';
+import { slugify } from '../services/courseParser';
+
+const COURSE_KEYS: (keyof CourseConfig)[] = ['courseContent', 'systemInstruction', 'retrievalConfig', 'modelSettings', 'persona', 'caseRubric'];
+const COURSE_ID_RE = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const VERSIONED_FIELDS: VersionedField[] = ['courseContent', 'systemInstruction'];
+const VERSION_ID_RE = /^[a-z0-9-]{1,40}$/;
+/** Versions conservées par texte ; au-delà, les plus anciennes sont supprimées. */
+const MAX_VERSIONS = 200;
+/** Les enregistrements automatiques d'un même auteur sont regroupés en une version par période. */
+const AUTOSAVE_MERGE_WINDOW_MS = 10 * 60_000;
+/** Signalements de citations conservés par cours, les plus récents d'abord. */
+const MAX_QUOTE_REPORTS = 500;
+
+export type StoredCourse = Partial<CourseConfig> & {
+  id: string;
+  title: string;
+  description: string;
+  updatedAt?: string;
+};
+
+export type StoredAccount = ProfessorAccount & { passwordHash: string };
+
+export interface WorkspaceStore {
+  listCourses: () => Promise<CourseSummary[]>;
+  readCourse: (id: string) => Promise<StoredCourse | null>;
+  createCourse: (course: { title: string; description?: string }) => Promise<StoredCourse>;
+  /** `version` : auteur et note de la version créée si le contenu ou l'instruction change. */
+  updateCourse: (
+    id: string,
+    patch: Partial<CourseConfig> & { title?: string; description?: string },
+    version?: { author: string; message?: string }
+  ) => Promise<StoredCourse | null>;
+  /** Versions d'un texte du cours, de la plus récente à la plus ancienne. */
+  listVersions: (id: string, field: VersionedField) => Promise<ContentVersion[]>;
+  readVersion: (id: string, field: VersionedField, versionId: string) => Promise<string | null>;
+  /** Citations du cours modifiées par l'IA, du signalement le plus récent au plus ancien. */
+  listQuoteReports: (id: string) => Promise<QuoteReport[]>;
+  appendQuoteReport: (id: string, report: Omit<QuoteReport, 'id' | 'createdAt'>) => Promise<QuoteReport>;
+  clearQuoteReports: (id: string) => Promise<void>;
+  listAccounts: () => Promise<StoredAccount[]>;
+  /** Lit, modifie et réécrit les comptes dans la file des écritures ; une erreur levée par `change` annule la modification. */
+  updateAccounts: (change: (accounts: StoredAccount[]) => StoredAccount[]) => Promise<void>;
+}
+
+export function isCourseId(id: string): boolean {
+  return COURSE_ID_RE.test(id);
+}
+
+export function isVersionedField(field: string): field is VersionedField {
+  return (VERSIONED_FIELDS as string[]).includes(field);
+}
+
+// Texte servi aux étudiants quand le cours n'a rien publié (mêmes règles que resolveCourseConfig côté client)
+function effectiveText(course: StoredCourse, field: VersionedField): string {
+  if (course[field] !== undefined) return course[field]!;
+  if (field === 'systemInstruction') return DEFAULT_SYSTEM_INSTRUCTION;
+  return course.id === DEFAULT_COURSE_ID ? DEFAULT_COURSE_CONTENT : '';
+}
+
+// Identifiant d'un nouveau cours, tiré de son titre (le cours par défaut est créé au premier démarrage)
+function courseIdFor(title: string): string {
+  return slugify(title).slice(0, 48).replace(/-+$/, '') || 'cours';
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function writeJson(file: string, data: unknown) {
+  await writeFile(`${file}.tmp`, JSON.stringify(data, null, 2));
+  await rename(`${file}.tmp`, file);
+}
+
+/**
+ * Espace de travail de la faculté, conservé dans un répertoire du serveur :
+ *  - `courses/<id>.json` : un fichier par cours (contenu, instruction, persona, réglages, grille du cas pratique) ;
+ *  - `accounts.json` : les comptes professeurs et les cours qu'ils peuvent modifier ;
+ *  - `history/<id>/<champ>/` : les versions du contenu et de l'instruction (`index.json` et un fichier texte par version) ;
+ *  - `quote-reports/<id>.json` : les citations du cours que l'IA n'a pas reproduites fidèlement.
+ * Les écritures sont sérialisées et atomiques (fichier temporaire puis renommage).
+ */
+export function createWorkspaceStore(dir: string): WorkspaceStore {
+  const coursesDir = join(dir, 'courses');
+  const accountsFile = join(dir, 'accounts.json');
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+    const next = queue.then(task);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  // Premier démarrage : cours par défaut, en reprenant le fichier unique des versions précédentes s'il existe
+  const ready = (async () => {
+    await mkdir(coursesDir, { recursive: true });
+    if ((await readdir(coursesDir)).some(f => f.endsWith('.json'))) return;
+    const legacy = await readJson<Partial<CourseConfig>>(join(dir, 'course.json'));
+    const course: StoredCourse = {
+      ...legacy,
+      id: DEFAULT_COURSE_ID,
+      title: 'Droit administratif',
+      description: "Le cours de droit administratif général : sources, service public, police, actes et contrats de l'administration."
+    };
+    await writeJson(join(coursesDir, `${DEFAULT_COURSE_ID}.json`), course);
+  })();
+  ready.catch(error => console.error("[workspace] Initialisation de l'espace de travail impossible :", error));
+
+  const readCourse = async (id: string): Promise<StoredCourse | null> => {
+    await ready;
+    if (!isCourseId(id)) return null;
+    return readJson<StoredCourse>(join(coursesDir, `${id}.json`));
+  };
+
+  const listCourses = async (): Promise<CourseSummary[]> => {
+    await ready;
+    const files = (await readdir(coursesDir)).filter(f => f.endsWith('.json'));
+    const courses = await Promise.all(files.map(f => readJson<StoredCourse>(join(coursesDir, f))));
+    return courses
+      .filter((c): c is StoredCourse => c !== null)
+      .map(c => ({
+        id: c.id,
+        title: c.title,
+        description: c.description,
+        professorName: c.persona?.professorName || '',
+        updatedAt: c.updatedAt
+      }))
+      .sort((a, b) => a.title.localeCompare(b.title, 'fr'));
+  };
+
+  const createCourse = ({ title, description = '' }: { title: string; description?: string }) => serialized(async () => {
+    await ready;
+    const base = courseIdFor(title);
+    let id = base;
+    for (let n = 2; await readJson(join(coursesDir, `${id}.json`)); n++) id = `${base}-${n}`;
+    const course: StoredCourse = { id, title, description, updatedAt: new Date().toISOString() };
+    await writeJson(join(coursesDir, `${id}.json`), course);
+    return course;
+  });
+
+  const historyDir = (id: string, field: VersionedField) => join(dir, 'history', id, field);
+
+  const listVersions = async (id: string, field: VersionedField): Promise<ContentVersion[]> => {
+    if (!isCourseId(id)) return [];
+    return (await readJson<ContentVersion[]>(join(historyDir(id, field), 'index.json'))) || [];
+  };
+
+  const readVersion = async (id: string, field: VersionedField, versionId: string): Promise<string | null> => {
+    if (!isCourseId(id) || !VERSION_ID_RE.test(versionId)) return null;
+    try {
+      return await readFile(join(historyDir(id, field), `${versionId}.txt`), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const appendVersion = async (id: string, field: VersionedField, text: string, author: string, message: string) => {
+    const folder = historyDir(id, field);
+    await mkdir(folder, { recursive: true });
+    const versions = await listVersions(id, field);
+
+    // Enregistrement automatique : il remplace la dernière version s'il la prolonge (même auteur, sans note, période en cours).
+    // Les versions annotées et les restaurations ne sont jamais remplacées.
+    const last = versions[0];
+    if (!message && last && !last.message && last.author === author
+        && Date.now() - new Date(last.createdAt).getTime() < AUTOSAVE_MERGE_WINDOW_MS) {
+      await writeFile(join(folder, `${last.id}.txt`), text);
+      await writeJson(join(folder, 'index.json'), [{ ...last, updatedAt: new Date().toISOString(), length: text.length }, ...versions.slice(1)]);
+      return;
+    }
+
+    const version: ContentVersion = {
+      id: `${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`,
+      author,
+      createdAt: new Date().toISOString(),
+      message,
+      length: text.length
+    };
+    await writeFile(join(folder, `${version.id}.txt`), text);
+    const kept = [version, ...versions];
+    await Promise.all(kept.slice(MAX_VERSIONS).map(v => rm(join(folder, `${v.id}.txt`), { force: true })));
+    await writeJson(join(folder, 'index.json'), kept.slice(0, MAX_VERSIONS));
+  };
+
+  const updateCourse = (
+    id: string,
+    patch: Partial<CourseConfig> & { title?: string; description?: string },
+    version?: { author: string; message?: string }
+  ) => serialized(async () => {
+    const current = await readCourse(id);
+    if (!current) return null;
+
+    // Chaque enregistrement d'un texte modifié (ou annoté) crée une version, ou prolonge la dernière (voir appendVersion) ;
+    // la première conserve aussi le texte d'avant l'historique.
+    if (version) {
+      for (const field of VERSIONED_FIELDS) {
+        const next = patch[field];
+        const previous = effectiveText(current, field);
+        if (typeof next !== 'string' || (next === previous && !version.message?.trim())) continue;
+        if (previous && next !== previous && (await listVersions(id, field)).length === 0) {
+          await appendVersion(id, field, previous, '', "Version antérieure à l'historique");
+        }
+        await appendVersion(id, field, next, version.author, version.message?.trim() || '');
+      }
+    }
+
+    const updated: StoredCourse = { ...current, updatedAt: new Date().toISOString() };
+    if (typeof patch.title === 'string' && patch.title.trim()) updated.title = patch.title.trim();
+    if (typeof patch.description === 'string') updated.description = patch.description;
+    COURSE_KEYS.forEach(key => {
+      if (patch[key] !== undefined) (updated as Record<string, unknown>)[key] = patch[key];
+    });
+    await writeJson(join(coursesDir, `${id}.json`), updated);
+    return updated;
+  });
+
+  const quoteReportsFile = (id: string) => join(dir, 'quote-reports', `${id}.json`);
+
+  const listQuoteReports = async (id: string): Promise<QuoteReport[]> => {
+    if (!isCourseId(id)) return [];
+    return (await readJson<QuoteReport[]>(quoteReportsFile(id))) || [];
+  };
+
+  const appendQuoteReport = (id: string, report: Omit<QuoteReport, 'id' | 'createdAt'>) => serialized(async () => {
+    await mkdir(join(dir, 'quote-reports'), { recursive: true });
+    const stored: QuoteReport = {
+      id: `${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`,
+      createdAt: new Date().toISOString(),
+      ...report
+    };
+    await writeJson(quoteReportsFile(id), [stored, ...await listQuoteReports(id)].slice(0, MAX_QUOTE_REPORTS));
+    return stored;
+  });
+
+  const clearQuoteReports = (id: string) => serialized(async () => {
+    if (!isCourseId(id)) return;
+    await rm(quoteReportsFile(id), { force: true });
+  });
+
+  const listAccounts = async () => (await readJson<StoredAccount[]>(accountsFile)) || [];
+
+  const updateAccounts = (change: (accounts: StoredAccount[]) => StoredAccount[]) => serialized(async () => {
+    const accounts = change(await listAccounts());
+    await mkdir(dir, { recursive: true });
+    await writeJson(accountsFile, accounts);
+  });
+
+  return {
+    listCourses, readCourse, createCourse, updateCourse, listVersions, readVersion,
+    listQuoteReports, appendQuoteReport, clearQuoteReports, listAccounts, updateAccounts
+  };
+}
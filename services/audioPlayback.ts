@@ -0,0 +1,102 @@
+import { base64ToFloat32 } from './audioUtils';
+
+// --- LECTURE DES RÉPONSES VOCALES ---
+
+/** Fréquence de l'audio renvoyé par l'API Live (PCM 16 bits mono). */
+const OUTPUT_RATE = 24000;
+/** Marge avant le premier morceau d'une réponse, pour absorber la gigue du réseau. */
+const START_DELAY_S = 0.05;
+/** Durée des fondus d'entrée et de sortie : assez courte pour être inaudible, assez longue pour éviter les clics. */
+const FADE_S = 0.02;
+
+export interface PlaybackScheduler {
+  /** Programme un morceau à la suite des précédents. */
+  enqueue: (base64Pcm: string) => void;
+  /** Coupe immédiatement tout ce qui est en cours ou programmé (l'étudiant a pris la parole). */
+  interrupt: () => void;
+  /** Arrête la lecture sans fondu, avant la fermeture du contexte audio. */
+  close: () => void;
+}
+
+/**
+ * Ordonnanceur de lecture : les morceaux reçus sont enchaînés sans blanc, et chaque source programmée est suivie
+ * pour pouvoir être arrêtée à l'interruption. Chaque réponse a son propre gain : la réponse interrompue s'éteint
+ * en fondu pendant que la suivante, s'il y en a une, entre en fondu (fondu enchaîné, sans clic).
+ */
+export function createPlaybackScheduler(ctx: AudioContext, onSpeakingChange: (speaking: boolean) => void): PlaybackScheduler {
+  const sources = new Set<AudioBufferSourceNode>();
+  let segment: GainNode | null = null;   // gain de la réponse en cours
+  let nextStartTime = 0;
+  let speaking = false;
+
+  const setSpeaking = (value: boolean) => {
+    if (value === speaking) return;
+    speaking = value;
+    onSpeakingChange(value);
+  };
+
+  const enqueue = (base64Pcm: string) => {
+    const samples = base64ToFloat32(base64Pcm);
+    if (samples.length === 0) return;
+    const buffer = ctx.createBuffer(1, samples.length, OUTPUT_RATE);
+    buffer.getChannelData(0).set(samples);
+
+    const now = ctx.currentTime;
+    if (nextStartTime < now) nextStartTime = now + START_DELAY_S;
+    if (!segment) {
+      segment = ctx.createGain();
+      segment.gain.setValueAtTime(0, nextStartTime);
+      segment.gain.linearRampToValueAtTime(1, nextStartTime + FADE_S);
+      segment.connect(ctx.destination);
+    }
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(segment);
+    source.onended = () => {
+      sources.delete(source);
+      if (sources.size === 0) {
+        // Fin de la réponse : la suivante repartira d'un fondu d'entrée
+        segment?.disconnect();
+        segment = null;
+        setSpeaking(false);
+      }
+    };
+    source.start(nextStartTime);
+    nextStartTime += buffer.duration;
+    sources.add(source);
+    setSpeaking(true);
+  };
+
+  const stopAll = (at: number) => {
+    sources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop(at);
+      } catch { /* déjà arrêtée */ }
+    });
+    sources.clear();
+    nextStartTime = 0;
+    setSpeaking(false);
+  };
+
+  const interrupt = () => {
+    if (!segment) return;
+    const fading = segment;
+    const now = ctx.currentTime;
+    fading.gain.cancelScheduledValues(now);
+    fading.gain.setValueAtTime(fading.gain.value, now);
+    fading.gain.linearRampToValueAtTime(0, now + FADE_S);
+    segment = null;
+    stopAll(now + FADE_S);
+    setTimeout(() => fading.disconnect(), (FADE_S * 1000) + 50);
+  };
+
+  const close = () => {
+    stopAll(0);
+    segment?.disconnect();
+    segment = null;
+  };
+
+  return { enqueue, interrupt, close };
+}
@@ -67,3 +67,113 @@ export function downsampleBuffer(buffer: Float32Array, inputRate: number, target
   
   return result;
 }
+
+/**
+ * Rééchantillonneur continu, pour un flux découpé en petits blocs (128 échantillons dans un AudioWorklet).
+ * Contrairement à downsampleBuffer, la position fractionnaire et la moyenne en cours sont conservées
+ * d'un bloc à l'autre : pas de dérive quand le rapport n'est pas entier (44,1 kHz → 16 kHz).
+ */
+export function createDownsampler(inputRate: number, targetRate: number): (input: Float32Array) => Float32Array {
+  const ratio = inputRate / targetRate;
+  if (ratio <= 1) return (input) => input.slice();
+
+  let consumed = 0;        // échantillons d'entrée depuis la dernière sortie, reliquat fractionnaire compris
+  let accum = 0;
+  let count = 0;
+
+  return (input) => {
+    const output = new Float32Array(Math.ceil(input.length / ratio) + 1);
+    let written = 0;
+    for (let i = 0; i < input.length; i++) {
+      // Moyenne simple sur la fenêtre de chaque échantillon de sortie, pour limiter le crénelage
+      accum += input[i];
+      count++;
+      consumed++;
+      if (consumed >= ratio) {
+        output[written++] = accum / count;
+        accum = 0;
+        count = 0;
+        consumed -= ratio;
+      }
+    }
+    return output.subarray(0, written);
+  };
+}
+
+/** Nom sous lequel le module pcmCaptureWorklet enregistre son processeur. */
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture';
+
+/** Gain appliqué au niveau RMS pour que la voix parlée occupe la plage du volumètre. */
+const LEVEL_GAIN = 5;
+
+/**
+ * Niveau sonore d'un bloc (RMS), ramené entre 0 et 1 pour le volumètre.
+ */
+export function levelOf(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.min(1, Math.sqrt(sum / samples.length) * LEVEL_GAIN);
+}
+
+/**
+ * Décode un morceau audio reçu (PCM 16 bits little-endian en Base64) en échantillons Float32 entre -1 et 1.
+ */
+export function base64ToFloat32(base64Pcm: string): Float32Array {
+  const binary = atob(base64Pcm);
+  const samples = new Float32Array(Math.floor(binary.length / 2));
+  for (let i = 0; i < samples.length; i++) {
+    let value = binary.charCodeAt(2 * i) | (binary.charCodeAt(2 * i + 1) << 8);
+    if (value >= 0x8000) value -= 0x10000;
+    samples[i] = value / 0x8000;
+  }
+  return samples;
+}
+
+/** Niveau (échelle de levelOf) à partir duquel la porte s'ouvre, et en dessous duquel elle commence à se refermer. */
+const GATE_OPEN_LEVEL = 0.15;
+const GATE_CLOSE_LEVEL = 0.08;
+/** Durée de parole nécessaire pour ouvrir : un bruit bref (toux, porte, chaise) ne déclenche pas de tour. */
+const GATE_ATTACK_MS = 200;
+/** Silence toléré avant de refermer : les pauses entre les mots ne coupent pas la phrase. */
+const GATE_HANGOVER_MS = 700;
+
+export interface VoiceGate {
+  /** Prend en compte un morceau de niveau donné ; renvoie 'open' ou 'close' quand l'état de la porte change. */
+  update: (level: number, durationMs: number) => 'open' | 'close' | null;
+  isOpen: () => boolean;
+  reset: () => void;
+}
+
+/**
+ * Détection d'activité vocale côté client, sur le niveau du micro : seuils avec hystérésis,
+ * temps d'attaque et temps de maintien, pour ne transmettre que la parole dans un lieu bruyant.
+ */
+export function createVoiceGate(): VoiceGate {
+  let open = false;
+  let loudMs = 0;
+  let quietMs = 0;
+
+  const update = (level: number, durationMs: number): 'open' | 'close' | null => {
+    if (!open) {
+      loudMs = level >= GATE_OPEN_LEVEL ? loudMs + durationMs : 0;
+      if (loudMs < GATE_ATTACK_MS) return null;
+      open = true;
+      quietMs = 0;
+      return 'open';
+    }
+    quietMs = level < GATE_CLOSE_LEVEL ? quietMs + durationMs : 0;
+    if (quietMs < GATE_HANGOVER_MS) return null;
+    open = false;
+    loudMs = 0;
+    return 'close';
+  };
+
+  const reset = () => {
+    open = false;
+    loudMs = 0;
+    quietMs = 0;
+  };
+
+  return { update, isOpen: () => open, reset };
+}
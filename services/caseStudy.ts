@@ -0,0 +1,226 @@
+import { CaseAnswer, CaseGrade, CaseStudy, CourseContext, CourseNode, RubricCriterion } from '../types';
+import { ResponseSchema } from './llmProvider';
+import { getNodePath } from './courseParser';
+
+// --- CAS PRATIQUE (énoncé tiré d'une section, correction selon la grille du professeur) ---
+
+/** Grille proposée par défaut : le syllogisme juridique attendu en travaux dirigés, noté sur 20. */
+export const DEFAULT_CASE_RUBRIC: RubricCriterion[] = [
+  {
+    id: 'problematique',
+    label: 'Problématique',
+    description: 'Qualifie juridiquement les faits et formule la question de droit sous forme interrogative, sans se contenter de reprendre la question posée.',
+    points: 4
+  },
+  {
+    id: 'majeure',
+    label: 'Majeure',
+    description: 'Expose les règles, définitions et arrêts du cours applicables, cités exactement, sans hors-sujet.',
+    points: 6
+  },
+  {
+    id: 'mineure',
+    label: 'Mineure',
+    description: "Applique chaque règle aux faits de l'espèce, condition par condition, en envisageant les arguments contraires.",
+    points: 6
+  },
+  {
+    id: 'conclusion',
+    label: 'Conclusion',
+    description: 'Répond clairement à la question posée, en cohérence avec la mineure.',
+    points: 2
+  },
+  {
+    id: 'redaction',
+    label: 'Rédaction',
+    description: 'Vocabulaire juridique précis, raisonnement ordonné, expression correcte.',
+    points: 2
+  }
+];
+
+/** Étapes de la réponse de l'étudiant, dans l'ordre du syllogisme. */
+export const ANSWER_STEPS: { field: keyof CaseAnswer; label: string; hint: string }[] = [
+  { field: 'problematique', label: 'Problématique', hint: 'Qualifiez les faits et posez la question de droit.' },
+  { field: 'majeure', label: 'Majeure', hint: 'Énoncez les règles et la jurisprudence du cours applicables.' },
+  { field: 'mineure', label: 'Mineure', hint: 'Appliquez ces règles aux faits, condition par condition.' },
+  { field: 'conclusion', label: 'Conclusion', hint: 'Répondez à la question posée.' }
+];
+
+export const EMPTY_CASE_ANSWER: CaseAnswer = { problematique: '', majeure: '', mineure: '', conclusion: '' };
+
+/** Taille maximale de la section envoyée au modèle (≈ 4 caractères par token). */
+const MAX_SECTION_TOKENS = 8000;
+export const MAX_CRITERIA = 12;
+
+/**
+ * Erreur levée quand la réponse du modèle n'est pas un énoncé ou une correction exploitable.
+ */
+export class CaseStudyFormatError extends Error {}
+
+/** Parties du cours dont peut être tiré un cas pratique : les sections, à défaut les chapitres. */
+export function caseSections(course: CourseContext): CourseNode[] {
+  const { headings } = course.structure;
+  const sections = headings.filter(h => h.kind === 'section' && h.title);
+  return sections.length > 0 ? sections : headings.filter(h => h.kind === 'chapter' && h.title);
+}
+
+export function sectionPath(course: CourseContext, node: CourseNode): string {
+  return getNodePath(course.structure, node.id).map(n => n.label).join(' › ');
+}
+
+/** Texte de la section qui sert de source unique à l'énoncé et à la correction. */
+function sectionBlock(course: CourseContext, section: CaseStudy['section']): string {
+  const node = course.structure.headings.find(h => h.id === section.nodeId);
+  let text = node ? course.content.slice(node.start, node.end).trim() : '';
+  if (text.length > MAX_SECTION_TOKENS * 4) text = `${text.slice(0, MAX_SECTION_TOKENS * 4)}\n[…]`;
+  return `EXTRAIT DU COURS (Source Unique de Vérité — section sur laquelle porte le cas pratique) :\n${section.path} – ${section.title}\n${text}`;
+}
+
+function readJson(json: string): Record<string, unknown> {
+  try {
+    const data = JSON.parse(json.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    return data && typeof data === 'object' ? data : {};
+  } catch {
+    throw new CaseStudyFormatError('La réponse reçue est illisible.');
+  }
+}
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// --- ÉNONCÉ ---
+
+export const CASE_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    title: { type: 'STRING', description: 'Titre court du cas pratique.' },
+    facts: { type: 'STRING', description: "Exposé des faits, réaliste et précis, en plusieurs paragraphes, sans indice sur la solution." },
+    question: { type: 'STRING', description: "Question posée à l'étudiant." },
+    expectedIssues: {
+      type: 'ARRAY',
+      items: { type: 'STRING' },
+      description: "Points qu'une bonne réponse doit traiter : qualification, règles et arrêts du cours, application attendue."
+    }
+  },
+  required: ['title', 'facts', 'question', 'expectedIssues'],
+  propertyOrdering: ['title', 'facts', 'question', 'expectedIssues']
+};
+
+export const CASE_INSTRUCTION = `CAS PRATIQUE : Rédige un cas pratique de travaux dirigés et réponds uniquement par l'objet JSON demandé, sans texte autour.
+- Les faits mettent en scène des personnes et des collectivités fictives, et ne se résolvent qu'avec les règles de l'extrait du cours ci-dessous.
+- La question appelle un raisonnement en syllogisme (problématique, majeure, mineure, conclusion) et peut comporter une difficulté d'interprétation.
+- Les éléments attendus citent les définitions et les arrêts du cours exactement.`;
+
+export function caseRequest(course: CourseContext, section: CourseNode): { prompt: string; context: string; section: CaseStudy['section'] } {
+  const target = { nodeId: section.id, path: sectionPath(course, section), title: section.title };
+  return {
+    prompt: `Rédige un cas pratique portant sur « ${target.title} » (${target.path}).`,
+    context: `${CASE_INSTRUCTION}\n\n${sectionBlock(course, target)}`,
+    section: target
+  };
+}
+
+export function parseCaseStudy(json: string, section: CaseStudy['section']): CaseStudy {
+  const data = readJson(json);
+  const facts = asText(data.facts);
+  const question = asText(data.question);
+  if (!facts || !question) throw new CaseStudyFormatError("L'énoncé reçu est incomplet.");
+  return {
+    title: asText(data.title) || section.title,
+    facts,
+    question,
+    expectedIssues: Array.isArray(data.expectedIssues) ? data.expectedIssues.map(asText).filter(Boolean) : [],
+    section
+  };
+}
+
+// --- CORRECTION ---
+
+export function gradeSchema(rubric: RubricCriterion[]): ResponseSchema {
+  return {
+    type: 'OBJECT',
+    properties: {
+      criteria: {
+        type: 'ARRAY',
+        items: {
+          type: 'OBJECT',
+          properties: {
+            criterionId: { type: 'STRING', enum: rubric.map(c => c.id) },
+            score: { type: 'NUMBER', description: 'Points obtenus, par demi-points, entre 0 et le barème du critère.' },
+            comment: { type: 'STRING', description: "Appréciation du critère : ce qui est réussi, ce qui manque, en citant le cours." }
+          },
+          required: ['criterionId', 'score', 'comment'],
+          propertyOrdering: ['criterionId', 'score', 'comment']
+        }
+      },
+      feedback: { type: 'STRING', description: 'Appréciation générale et conseils de méthode, en Markdown.' }
+    },
+    required: ['criteria', 'feedback'],
+    propertyOrdering: ['criteria', 'feedback']
+  };
+}
+
+function gradingInstruction(rubric: RubricCriterion[]): string {
+  const grid = rubric.map(c => `- ${c.id} — ${c.label} (${c.points} pts) : ${c.description}`).join('\n');
+  return `CORRECTION DE CAS PRATIQUE : Corrige la copie de l'étudiant selon la grille du professeur et réponds uniquement par l'objet JSON demandé.
+- Note chaque critère de la grille, une fois chacun, sans dépasser son barème ; la rigueur est celle d'un chargé de travaux dirigés.
+- Ne sanctionne pas une étape pour ce qui relève d'une autre : la majeure s'évalue sur les règles, la mineure sur leur application aux faits.
+- Juge la copie au regard de l'extrait du cours uniquement ; une règle exacte mais absente du cours ne rapporte pas de points.
+- Les commentaires s'adressent à l'étudiant (vouvoiement) et citent les définitions et les arrêts du cours exactement.
+
+GRILLE DE NOTATION :
+${grid}`;
+}
+
+export function gradeRequest(course: CourseContext, caseStudy: CaseStudy, answer: CaseAnswer, rubric: RubricCriterion[]): { prompt: string; context: string } {
+  const copy = ANSWER_STEPS.map(step => `### ${step.label}\n${answer[step.field].trim() || '(non rédigé)'}`).join('\n\n');
+  return {
+    prompt: `ÉNONCÉ : ${caseStudy.title}\n\n${caseStudy.facts}\n\nQUESTION : ${caseStudy.question}\n\nÉLÉMENTS ATTENDUS :\n${caseStudy.expectedIssues.map(i => `- ${i}`).join('\n')}\n\nCOPIE DE L'ÉTUDIANT :\n\n${copy}`,
+    context: `${gradingInstruction(rubric)}\n\n${sectionBlock(course, caseStudy.section)}`
+  };
+}
+
+/**
+ * Lit la correction : chaque critère de la grille reçoit une note bornée à son barème (par demi-points),
+ * un critère oublié par le modèle compte zéro.
+ */
+export function parseCaseGrade(json: string, rubric: RubricCriterion[]): CaseGrade {
+  const data = readJson(json);
+  const graded = Array.isArray(data.criteria) ? data.criteria.slice(0, MAX_CRITERIA * 2) as Record<string, unknown>[] : [];
+  if (graded.length === 0) throw new CaseStudyFormatError('La correction reçue ne note aucun critère.');
+
+  const criteria = rubric.map(criterion => {
+    const entry = graded.find(g => g && g.criterionId === criterion.id);
+    const raw = Number(entry?.score);
+    const score = Number.isFinite(raw) ? Math.min(criterion.points, Math.max(0, Math.round(raw * 2) / 2)) : 0;
+    return {
+      criterionId: criterion.id,
+      label: criterion.label,
+      score,
+      points: criterion.points,
+      comment: asText(entry?.comment) || "Critère non évalué par la correction."
+    };
+  });
+  return {
+    criteria,
+    total: criteria.reduce((sum, c) => sum + c.score, 0),
+    maxTotal: criteria.reduce((sum, c) => sum + c.points, 0),
+    feedback: asText(data.feedback)
+  };
+}
+
+/**
+ * Grille enregistrée par le professeur, nettoyée : libellés obligatoires, barèmes positifs,
+ * identifiants uniques (ils servent à rattacher les notes du modèle aux critères).
+ */
+export function normalizeRubric(rubric: RubricCriterion[]): RubricCriterion[] {
+  const ids = new Set<string>();
+  return rubric
+    .filter(c => c.label.trim())
+    .slice(0, MAX_CRITERIA)
+    .map((c, i) => {
+      let id = c.id || `critere-${i + 1}`;
+      while (ids.has(id)) id = `${id}-${i + 1}`;
+      ids.add(id);
+      return { id, label: c.label.trim(), description: c.description.trim(), points: Math.max(0.5, Math.round((Number(c.points) || 1) * 2) / 2) };
+    });
+}
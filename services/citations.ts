@@ -0,0 +1,116 @@
+import { ChatMessage, SourceReference } from '../types';
+import { CourseChunk, CourseContextBlock, CourseIndex, rankPassages, tokenize } from './retrieval';
+
+// Nombre maximal de sources déduites a posteriori quand le modèle n'a rien cité.
+const MAX_INFERRED_SOURCES = 3;
+const INFERRED_RELATIVE_SCORE = 0.5;
+const MAX_HIGHLIGHT_LINES = 3;
+
+export const CITATION_INSTRUCTION = `RÉFÉRENCES : Après chaque affirmation tirée des extraits du cours, indique entre crochets le numéro de l'extrait utilisé, par exemple [2] ou [1][3]. N'invente jamais de numéro.`;
+
+const MARKER_RE = /\[(\d{1,2})\]/g;
+
+/**
+ * Numéros d'extraits cités dans la réponse ("[2]", "[1][3]"), dans l'ordre d'apparition.
+ */
+export function extractMarkers(answer: string): number[] {
+  const seen = new Set<number>();
+  for (const m of answer.matchAll(MARKER_RE)) seen.add(Number(m[1]));
+  return [...seen];
+}
+
+/**
+ * Texte d'un message tel qu'il est renvoyé au modèle dans l'historique. Les renvois "[n]" d'une réponse désignent
+ * les extraits de son propre tour, numérotés autrement au tour suivant : ils sont remplacés par la partie du cours
+ * citée, stable d'un tour à l'autre, ou retirés si la réponse ne les a pas rattachés à ses sources.
+ */
+export function historyText(message: ChatMessage): string {
+  if (message.role !== 'model') return message.text;
+  const markers = extractMarkers(message.text);
+  if (markers.length === 0) return message.text;
+  const sources = message.sources || [];
+  // Sources déduites a posteriori : leurs numéros ne correspondent pas aux renvois du texte
+  const byMarker = new Map(sources.every(s => markers.includes(s.marker)) ? sources.map(s => [s.marker, s.path]) : []);
+  return message.text.replace(/ ?((?:\[\d{1,2}\])+)/g, (_, group: string) => {
+    const paths = [...new Set(extractMarkers(group).map(n => byMarker.get(n)).filter((p): p is string => Boolean(p)))];
+    return paths.length > 0 ? ` (cours : ${paths.join(' ; ')})` : '';
+  });
+}
+
+/**
+ * Réduit un passage aux quelques lignes qui recouvrent le mieux la réponse,
+ * pour surligner l'endroit exact du cours plutôt que tout l'extrait.
+ */
+function narrowToBestLines(index: CourseIndex, chunk: CourseChunk, answerTerms: Set<string>): { start: number; end: number } {
+  const lines: { start: number; end: number; score: number }[] = [];
+  let offset = chunk.start;
+  for (const line of chunk.text.split('\n')) {
+    const terms = new Set(tokenize(line));
+    let score = 0;
+    terms.forEach(t => {
+      if (answerTerms.has(t)) score += 1 / Math.log(2 + (index.docFreq.get(t) || 0));
+    });
+    if (line.trim()) lines.push({ start: offset, end: offset + line.length, score });
+    offset += line.length + 1;
+  }
+  if (lines.length === 0) return { start: chunk.start, end: chunk.end };
+
+  let best = 0;
+  lines.forEach((l, i) => { if (l.score > lines[best].score) best = i; });
+  if (lines[best].score === 0) return { start: chunk.start, end: chunk.end };
+
+  // Étend la sélection aux lignes voisines presque aussi pertinentes.
+  let first = best;
+  let last = best;
+  const threshold = lines[best].score / 2;
+  while (last - first + 1 < MAX_HIGHLIGHT_LINES) {
+    const before = first > 0 ? lines[first - 1].score : -1;
+    const after = last < lines.length - 1 ? lines[last + 1].score : -1;
+    if (Math.max(before, after) < threshold) break;
+    if (after >= before) last++;
+    else first--;
+  }
+  return { start: lines[first].start, end: lines[last].end };
+}
+
+function toReference(index: CourseIndex, content: string, chunk: CourseChunk, marker: number, answerTerms: Set<string>): SourceReference {
+  const { start, end } = narrowToBestLines(index, chunk, answerTerms);
+  return { marker, nodeId: chunk.nodeId, path: chunk.path, start, end, excerpt: content.slice(start, end) };
+}
+
+/**
+ * Rattache une réponse du modèle aux passages du cours sur lesquels elle s'appuie.
+ * Utilise les renvois "[n]" du modèle quand il en a fait ; sinon (mode cours complet, ou oubli),
+ * retrouve les passages les plus proches de la réponse dans l'index.
+ */
+export function resolveSources(index: CourseIndex, content: string, block: CourseContextBlock, answer: string): SourceReference[] {
+  const answerTerms = new Set(tokenize(answer));
+
+  if (block.mode === 'retrieval') {
+    const cited = extractMarkers(answer).filter(n => n >= 1 && n <= block.passages.length);
+    if (cited.length > 0) {
+      return cited
+        .sort((a, b) => a - b)
+        .map(n => toReference(index, content, block.passages[n - 1].chunk, n, answerTerms));
+    }
+  }
+
+  const ranked = rankPassages(index, answer);
+  if (ranked.length === 0) return [];
+  const threshold = ranked[0].score * INFERRED_RELATIVE_SCORE;
+  return ranked
+    .filter(p => p.score >= threshold)
+    .slice(0, MAX_INFERRED_SOURCES)
+    .sort((a, b) => a.chunk.start - b.chunk.start)
+    .map((p, i) => toReference(index, content, p.chunk, i + 1, answerTerms));
+}
+
+/**
+ * Position actuelle d'une source dans le cours. Si le cours a été modifié depuis la réponse,
+ * l'extrait est recherché à nouveau ; `null` s'il n'existe plus.
+ */
+export function locateSource(content: string, source: SourceReference): { start: number; end: number } | null {
+  if (content.slice(source.start, source.end) === source.excerpt) return { start: source.start, end: source.end };
+  const found = content.indexOf(source.excerpt);
+  return found === -1 ? null : { start: found, end: found + source.excerpt.length };
+}
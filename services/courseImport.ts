@@ -0,0 +1,424 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// --- IMPORT DE SUPPORTS DE COURS (DOCX, PDF, TEXTE) ---
+
+export type ImportFormat = 'docx' | 'pdf' | 'text';
+
+export interface ImportedCourse {
+  fileName: string;
+  format: ImportFormat;
+  text: string;
+  pageCount: number | null;
+  footnoteCount: number;
+  warnings: string[];
+}
+
+export const IMPORT_ACCEPT = '.txt,.md,.docx,.pdf';
+
+type HeadingKind = 'part' | 'chapter' | 'section' | 'roman' | 'letter' | 'number';
+
+const KIND_ORDER: HeadingKind[] = ['part', 'chapter', 'section', 'roman', 'letter', 'number'];
+const PART_ORDINALS = ['PREMIÈRE', 'DEUXIÈME', 'TROISIÈME', 'QUATRIÈME', 'CINQUIÈME'];
+
+interface Heading {
+  kind: HeadingKind;
+  value: number;       // rang dans son niveau (I → 1, B → 2...), 0 si inconnu
+  line: string;        // titre réécrit selon les conventions du cours ("CHAPITRE I – ...")
+}
+
+// --- TITRES ---
+
+function toRoman(n: number): string {
+  const numerals: [number, string][] = [[50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+  let result = '';
+  for (const [value, symbol] of numerals) {
+    while (n >= value) {
+      result += symbol;
+      n -= value;
+    }
+  }
+  return result;
+}
+
+function fromRoman(roman: string): number {
+  const values: Record<string, number> = { I: 1, V: 5, X: 10, L: 50 };
+  let total = 0;
+  for (let i = 0; i < roman.length; i++) {
+    const v = values[roman[i]];
+    total += v < (values[roman[i + 1]] || 0) ? -v : v;
+  }
+  return total;
+}
+
+function formatHeading(kind: HeadingKind, value: number, title: string): string {
+  switch (kind) {
+    case 'part': return `${PART_ORDINALS[value - 1] || `${value}E`} PARTIE : ${title}`;
+    case 'chapter': return `CHAPITRE ${toRoman(value)} – ${title}`;
+    case 'section': return `SECTION ${toRoman(value)} – ${title}`;
+    case 'roman': return `${toRoman(value)} – ${title}`;
+    case 'letter': return `${String.fromCharCode(64 + value)} – ${title}`;
+    case 'number': return `${value} – ${title}`;
+  }
+}
+
+const PART_RE = /^(première|deuxième|seconde|troisième|quatrième|cinquième)\s+partie\s*[:.–-]?\s*(.*)$/i;
+const KEYWORD_RE = /^(chapitre|section)\s+([ivxl]+|\d+)\b\s*[:.)–-]?\s*(.*)$/i;
+// Séparateur obligatoire : "I – Titre", "A. Titre", "1) Titre"
+const ROMAN_RE = /^([IVX]+)\s*[.)–-]\s+(.+)$/;
+const LETTER_RE = /^([A-H])\s*[.)–-]\s+(.+)$/;
+const NUMBER_RE = /^(\d{1,2})\s*[.)–-]\s+(.+)$/;
+
+/**
+ * Reconnaît un titre numéroté et le réécrit selon les conventions de courseParser
+ * ("PREMIÈRE PARTIE : ...", "CHAPITRE I – ...", "A – ..."). `strict` : seuls les mots-clés
+ * (PARTIE, CHAPITRE, SECTION) et le tiret sont acceptés, pour ne pas prendre une liste "1." pour un titre.
+ */
+function recognizeHeading(text: string, strict: boolean): Heading | null {
+  const line = text.replace(/\s+/g, ' ').trim();
+  let m = line.match(PART_RE);
+  if (m) {
+    const ordinal = m[1].toUpperCase() === 'SECONDE' ? 2 : PART_ORDINALS.indexOf(m[1].toUpperCase()) + 1;
+    return { kind: 'part', value: ordinal, line: `${m[1].toUpperCase()} PARTIE : ${m[2]}`.trim() };
+  }
+  m = line.match(KEYWORD_RE);
+  if (m) {
+    const kind = m[1].toLowerCase() === 'chapitre' ? 'chapter' : 'section';
+    const label = m[2].toUpperCase();
+    const value = /^\d+$/.test(label) ? Number(label) : fromRoman(label);
+    return { kind, value, line: `${m[1].toUpperCase()} ${label}${m[3] ? ` – ${m[3]}` : ''}` };
+  }
+  const separator = strict ? /^\S+\s*[–-]\s/ : /./;
+  if (!separator.test(line) || line.length > 200) return null;
+  if ((m = line.match(ROMAN_RE))) return { kind: 'roman', value: fromRoman(m[1]), line: `${m[1]} – ${m[2]}` };
+  if ((m = line.match(LETTER_RE))) return { kind: 'letter', value: m[1].charCodeAt(0) - 64, line: `${m[1]} – ${m[2]}` };
+  if ((m = line.match(NUMBER_RE))) return { kind: 'number', value: Number(m[1]), line: `${m[1]} – ${m[2]}` };
+  return null;
+}
+
+// Un titre réduit à son numéro ("CHAPITRE II") est suivi de son intitulé sur la ligne suivante.
+const isBareLabel = (heading: Heading) => /^(?:CHAPITRE|SECTION)\s+\S+$|PARTIE :$/.test(heading.line);
+
+// L'indentation des éléments de liste est conservée
+const normalizeParagraph = (text: string) =>
+  text.match(/^ */)![0] +
+  text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\*?\s*d[ée]finition\s*:\s*/i, 'Définition : ');
+
+// --- DOCX ---
+
+interface DocxBlock {
+  kind: 'heading' | 'paragraph';
+  level: number;       // niveau de titre Word (1 à 6), 0 pour un paragraphe
+  text: string;
+  notes: string[];     // notes de bas de page appelées dans le bloc, déjà numérotées "[n] ..."
+}
+
+/**
+ * Numérote les titres Word dépourvus de numéro (numérotation automatique de Word, perdue à l'import).
+ * Chaque niveau de titre reprend le type des titres numérotés du même niveau ; à défaut, il se place
+ * entre ses voisins (ou dans l'ordre CHAPITRE, SECTION, I, A, 1 si aucun titre n'est numéroté).
+ * Un titre unique en tête de document est le titre du cours : il reste une simple ligne.
+ */
+function numberDocxHeadings(blocks: DocxBlock[], warnings: string[]): string[] {
+  const headings = blocks.filter(b => b.kind === 'heading');
+  const levelKinds = new Map<number, HeadingKind>();
+  headings.forEach(b => {
+    const recognized = recognizeHeading(b.text, false);
+    if (recognized && !levelKinds.has(b.level)) levelKinds.set(b.level, recognized.kind);
+  });
+  const titleBlock = blocks[0]?.kind === 'heading' && !levelKinds.has(blocks[0].level) &&
+    headings.filter(b => b.level === blocks[0].level).length === 1 ? blocks[0] : null;
+
+  const levels = [...new Set(headings.filter(b => b !== titleBlock).map(b => b.level))].sort((a, b) => a - b);
+  levels.forEach((level, i) => {
+    if (levelKinds.has(level)) return;
+    const shallower = levels.slice(0, i).map(l => levelKinds.get(l)).filter(Boolean).pop();
+    const deeper = levels.slice(i + 1).map(l => levelKinds.get(l)).find(Boolean);
+    const index = shallower ? KIND_ORDER.indexOf(shallower) + 1
+      : deeper ? KIND_ORDER.indexOf(deeper) - 1
+      : KIND_ORDER.indexOf('chapter');
+    levelKinds.set(level, KIND_ORDER[Math.min(Math.max(index, 0), KIND_ORDER.length - 1)]);
+  });
+
+  const counters = new Map<HeadingKind, number>();
+  const resetBelow = (kind: HeadingKind) => KIND_ORDER.slice(KIND_ORDER.indexOf(kind) + 1).forEach(k => counters.delete(k));
+  let numbered = 0;
+  let pendingLabel: string | null = null;
+  const lines: string[] = [];
+
+  blocks.forEach(block => {
+    if (block === titleBlock) {
+      lines.push(block.text.replace(/\s+/g, ' ').trim());
+      return;
+    }
+    const text = pendingLabel ? `${pendingLabel} ${block.text}` : block.text;
+    const isHeading = block.kind === 'heading' || pendingLabel !== null;
+    pendingLabel = null;
+
+    if (!isHeading) {
+      if (text) lines.push(normalizeParagraph(text), ...block.notes);
+      return;
+    }
+    let heading = recognizeHeading(text, false);
+    if (heading && isBareLabel(heading)) {
+      pendingLabel = heading.line.replace(/\s*:$/, ' :');
+      return;
+    }
+    if (!heading) {
+      const kind = levelKinds.get(block.level)!;
+      const value = (counters.get(kind) || 0) + 1;
+      heading = { kind, value, line: formatHeading(kind, value, text.replace(/\s+/g, ' ').trim()) };
+      numbered++;
+    }
+    counters.set(heading.kind, heading.value);
+    resetBelow(heading.kind);
+    lines.push('', heading.line, ...block.notes);
+  });
+
+  if (numbered > 0) {
+    warnings.push(`${numbered} titre${numbered > 1 ? 's' : ''} sans numéro ${numbered > 1 ? 'ont été numérotés' : 'a été numéroté'} d'après ${numbered > 1 ? 'leur' : 'son'} niveau dans Word : vérifiez le plan.`);
+  }
+  return lines;
+}
+
+async function importDocx(buffer: ArrayBuffer, warnings: string[]): Promise<{ text: string; footnoteCount: number }> {
+  const { default: mammoth } = await import('mammoth');
+  const { value: html } = await mammoth.convertToHtml({ arrayBuffer: buffer }, { ignoreEmptyParagraphs: true });
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  // Notes de bas de page et de fin : mammoth les place dans des listes en fin de document
+  const notes = new Map<string, string>();
+  doc.querySelectorAll('li[id^="footnote-"], li[id^="endnote-"]').forEach(li => {
+    li.querySelectorAll('a[href^="#footnote-ref-"], a[href^="#endnote-ref-"]').forEach(a => a.remove());
+    notes.set(li.id, (li.textContent || '').replace(/\s+/g, ' ').trim());
+    li.parentElement?.setAttribute('data-notes', 'true');
+  });
+  doc.querySelectorAll('ol[data-notes]').forEach(ol => ol.remove());
+
+  // Appels de note : "[n]" dans le texte, note recopiée sous le paragraphe
+  const noteNumbers = new Map<string, number>();
+  doc.querySelectorAll('a[href^="#footnote-"], a[href^="#endnote-"]').forEach(a => {
+    const id = a.getAttribute('href')!.slice(1);
+    if (!noteNumbers.has(id)) noteNumbers.set(id, noteNumbers.size + 1);
+    const marker = doc.createElement('span');
+    marker.setAttribute('data-note', id);
+    marker.textContent = `[${noteNumbers.get(id)}]`;
+    (a.closest('sup') || a).replaceWith(marker);
+  });
+  doc.querySelectorAll('br').forEach(br => br.replaceWith(' '));
+
+  const blocks: DocxBlock[] = [];
+  const notesOf = (el: Element) =>
+    [...el.querySelectorAll('span[data-note]')].map(span => {
+      const id = span.getAttribute('data-note')!;
+      return `   [${noteNumbers.get(id)}] ${notes.get(id) || ''}`;
+    });
+  const addParagraph = (el: Element, text: string) =>
+    blocks.push({ kind: 'paragraph', level: 0, text, notes: notesOf(el) });
+
+  const walkList = (list: Element, depth: number) => {
+    [...list.children].forEach((li, index) => {
+      const nested = [...li.children].filter(c => c.tagName === 'OL' || c.tagName === 'UL');
+      nested.forEach(n => n.remove());
+      const bullet = list.tagName === 'OL' ? `${index + 1}.` : '-';
+      addParagraph(li, `${'  '.repeat(depth + 1)}${bullet} ${(li.textContent || '').trim()}`);
+      nested.forEach(n => walkList(n, depth + 1));
+    });
+  };
+
+  [...doc.body.children].forEach(el => {
+    const heading = el.tagName.match(/^H([1-6])$/);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: Number(heading[1]), text: (el.textContent || '').trim(), notes: notesOf(el) });
+    } else if (el.tagName === 'OL' || el.tagName === 'UL') {
+      walkList(el, 0);
+    } else if (el.tagName === 'TABLE') {
+      el.querySelectorAll('tr').forEach(tr => {
+        addParagraph(tr, [...tr.children].map(cell => (cell.textContent || '').replace(/\s+/g, ' ').trim()).join(' | '));
+      });
+    } else {
+      addParagraph(el, (el.textContent || '').trim());
+    }
+  });
+
+  return { text: numberDocxHeadings(blocks, warnings).join('\n').trim(), footnoteCount: noteNumbers.size };
+}
+
+// --- PDF ---
+
+interface PdfLine {
+  text: string;
+  x: number;
+  y: number;           // ligne de base (origine en bas de page)
+  size: number;        // taille de police dominante
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+/**
+ * Regroupe les fragments de texte d'une page en lignes. Les petits nombres surélevés
+ * (appels de note) deviennent "[n]".
+ */
+function groupLines(items: TextItem[]): PdfLine[] {
+  const fragments = items
+    .filter(item => item.str.trim())
+    .map(item => ({ str: item.str, x: item.transform[4], y: item.transform[5], width: item.width, size: item.height || Math.hypot(item.transform[2], item.transform[3]) }))
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const groups: (typeof fragments)[] = [];
+  fragments.forEach(fragment => {
+    const group = groups.find(g => Math.abs(g[0].y - fragment.y) <= Math.max(g[0].size, fragment.size) * 0.6);
+    if (group) group.push(fragment);
+    else groups.push([fragment]);
+  });
+
+  return groups.map(group => {
+    group.sort((a, b) => a.x - b.x);
+    const size = median(group.map(f => f.size));
+    const baseline = median(group.filter(f => f.size >= size * 0.95).map(f => f.y));
+    let text = '';
+    let end = -Infinity;
+    group.forEach(f => {
+      const isNoteCall = f.size < size * 0.8 && f.y > baseline + size * 0.15 && /^\d{1,3}$/.test(f.str.trim());
+      const str = isNoteCall ? `[${f.str.trim()}]` : f.str;
+      if (text && !isNoteCall && f.x - end > size * 0.15 && !/\s$/.test(text) && !/^\s/.test(str)) text += ' ';
+      text += str;
+      end = f.x + f.width;
+    });
+    return { text: text.replace(/\s+/g, ' ').trim(), x: group[0].x, y: baseline, size };
+  });
+}
+
+// Clé d'un en-tête ou pied de page courant : chiffres ignorés (numéros de page)
+const runningKey = (text: string) => text.replace(/\d+/g, '#').toLowerCase();
+
+async function importPdf(buffer: ArrayBuffer, warnings: string[]): Promise<{ text: string; footnoteCount: number; pageCount: number }> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise;
+
+  const pages: PdfLine[][] = [];
+  for (let p = 1; p <= pdf.numPages; p++) {
+    const page = await pdf.getPage(p);
+    const content = await page.getTextContent();
+    pages.push(groupLines(content.items.filter((item): item is TextItem => 'str' in item)));
+    page.cleanup();
+  }
+  await pdf.destroy();
+
+  const allLines = pages.flat();
+  if (allLines.length === 0) {
+    throw new Error("Ce PDF ne contient pas de texte sélectionnable (document numérisé ?). Importez la version Word du cours.");
+  }
+
+  // En-têtes et pieds de page : première ou dernière ligne répétée sur au moins la moitié des pages
+  const edgeCounts = new Map<string, number>();
+  pages.forEach(lines => {
+    new Set([lines[0], lines[lines.length - 1]].filter(Boolean).map(l => runningKey(l.text))).forEach(key => {
+      edgeCounts.set(key, (edgeCounts.get(key) || 0) + 1);
+    });
+  });
+  const isRunning = (line: PdfLine, index: number, lines: PdfLine[]) =>
+    (index === 0 || index === lines.length - 1) &&
+    (/^(?:page\s*)?\d+(?:\s*\/\s*\d+)?$/i.test(line.text) || (pages.length >= 3 && (edgeCounts.get(runningKey(line.text)) || 0) >= pages.length / 2));
+
+  const bodySize = median(allLines.filter(l => l.text.length > 40).map(l => l.size)) || median(allLines.map(l => l.size));
+  const output: string[] = [];
+  let footnoteCount = 0;
+  let paragraph = '';
+  let previous: PdfLine | null = null;
+
+  const flush = () => {
+    if (paragraph) output.push(normalizeParagraph(paragraph));
+    paragraph = '';
+  };
+
+  pages.forEach(rawLines => {
+    const lines = rawLines.filter((line, i) => !isRunning(line, i, rawLines));
+    const leftMargin = Math.min(...lines.filter(l => l.size >= bodySize * 0.9).map(l => l.x));
+
+    // Notes : lignes en petits caractères en bas de page, à partir de la première qui commence par un numéro
+    let notesStart = lines.length;
+    for (let i = lines.length - 1; i >= 0 && lines[i].size < bodySize * 0.9; i--) {
+      if (/^\d{1,3}\s?\S/.test(lines[i].text)) notesStart = i;
+    }
+    const notes: string[] = [];
+    lines.slice(notesStart).forEach(line => {
+      const start = line.text.match(/^(\d{1,3})\s?(.*)$/);
+      if (start) {
+        notes.push(`   [${start[1]}] ${start[2]}`);
+        footnoteCount++;
+      } else if (notes.length) {
+        notes[notes.length - 1] += ` ${line.text}`;
+      }
+    });
+
+    lines.slice(0, notesStart).forEach(line => {
+      const heading = recognizeHeading(line.text, line.size < bodySize * 1.1);
+      const isLargeLine = line.size > bodySize * 1.15 && line.text.length < 200;
+      if (heading || isLargeLine) {
+        flush();
+        output.push('', heading ? heading.line : line.text);
+        previous = null;
+        return;
+      }
+      const gap = previous ? previous.y - line.y : 0;
+      const startsBlock =
+        !previous ||
+        gap > line.size * 1.9 ||
+        gap < 0 ||
+        (line.x > leftMargin + bodySize * 1.5 && previous.x <= leftMargin + bodySize * 0.5) ||
+        /^(?:\*?\s*d[ée]finition\b|[-•–]\s|\d+°|\d+\.\s)/i.test(line.text);
+      if (startsBlock) {
+        flush();
+        paragraph = line.text;
+      } else if (/[a-zà-ÿ]-$/.test(paragraph) && /^[a-zà-ÿ]/.test(line.text)) {
+        // Césure en fin de ligne
+        paragraph = paragraph.slice(0, -1) + line.text;
+      } else {
+        paragraph += ` ${line.text}`;
+      }
+      previous = line;
+    });
+    flush();
+    output.push(...notes);
+    previous = null;
+  });
+
+  const text = output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (!/^(?:CHAPITRE|SECTION)\s|PARTIE :/m.test(text)) {
+    warnings.push("Aucun titre PARTIE, CHAPITRE ou SECTION n'a été reconnu : vérifiez le plan dans l'aperçu.");
+  }
+  return { text, footnoteCount, pageCount: pages.length };
+}
+
+// --- POINT D'ENTRÉE ---
+
+/**
+ * Convertit un fichier de cours en texte au format attendu par courseParser, entièrement dans le navigateur.
+ * Les bibliothèques de lecture (mammoth, pdf.js) ne sont chargées qu'au premier import.
+ */
+export async function importCourseFile(file: File): Promise<ImportedCourse> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const warnings: string[] = [];
+
+  if (extension === 'docx') {
+    const { text, footnoteCount } = await importDocx(await file.arrayBuffer(), warnings);
+    return { fileName: file.name, format: 'docx', text, pageCount: null, footnoteCount, warnings };
+  }
+  if (extension === 'pdf') {
+    const { text, footnoteCount, pageCount } = await importPdf(await file.arrayBuffer(), warnings);
+    warnings.push('La mise en page d\'un PDF est reconstituée : relisez les paragraphes et les notes avant de publier.');
+    return { fileName: file.name, format: 'pdf', text, pageCount, footnoteCount, warnings };
+  }
+  if (extension === 'doc') {
+    throw new Error("Le format .doc n'est pas pris en charge : enregistrez le document au format .docx dans Word.");
+  }
+  return { fileName: file.name, format: 'text', text: await file.text(), pageCount: null, footnoteCount: 0, warnings };
+}
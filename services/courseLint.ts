@@ -0,0 +1,447 @@
+import { CourseDefinition, CourseNode, CourseNodeKind, ParsedCourse } from '../types';
+import { findNodeAt, formatNodeLabel, getNodePath, slugify } from './courseParser';
+
+// --- VÉRIFICATION DU COURS (renvois, citations, définitions, numérotation) ---
+
+export type LintCategory = 'reference' | 'citation' | 'definition' | 'numbering';
+
+export interface TextEdit {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+export interface LintFix {
+  label: string;
+  edits: TextEdit[];
+  /** Correctif qui fait perdre du texte : les deux versions sont montrées avant de l'appliquer, et il n'entre pas dans "Tout corriger". */
+  review?: { kept: string; replaced: string };
+}
+
+export interface LintIssue {
+  id: string;
+  category: LintCategory;
+  severity: 'warning' | 'info';
+  message: string;
+  line: number;        // ligne (à partir de 0) du passage signalé
+  from: number;
+  to: number;
+  fix?: LintFix;
+}
+
+export const LINT_CATEGORY_LABELS: Record<LintCategory, string> = {
+  reference: 'Renvois',
+  citation: 'Citations',
+  definition: 'Définitions',
+  numbering: 'Numérotation'
+};
+
+function lineOf(text: string, offset: number): number {
+  let line = 0;
+  for (let i = text.indexOf('\n'); i !== -1 && i < offset; i = text.indexOf('\n', i + 1)) line++;
+  return line;
+}
+
+// --- RENVOIS "Voir ..., page N" ---
+
+const REFERENCE_RE = /\b[Vv]oir\s+([^.;:\n()]{0,60}?)(\s*,?\s*(?:à la |de la |en )?pages?\s+(\d+))/gu;
+const TOC_ENTRY_RE = /^\s*(.+?)\t\s*(\d+)\s*$/gmu;
+const REFERENCE_NOISE_RE = /\b(?:supra|infra|ci-dessus|ci-dessous|plus haut|plus loin)\b/giu;
+const LABEL_TOKEN_RE = /^(?:[IVX]+|[A-Ha-h]|\d+)$/u;
+
+/**
+ * Retrouve le titre désigné par un renvoi du type "Voir II" ou "Voir I – A" :
+ * le premier libellé est cherché parmi les frères du passage et de ses ancêtres, du plus proche au plus lointain.
+ */
+function resolveLabelPath(course: ParsedCourse, nodeId: string, tokens: string[]): CourseNode | null {
+  const scopes = [course.root, ...getNodePath(course, nodeId)].reverse();
+  for (const scope of scopes) {
+    const parent = scope.parentId ? course.headings.find(h => h.id === scope.parentId) || course.root : course.root;
+    let candidate = parent.children.find(c => c.label === tokens[0]) || scope.children.find(c => c.label === tokens[0]);
+    for (const token of tokens.slice(1)) {
+      candidate = candidate?.children.find(c => c.label === token);
+    }
+    if (candidate) return candidate;
+  }
+  return null;
+}
+
+function lintReferences(text: string, course: ParsedCourse): LintIssue[] {
+  const tocPages = new Set<number>();
+  for (const m of text.matchAll(TOC_ENTRY_RE)) tocPages.add(Number(m[2]));
+
+  const issues: LintIssue[] = [];
+  for (const m of text.matchAll(REFERENCE_RE)) {
+    const [full, target, pagePart, page] = m;
+    const start = m.index!;
+    const pageStart = start + full.length - pagePart.length;
+    const cleaned = target.replace(REFERENCE_NOISE_RE, '');
+    const tokens = cleaned.split(/[\s,–-]+/).filter(Boolean);
+    const heading = tokens.length > 0 && tokens.every(t => LABEL_TOKEN_RE.test(t))
+      ? resolveLabelPath(course, findNodeAt(course, start).id, tokens)
+      : null;
+
+    if (heading) {
+      // Le titre est connu : le numéro de page du document d'origine peut être remplacé par son intitulé.
+      issues.push({
+        id: `reference-${start}`,
+        category: 'reference',
+        severity: 'info',
+        message: `Renvoi à la page ${page} du document d'origine : le titre « ${formatNodeLabel(heading)} » est plus utile aux étudiants.`,
+        line: lineOf(text, start),
+        from: start,
+        to: start + full.length,
+        fix: { label: 'Citer le titre', edits: [{ from: start, to: start + full.length, insert: `Voir ${formatNodeLabel(heading)}` }] }
+      });
+      continue;
+    }
+    if (tocPages.has(Number(page))) continue;
+
+    const hasTarget = tokens.length > 0 || cleaned !== target;
+    issues.push({
+      id: `reference-${start}`,
+      category: 'reference',
+      severity: 'warning',
+      message: `Renvoi sans destination : la page ${page} ne correspond à aucun titre ni sommaire du cours.`,
+      line: lineOf(text, start),
+      from: start,
+      to: start + full.length,
+      fix: hasTarget && /^\s*,/.test(pagePart)
+        ? { label: 'Retirer le numéro de page', edits: [{ from: pageStart, to: start + full.length, insert: '' }] }
+        : undefined
+    });
+  }
+  return issues;
+}
+
+// --- CITATIONS DE DÉCISIONS ---
+
+const MONTHS_SRC = 'janvier|février|mars|avril|mai|juin|juillet|août|septembre|octobre|novembre|décembre';
+
+// Découpe d'une citation : juridiction, formations, date, puis parties.
+const CITATION_PARTS_RE = new RegExp(
+  `^(.+?)(\\s*,\\s*|\\s+du\\s+)((?:[^,\\d]+?\\s*,\\s*)*?)(du\\s+)?(\\d{1,2}(?:er|e)?)\\s*(${MONTHS_SRC})\\s+(\\d{4})(\\s*,?\\s*)([\\s\\S]*)$`,
+  'u'
+);
+
+// Seules ces juridictions ont une graphie à harmoniser ; les chambres de la Cour de cassation varient légitimement.
+const COURT_SPELLING_RE = /^(?:Conseil d['’]\s?État|CE|Tribunal des conflits|TC)$/u;
+
+function formationKey(raw: string): string {
+  const lower = raw.toLowerCase().replace(/\.$/, '');
+  if (lower.startsWith('sect')) return 'section';
+  if (lower.startsWith('ass')) return 'assemblée';
+  return lower;
+}
+
+/** Graphie la plus fréquente de chaque variante ; en cas d'égalité, la forme développée et capitalisée. */
+function dominantSpellings(counts: Map<string, Map<string, number>>): Map<string, string> {
+  const dominant = new Map<string, string>();
+  counts.forEach((spellings, key) => {
+    const sorted = [...spellings.entries()].sort((a, b) =>
+      b[1] - a[1] || b[0].length - a[0].length || Number(/^[A-ZÀ-Ý]/u.test(b[0])) - Number(/^[A-ZÀ-Ý]/u.test(a[0]))
+    );
+    dominant.set(key, sorted[0][0]);
+  });
+  return dominant;
+}
+
+const count = (counts: Map<string, Map<string, number>>, key: string, spelling: string) => {
+  const spellings = counts.get(key) || new Map<string, number>();
+  spellings.set(spelling, (spellings.get(spelling) || 0) + 1);
+  counts.set(key, spellings);
+};
+
+function lintCitations(course: ParsedCourse): LintIssue[] {
+  const citations = course.decisions.flatMap(decision => decision.occurrences.flatMap(occurrence => {
+    const parts = occurrence.raw.match(CITATION_PARTS_RE);
+    return parts ? [{ decision, occurrence, parts }] : [];
+  }));
+
+  // La forme de référence est celle que le cours emploie le plus souvent
+  const courtCounts = new Map<string, Map<string, number>>();
+  const formationCounts = new Map<string, Map<string, number>>();
+  citations.forEach(({ decision, parts }) => {
+    if (COURT_SPELLING_RE.test(parts[1])) count(courtCounts, decision.court, parts[1]);
+    parts[3].split(',').map(f => f.trim()).filter(Boolean).forEach(f => count(formationCounts, formationKey(f), f));
+  });
+  const courts = dominantSpellings(courtCounts);
+  const formations = dominantSpellings(formationCounts);
+
+  const issues: LintIssue[] = [];
+  citations.forEach(({ decision, occurrence, parts }) => {
+    const [, court, courtSep, formationList, du, day, month, year, partiesSep, parties] = parts;
+    const problems: string[] = [];
+
+    const expectedCourt = COURT_SPELLING_RE.test(court) ? courts.get(decision.court) || court : court;
+    if (expectedCourt !== court) problems.push(`« ${court} » au lieu de « ${expectedCourt} »`);
+
+    const expectedCourtSep = /du/.test(courtSep) ? ' du ' : ', ';
+    if (courtSep !== expectedCourtSep) problems.push('espacement après la juridiction');
+
+    const formationParts = formationList.split(',').map(f => f.trim()).filter(Boolean);
+    const expectedFormations = formationParts.map(f => {
+      const expected = formations.get(formationKey(f)) || f;
+      if (expected !== f) problems.push(`« ${f} » au lieu de « ${expected} »`);
+      return expected;
+    });
+    if (formationList && formationList !== formationParts.map(f => `${f}, `).join('')) problems.push('espacement entre les formations');
+
+    const date = `${day} ${month} ${year}`;
+    if (occurrence.raw.indexOf(date) === -1) problems.push('espace manquant dans la date');
+
+    const expectedPartiesSep = parties ? ', ' : partiesSep;
+    if (partiesSep !== expectedPartiesSep) problems.push(partiesSep.includes(',') ? 'espacement avant les parties' : 'virgule manquante avant les parties');
+
+    if (problems.length === 0) return;
+    const rebuilt = `${expectedCourt}${expectedCourtSep}${expectedFormations.map(f => `${f}, `).join('')}${du || ''}${date}${expectedPartiesSep}${parties}`;
+    issues.push({
+      id: `citation-${occurrence.start}`,
+      category: 'citation',
+      severity: 'warning',
+      message: `Citation irrégulière (${problems.join(', ')}).`,
+      line: occurrence.line,
+      from: occurrence.start,
+      to: occurrence.end,
+      fix: { label: 'Harmoniser', edits: [{ from: occurrence.start, to: occurrence.start + occurrence.raw.length, insert: rebuilt }] }
+    });
+  });
+  return issues;
+}
+
+// --- DÉFINITIONS EN DOUBLE ---
+
+/** Étendue des lignes d'une définition, y compris la ligne "Définition de la X :" qui l'annonce. */
+function definitionBlock(text: string, definition: CourseDefinition): { from: number; to: number } {
+  let from = text.lastIndexOf('\n', definition.start - 1) + 1;
+  if (!/^\s*\*?\s*Définition\b/u.test(text.slice(from, definition.start + 1))) {
+    let previous = from;
+    for (let n = 0; n < 2 && previous > 0; n++) {
+      previous = text.lastIndexOf('\n', previous - 2) + 1;
+      if (/^\s*Définition\b/u.test(text.slice(previous, text.indexOf('\n', previous)))) {
+        from = previous;
+        break;
+      }
+    }
+  }
+  const lineEnd = text.indexOf('\n', definition.end);
+  return { from, to: lineEnd === -1 ? text.length : lineEnd + 1 };
+}
+
+function lintDefinitions(text: string, course: ParsedCourse): LintIssue[] {
+  const normalize = (t: string) => t.replace(/\s+/g, ' ').trim();
+  const seen = new Map<string, CourseDefinition>();
+  const issues: LintIssue[] = [];
+
+  course.definitions.forEach(definition => {
+    const key = slugify(definition.term);
+    const first = seen.get(key);
+    if (!first) {
+      seen.set(key, definition);
+      return;
+    }
+    // Une définition reprise à l'identique dans une autre partie est un rappel voulu ; dans la même, un copier-coller en trop.
+    if (normalize(first.text) === normalize(definition.text)) {
+      if (first.nodeId !== definition.nodeId) return;
+      const block = definitionBlock(text, definition);
+      issues.push({
+        id: `definition-${definition.start}`,
+        category: 'definition',
+        severity: 'info',
+        message: `« ${definition.term} » est défini deux fois dans la même subdivision (déjà ligne ${first.line + 1}).`,
+        line: definition.line,
+        from: definition.start,
+        to: definition.end,
+        fix: { label: 'Supprimer la répétition', edits: [{ from: block.from, to: block.to, insert: '' }] }
+      });
+      return;
+    }
+    issues.push({
+      id: `definition-${definition.start}`,
+      category: 'definition',
+      severity: 'warning',
+      message: `« ${definition.term} » est déjà défini ligne ${first.line + 1} avec une autre formulation : l'assistant pourrait citer l'une ou l'autre.`,
+      line: definition.line,
+      from: definition.start,
+      to: definition.end,
+      fix: {
+        label: `Reprendre la formulation de la ligne ${first.line + 1}`,
+        edits: [{ from: definition.start, to: definition.end, insert: first.text }],
+        review: { kept: first.text, replaced: definition.text }
+      }
+    });
+  });
+  return issues;
+}
+
+// --- NUMÉROTATION DES TITRES ---
+
+const PART_ORDINAL_VALUES: Record<string, number> = { 'PREMIÈRE': 1, 'DEUXIÈME': 2, 'SECONDE': 2, 'TROISIÈME': 3, 'QUATRIÈME': 4, 'CINQUIÈME': 5 };
+const PART_ORDINALS = ['PREMIÈRE', 'DEUXIÈME', 'TROISIÈME', 'QUATRIÈME', 'CINQUIÈME'];
+const ROMAN_VALUES: [string, number][] = [['L', 50], ['XL', 40], ['X', 10], ['IX', 9], ['V', 5], ['IV', 4], ['I', 1]];
+
+function toRoman(n: number): string {
+  let out = '';
+  for (const [symbol, value] of ROMAN_VALUES) {
+    while (n >= value) {
+      out += symbol;
+      n -= value;
+    }
+  }
+  return out;
+}
+
+function fromRoman(s: string): number {
+  let total = 0;
+  let rest = s;
+  for (const [symbol, value] of ROMAN_VALUES) {
+    while (rest.startsWith(symbol)) {
+      total += value;
+      rest = rest.slice(symbol.length);
+    }
+  }
+  return rest ? NaN : total;
+}
+
+// Position du numéro dans la ligne de titre
+const NUMERAL_RE: Record<Exclude<CourseNodeKind, 'course'>, RegExp> = {
+  part: /^(\s*)(\S+)/u,
+  chapter: /^(\s*CHAPITRE\s+)([IVXL]+|\d+)/u,
+  section: /^(\s*SECTION\s+)([IVXL]+|\d+)/u,
+  roman: /^(\s*)([IVX]+)/u,
+  letter: /^(\s*)([A-H])/u,
+  number: /^(\s*(?:\d+\.)*)(\d+)/u,
+  subletter: /^(\s*)([a-h])/u
+};
+
+interface Numeral {
+  from: number;
+  to: number;
+  token: string;
+  value: number;
+}
+
+function readNumeral(text: string, node: CourseNode): Numeral | null {
+  if (node.kind === 'course') return null;
+  const lineEnd = text.indexOf('\n', node.start);
+  const m = text.slice(node.start, lineEnd === -1 ? text.length : lineEnd).match(NUMERAL_RE[node.kind]);
+  if (!m) return null;
+  const token = m[2];
+  let value: number;
+  switch (node.kind) {
+    case 'part': value = PART_ORDINAL_VALUES[token.toUpperCase()] ?? NaN; break;
+    case 'chapter':
+    case 'section': value = /^\d+$/.test(token) ? Number(token) : fromRoman(token); break;
+    case 'roman': value = fromRoman(token); break;
+    case 'letter': value = token.charCodeAt(0) - 64; break;
+    case 'subletter': value = token.charCodeAt(0) - 96; break;
+    default: value = Number(token);
+  }
+  const from = node.start + m[1].length;
+  return Number.isNaN(value) ? null : { from, to: from + token.length, token, value };
+}
+
+/** Écrit le numéro attendu dans le style du titre (romain ou arabe, majuscules ou non). */
+function formatNumeral(kind: CourseNodeKind, like: string, n: number): string | null {
+  switch (kind) {
+    case 'part': {
+      const ordinal = PART_ORDINALS[n - 1];
+      if (!ordinal) return null;
+      return like === like.toUpperCase() ? ordinal : ordinal.charAt(0) + ordinal.slice(1).toLowerCase();
+    }
+    case 'chapter':
+    case 'section': return /^\d+$/.test(like) ? String(n) : toRoman(n);
+    case 'roman': return n < 40 ? toRoman(n) : null;
+    case 'letter': return n <= 8 ? String.fromCharCode(64 + n) : null;
+    case 'subletter': return n <= 8 ? String.fromCharCode(96 + n) : null;
+    default: return String(n);
+  }
+}
+
+function lintNumbering(text: string, course: ParsedCourse): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const visit = (parent: CourseNode) => {
+    const kinds = [...new Set(parent.children.map(c => c.kind))];
+    kinds.forEach(kind => {
+      const siblings = parent.children
+        .filter(c => c.kind === kind)
+        .map(node => ({ node, numeral: readNumeral(text, node) }))
+        .filter((s): s is { node: CourseNode; numeral: Numeral } => s.numeral !== null);
+
+      const firstWrong = siblings.findIndex((s, i) => s.numeral.value !== i + 1);
+      if (firstWrong === -1) return;
+
+      const { node, numeral } = siblings[firstWrong];
+      const previous = siblings[firstWrong - 1];
+      const expected = formatNumeral(kind, numeral.token, firstWrong + 1) || String(firstWrong + 1);
+      const message = !previous
+        ? `La numérotation commence à « ${numeral.token} » au lieu de « ${expected} ».`
+        : numeral.value === previous.numeral.value
+          ? `Numéro en double : « ${node.label} » suit un autre « ${previous.node.label} ».`
+          : numeral.value > firstWrong + 1
+            ? `Numérotation sautée : « ${node.label} » après « ${previous.node.label} ».`
+            : `Numérotation dans le désordre : « ${node.label} » après « ${previous.node.label} ».`;
+
+      // Le correctif renumérote ce titre et tous les suivants du même niveau
+      const edits = siblings.slice(firstWrong)
+        .map((s, i) => ({ numeral: s.numeral, expectedValue: firstWrong + i + 1 }))
+        .filter(({ numeral, expectedValue }) => numeral.value !== expectedValue)
+        .map(({ numeral, expectedValue }) => ({ from: numeral.from, to: numeral.to, insert: formatNumeral(kind, numeral.token, expectedValue) }));
+      const lineEnd = text.indexOf('\n', node.start);
+      issues.push({
+        id: `numbering-${node.id}`,
+        category: 'numbering',
+        severity: 'warning',
+        message,
+        line: node.line,
+        from: node.start,
+        to: lineEnd === -1 ? text.length : lineEnd,
+        fix: edits.every((edit): edit is TextEdit => edit.insert !== null)
+          ? { label: edits.length > 1 ? `Renuméroter (${edits.length} titres)` : `Renuméroter en « ${expected} »`, edits }
+          : undefined
+      });
+    });
+    parent.children.forEach(visit);
+  };
+  visit(course.root);
+  return issues;
+}
+
+// --- POINT D'ENTRÉE ---
+
+/**
+ * Vérifie le texte du cours à partir de son analyse : renvois de page sans destination,
+ * citations d'arrêts qui s'écartent de la forme dominante du cours, définitions répétées
+ * et trous ou doublons dans la numérotation des titres. Les problèmes sont triés dans l'ordre du texte.
+ */
+export function lintCourse(text: string, course: ParsedCourse): LintIssue[] {
+  return [
+    ...lintReferences(text, course),
+    ...lintCitations(course),
+    ...lintDefinitions(text, course),
+    ...lintNumbering(text, course)
+  ].sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Correctif applicable sans relecture, donc proposé par "Tout corriger".
+ */
+export function isBatchFix(issue: LintIssue): boolean {
+  return Boolean(issue.fix && !issue.fix.review);
+}
+
+/**
+ * Regroupe les correctifs de plusieurs problèmes en écartant ceux qui se chevauchent,
+ * pour les appliquer en une seule fois ("Tout corriger"). Un seul problème est corrigé tel quel,
+ * après relecture s'il le demande ; dans un lot, les correctifs à relire sont écartés.
+ */
+export function mergeFixes(issues: LintIssue[]): TextEdit[] {
+  const fixed = issues.length === 1 ? issues : issues.filter(isBatchFix);
+  const edits = fixed.flatMap(issue => issue.fix?.edits || []).sort((a, b) => a.from - b.from);
+  const merged: TextEdit[] = [];
+  edits.forEach(edit => {
+    const last = merged[merged.length - 1];
+    if (!last || edit.from >= last.to) merged.push(edit);
+  });
+  return merged;
+}
@@ -0,0 +1,530 @@
+import {
+  CourseNode,
+  CourseNodeKind,
+  CourseDefinition,
+  CourseDecision,
+  CourseStatute,
+  CourseOccurrence,
+  ParsedCourse
+} from '../types';
+
+// --- EN-TÊTES DU PLAN ---
+
+const PART_ORDINALS = ['PREMIÈRE', 'DEUXIÈME', 'SECONDE', 'TROISIÈME', 'QUATRIÈME', 'CINQUIÈME'];
+
+interface HeadingPattern {
+  kind: Exclude<CourseNodeKind, 'course'>;
+  re: RegExp;
+}
+
+// L'ordre compte : les motifs les plus spécifiques d'abord.
+const HEADING_PATTERNS: HeadingPattern[] = [
+  { kind: 'part', re: /^((?:PREMIÈRE|DEUXIÈME|SECONDE|TROISIÈME|QUATRIÈME|CINQUIÈME)\s+PARTIE)\s*[:–-]\s*(.+)$/i },
+  { kind: 'chapter', re: /^(CHAPITRE\s+(?:[IVXL]+|\d+))\s*[:–-]\s*(.+)$/ },
+  { kind: 'section', re: /^(SECTION\s+(?:[IVXL]+|\d+))\s*[:–-]\s*(.+)$/ },
+  { kind: 'roman', re: /^([IVX]+)\s*[–-]\s+(.+)$/ },
+  { kind: 'letter', re: /^([A-H])\s*[–-]\s+(.+)$/ },
+  { kind: 'number', re: /^(\d+(?:\.\d+)*)\s*[–-]\s+(.+)$/ },
+  { kind: 'subletter', re: /^([a-h])\s*[–-]\s+(.+)$/ }
+];
+
+// Les mini-sommaires du cours répètent les titres suivis d'une tabulation et d'un numéro de page.
+const TOC_LINE_RE = /\t\s*\d+\s*$/;
+
+/**
+ * Profondeur d'un niveau de titre dans l'arborescence.
+ * Les titres numérotés "2.3.1" sont imbriqués sous "2.3", lui-même sous "2".
+ */
+function headingDepth(kind: CourseNodeKind, label: string): number {
+  switch (kind) {
+    case 'course': return -1;
+    case 'part': return 0;
+    case 'chapter': return 1;
+    case 'section': return 2;
+    case 'roman': return 3;
+    case 'letter': return 4;
+    case 'number': return 5 + label.split('.').length - 1;
+    case 'subletter': return 20;
+  }
+}
+
+function matchHeading(line: string): { kind: HeadingPattern['kind']; label: string; title: string } | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 250 || TOC_LINE_RE.test(line)) return null;
+  for (const { kind, re } of HEADING_PATTERNS) {
+    const m = trimmed.match(re);
+    if (m) return { kind, label: m[1].replace(/\s+/g, ' '), title: m[2].trim() };
+  }
+  return null;
+}
+
+// --- UTILITAIRES ---
+
+/**
+ * Transforme un libellé en identifiant stable (minuscules, sans accents).
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function nodeIdSegment(kind: CourseNodeKind, label: string): string {
+  switch (kind) {
+    case 'part': {
+      const ordinal = PART_ORDINALS.indexOf(label.split(/\s+/)[0].toUpperCase());
+      return `p${ordinal === -1 ? slugify(label) : ordinal + 1}`;
+    }
+    case 'chapter': return `ch-${slugify(label.replace(/^CHAPITRE\s+/, ''))}`;
+    case 'section': return `s-${slugify(label.replace(/^SECTION\s+/, ''))}`;
+    case 'number': return label.replace(/\./g, '-');
+    default: return label.toLowerCase();
+  }
+}
+
+function computeLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function lineAt(lineStarts: number[], offset: number): number {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+const MONTHS = ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'];
+const DATE_SRC = `(\\d{1,2})(?:er|e)?\\s*(${MONTHS.join('|')})\\s+(\\d{4})`;
+
+function toIsoDate(day: string, month: string, year: string): string {
+  const m = MONTHS.indexOf(month.toLowerCase()) + 1;
+  return `${year}-${String(m).padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+// --- PLAN ---
+
+function parseOutline(text: string, lines: string[], lineStarts: number[]) {
+  const root: CourseNode = {
+    id: 'cours',
+    kind: 'course',
+    label: '',
+    title: '',
+    line: 0,
+    start: 0,
+    end: text.length,
+    parentId: null,
+    children: []
+  };
+  const headings: CourseNode[] = [];
+  const stack: { node: CourseNode; depth: number }[] = [{ node: root, depth: -1 }];
+  const usedIds = new Set<string>();
+
+  lines.forEach((line, index) => {
+    const heading = matchHeading(line);
+    if (!heading) return;
+
+    const depth = headingDepth(heading.kind, heading.label);
+    const start = lineStarts[index];
+    while (stack.length > 1 && stack[stack.length - 1].depth >= depth) {
+      stack.pop()!.node.end = start;
+    }
+    const parent = stack[stack.length - 1].node;
+
+    let id = parent === root
+      ? nodeIdSegment(heading.kind, heading.label)
+      : `${parent.id}.${nodeIdSegment(heading.kind, heading.label)}`;
+    if (usedIds.has(id)) {
+      let n = 2;
+      while (usedIds.has(`${id}~${n}`)) n++;
+      id = `${id}~${n}`;
+    }
+    usedIds.add(id);
+
+    const node: CourseNode = {
+      id,
+      kind: heading.kind,
+      label: heading.label,
+      title: heading.title,
+      line: index,
+      start,
+      end: text.length,
+      parentId: parent.id,
+      children: []
+    };
+    parent.children.push(node);
+    headings.push(node);
+    stack.push({ node, depth });
+  });
+
+  return { root, headings };
+}
+
+/**
+ * Retourne le titre le plus profond qui contient la position donnée.
+ */
+export function findNodeAt(course: ParsedCourse, offset: number): CourseNode {
+  let current = course.root;
+  for (;;) {
+    const child = current.children.find(c => c.start <= offset && offset < c.end);
+    if (!child) return current;
+    current = child;
+  }
+}
+
+/**
+ * Chemin complet (de la partie jusqu'au titre) d'un nœud du plan.
+ */
+export function getNodePath(course: ParsedCourse, nodeId: string): CourseNode[] {
+  const byId = new Map(course.headings.map(h => [h.id, h]));
+  const path: CourseNode[] = [];
+  let node = byId.get(nodeId);
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return path;
+}
+
+export function formatNodeLabel(node: CourseNode): string {
+  return `${node.label} – ${node.title}`;
+}
+
+// --- DÉFINITIONS ---
+
+const DEFINITION_INLINE_RE = /^\*?\s*Définition(?:\s+générique)?\s*:\s*(.+)$/;
+const DEFINITION_HEADER_RE = /^Définition\s+(?:de la |de l['’]|du |des |de )(.+?)\s*:\s*$/;
+const ARTICLE_RE = /^(?:(?:les|le|la|une|un|des|du|de la)\s+|de l['’]|l['’])/i;
+
+function cleanTerm(raw: string): string {
+  const term = raw
+    .replace(/\([^)]*\)/g, '')
+    .replace(/[«»"]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(ARTICLE_RE, '')
+    .replace(/^théorie (?:de la |de l['’]|du )/i, '')
+    .replace(/[,:;.]+$/, '')
+    .trim();
+  return term.charAt(0).toLowerCase() + term.slice(1);
+}
+
+/**
+ * Déduit la notion définie à partir de la phrase de définition.
+ * "La grève est une cessation..." → "grève".
+ */
+export function extractDefinitionTerm(text: string): string {
+  const sentence = text.replace(/^«\s*/, '');
+  const patterns: { re: RegExp; build?: (m: RegExpMatchArray) => string }[] = [
+    { re: /^Par\s+«\s*([^»]+?)\s*»\s*,?\s*on entend/i },
+    { re: /^Il y a\s+(.+?)\s+lorsque/i },
+    { re: /^Constituen?t?\s+(?:un |une |des |les )?(.+?)\s+(?:tout|toute|tous|les|la|le|l['’])\s/i },
+    { re: /^(.+?)\s+revêt\s+(?:un |une )?(.+?)\s+lorsqu/i, build: m => `${cleanTerm(m[1])} (${m[2].trim()})` },
+    { re: /^(.+?),\s*c['’]est\b/i },
+    { re: /^(.+?)\s+(?:est|sont|consiste|a pour objet|désigne)\b/i }
+  ];
+  for (const { re, build } of patterns) {
+    const m = sentence.match(re);
+    if (m && m[1].length <= 120) return build ? build(m) : cleanTerm(m[1]);
+  }
+  return cleanTerm(sentence.split(/\s+/).slice(0, 6).join(' '));
+}
+
+function parseDefinitions(lines: string[], lineStarts: number[], locate: (offset: number) => string): CourseDefinition[] {
+  const definitions: CourseDefinition[] = [];
+  const seen = new Map<string, number>();
+
+  /** Une définition annoncée par ":" se poursuit sur les lignes suivantes (listes "1°", "2°"...). */
+  const collect = (firstLine: number, firstText: string) => {
+    let text = firstText.trimEnd();
+    let last = firstLine;
+    while (last + 1 < lines.length) {
+      const next = lines[last + 1].trim();
+      if (!next || !(text.endsWith(':') || /^\d+°/.test(next))) break;
+      text += '\n' + next;
+      last++;
+    }
+    return { text, last };
+  };
+
+  const push = (term: string, text: string, line: number, startInLine: number, lastLine: number) => {
+    const base = `def-${slugify(term) || 'notion'}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    const start = lineStarts[line] + startInLine;
+    definitions.push({
+      id: count === 1 ? base : `${base}-${count}`,
+      term,
+      text,
+      line,
+      start,
+      end: lineStarts[lastLine] + lines[lastLine].trimEnd().length,
+      nodeId: locate(start)
+    });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    const header = trimmed.match(DEFINITION_HEADER_RE);
+    if (header) {
+      let j = i + 1;
+      while (j < lines.length && !lines[j].trim()) j++;
+      if (j >= lines.length) continue;
+      const { text, last } = collect(j, lines[j].trim());
+      push(cleanTerm(header[1]), text, j, lines[j].indexOf(lines[j].trim()), last);
+      i = last;
+      continue;
+    }
+    const inline = trimmed.match(DEFINITION_INLINE_RE);
+    if (inline) {
+      const { text, last } = collect(i, inline[1]);
+      push(extractDefinitionTerm(inline[1]), text, i, lines[i].indexOf(inline[1]), last);
+      i = last;
+    }
+  }
+  return definitions;
+}
+
+// --- ARRÊTS ---
+
+const COURTS: { re: string; name: string; code: string }[] = [
+  { re: `Conseil d['’]\\s?État`, name: 'Conseil d’État', code: 'ce' },
+  { re: `Tribunal des conflits`, name: 'Tribunal des conflits', code: 'tc' },
+  { re: `Conseil constitutionnel`, name: 'Conseil constitutionnel', code: 'cc' },
+  { re: `Cour de cassation|Cass\\.(?:\\s*(?:1re|1e|civ\\.|Civ\\.|crim\\.|soc\\.|com\\.)){0,2}`, name: 'Cour de cassation', code: 'cass' },
+  { re: `\\bCE\\b`, name: 'Conseil d’État', code: 'ce' },
+  { re: `\\bTC\\b`, name: 'Tribunal des conflits', code: 'tc' }
+];
+
+const FORMATION_SRC = `(?:Section|section|Sect\\.|Assemblée|assemblée|Ass\\.|ass\\.|Avis contentieux|avis contentieux|Avis|avis|Juge des référés|juge des référés|ordonnance|Plénière|sous-sections réunies)`;
+
+const DECISION_RE = new RegExp(
+  `(${COURTS.map(c => c.re).join('|')})(?:\\s*,\\s*|\\s+du\\s+)((?:${FORMATION_SRC}\\s*,\\s*)*)(?:du\\s+)?${DATE_SRC}\\s*(?:,\\s*)?([^\\n]*)`,
+  'gu'
+);
+
+// Décisions du Conseil constitutionnel citées sous la forme "Décision n° 82-153 DC du 14 janvier 1983, Loi ...".
+const CC_DECISION_RE = new RegExp(
+  `Décision(?:\\s+n°\\s*[\\d-]+\\s*(?:DC|QPC|L|LP))?\\s+du\\s+${DATE_SRC}\\s*(?:,\\s*)?([^\\n]*)`,
+  'gu'
+);
+
+function courtFor(raw: string) {
+  return COURTS.find(c => new RegExp(`^(?:${c.re})$`, 'u').test(raw)) || COURTS[0];
+}
+
+function normalizeFormation(raw: string): string | undefined {
+  const parts = raw.split(',').map(p => p.trim()).filter(Boolean).map(p => {
+    const lower = p.toLowerCase();
+    if (lower.startsWith('sect')) return 'Section';
+    if (lower.startsWith('ass')) return 'Assemblée';
+    if (lower === 'avis contentieux') return 'Avis contentieux';
+    if (lower === 'avis') return 'Avis';
+    if (lower === 'juge des référés') return 'Juge des référés';
+    return p.charAt(0).toUpperCase() + p.slice(1);
+  });
+  return parts.length ? parts.join(', ') : undefined;
+}
+
+/**
+ * Isole le nom des parties dans le texte qui suit la date d'une décision.
+ * S'arrête à la première ponctuation forte qui n'appartient pas à une abréviation ("A.P.R.E.I.", "M.", "c.").
+ */
+export function trimParties(tail: string): string {
+  let depth = 0;
+  let end = tail.length;
+  for (let i = 0; i < tail.length; i++) {
+    const ch = tail[i];
+    if (ch === '(') {
+      const close = tail.indexOf(')', i);
+      const inner = close === -1 ? '' : tail.slice(i + 1, close);
+      // Garde les sigles entre parenthèses, coupe avant les incises ("(Voir aussi ...").
+      if (close === -1 || /\s/.test(inner.trim())) { end = i; break; }
+      depth++;
+      continue;
+    }
+    if (ch === ')') {
+      if (depth === 0) { end = i; break; }
+      depth--;
+      continue;
+    }
+    if (depth > 0) continue;
+    if (ch === ';' || ch === ':' || ch === ',' || ch === '–' || ch === '—' || ch === '«') { end = i; break; }
+    if (ch === '-' && tail[i - 1] === ' ' && tail[i + 1] === ' ') { end = i; break; }
+    if (ch === '.') {
+      const before = tail.slice(0, i).match(/(?:^|[\s.(])([A-Za-zÀ-ÿ])$/);
+      if (before) continue;
+      end = i;
+      break;
+    }
+  }
+  const parties = tail.slice(0, end).replace(/\s+/g, ' ').trim().slice(0, 160);
+  // "n° 10-11.889", "et ..." : pas de nom de parties exploitable.
+  return /^(?:n°|(?:et|ou)\b)/i.test(parties) ? '' : parties;
+}
+
+const CIVILITY_RE = /^(?:Sieurs?|Dames?|Demoiselles?|Delle|Époux|Consorts|Mlle|Mme|M\.|Madame|Monsieur|Mademoiselle)\s+/u;
+const ACRONYM_RE = /\(\s*((?:[A-Z]\.?){2,}[A-Z]*\.?)\s*\)/u;
+const OPPONENT_RE = /\s+(?:contre|c\.|c\/|c)\s+.*$/u;
+
+/**
+ * Nom d'usage d'une décision, tel que les étudiants le citent :
+ * le sigle entre parenthèses ("A.P.R.E.I." → "APREI"), sinon la première partie sans civilité
+ * ("Sieur Gheusi" → "Gheusi", "Commune de Morsang-sur-Orge" → "Morsang-sur-Orge").
+ */
+export function decisionShortName(parties: string): string {
+  const acronym = parties.match(ACRONYM_RE);
+  if (acronym) return acronym[1].replace(/\./g, '');
+
+  const first = parties
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(OPPONENT_RE, '')
+    .replace(/\s+et autres$/u, '')
+    .replace(CIVILITY_RE, '')
+    .replace(/^Commune de\s+/u, '')
+    .trim();
+  return !first || /^[A-Z]\.?$/u.test(first) ? parties.trim() : first;
+}
+
+function partiesKey(parties: string): string {
+  return slugify(parties).slice(0, 12);
+}
+
+function parseDecisions(text: string, lineStarts: number[], locate: (offset: number) => string): CourseDecision[] {
+  const byId = new Map<string, CourseDecision>();
+  const decisions: CourseDecision[] = [];
+
+  const register = (court: { name: string; code: string }, formation: string | undefined, day: string, month: string, year: string, tail: string, start: number, matchText: string) => {
+    const parties = trimParties(tail);
+    const date = toIsoDate(day, month, year);
+    const baseId = `arret-${court.code}-${date}`;
+    const rawEnd = start + matchText.length - tail.length + (parties ? tail.indexOf(parties) + parties.length : 0);
+    const occurrence: CourseOccurrence = {
+      raw: text.slice(start, rawEnd).trim(),
+      line: lineAt(lineStarts, start),
+      start,
+      end: rawEnd,
+      nodeId: locate(start)
+    };
+
+    // Même juridiction et même date : même décision, sauf si les parties diffèrent nettement.
+    let existing = byId.get(baseId);
+    if (existing && parties && existing.parties && partiesKey(existing.parties) !== partiesKey(parties)) {
+      const altId = `${baseId}-${slugify(parties).slice(0, 24)}`;
+      existing = byId.get(altId);
+      if (!existing) {
+        existing = { id: altId, court: court.name, formation, date, dateLabel: `${day} ${month} ${year}`, parties, shortName: '', occurrences: [] };
+        byId.set(altId, existing);
+        decisions.push(existing);
+      }
+    }
+    if (!existing) {
+      existing = { id: baseId, court: court.name, formation, date, dateLabel: `${day} ${month} ${year}`, parties, shortName: '', occurrences: [] };
+      byId.set(baseId, existing);
+      decisions.push(existing);
+    }
+    if (!existing.parties && parties) existing.parties = parties;
+    if (!existing.formation && formation) existing.formation = formation;
+    existing.occurrences.push(occurrence);
+  };
+
+  // Le motif englobe la fin de la ligne (les parties) : la recherche reprend juste après la date,
+  // pour ne pas manquer une seconde décision citée sur la même ligne.
+  const scan = (re: RegExp, handle: (m: RegExpExecArray) => void) => {
+    re.lastIndex = 0;
+    for (let m = re.exec(text); m; m = re.exec(text)) {
+      handle(m);
+      re.lastIndex = m.index + m[0].length - m[m.length - 1].length;
+    }
+  };
+  scan(DECISION_RE, m => {
+    const [full, courtRaw, formationRaw, day, month, year, tail] = m;
+    register(courtFor(courtRaw), normalizeFormation(formationRaw), day, month.toLowerCase(), year, tail, m.index, full);
+  });
+  scan(CC_DECISION_RE, m => {
+    const [full, day, month, year, tail] = m;
+    register({ name: 'Conseil constitutionnel', code: 'cc' }, undefined, day, month.toLowerCase(), year, tail, m.index, full);
+  });
+
+  decisions.forEach(decision => { decision.shortName = decisionShortName(decision.parties); });
+  return decisions.sort((a, b) => a.occurrences[0].start - b.occurrences[0].start);
+}
+
+// --- LOIS, DÉCRETS, ORDONNANCES ---
+
+const STATUTE_RE = new RegExp(
+  `\\b(loi|décret|ordonnance)(\\s+organique)?(?:\\s+n°\\s*([\\d-]+))?\\s+du\\s+${DATE_SRC}(?:\\s*,?\\s*((?:relative|relatif|portant|pour|visant|tendant|sur)\\b[^.;,:\\n«»–()]*))?`,
+  'giu'
+);
+
+/**
+ * Le motif lit l'intitulé jusqu'au prochain signe de ponctuation : la phrase du cours se poursuit souvent
+ * au-delà ("…relative aux transports dispose que"). L'intitulé s'arrête au premier verbe ou relatif.
+ */
+const STATUTE_TITLE_END_RE = /\s+(?:(?:dispose|disposent|impose|imposent|prévoit|prévoient|pose|posent|énonce|précise|définit|consacre|institue|crée|modifie|permet|autorise|interdit|oblige|a|ont|est|sont|fut|était|dont|qui|que|en son|dans son|le législateur)(?=\s|$)|qu['’]).*$/;
+
+function parseStatutes(text: string, lineStarts: number[], locate: (offset: number) => string): CourseStatute[] {
+  const byId = new Map<string, CourseStatute>();
+  const statutes: CourseStatute[] = [];
+
+  for (const m of text.matchAll(STATUTE_RE)) {
+    const [matched, kindRaw, organic, number, day, month, year, titleRaw] = m;
+    const title = titleRaw?.replace(STATUTE_TITLE_END_RE, '').trim();
+    // La citation s'arrête avec l'intitulé, sans la suite de la phrase ni la virgule qui l'introduit
+    const full = titleRaw === undefined
+      ? matched
+      : `${matched.slice(0, matched.length - titleRaw.length)}${title}`.replace(/[\s,]+$/, '');
+    const kind = kindRaw.toLowerCase();
+    const type: CourseStatute['type'] = kind === 'loi' && organic ? 'loi organique' : kind as CourseStatute['type'];
+    const date = toIsoDate(day, month, year);
+    const id = number ? `texte-${slugify(type)}-${number}` : `texte-${slugify(type)}-${date}`;
+    const start = m.index!;
+
+    let statute = byId.get(id);
+    if (!statute) {
+      statute = { id, type, number, date, dateLabel: `${day} ${month.toLowerCase()} ${year}`, occurrences: [] };
+      byId.set(id, statute);
+      statutes.push(statute);
+    }
+    if (!statute.title && title) statute.title = title;
+    statute.occurrences.push({
+      raw: full.trim(),
+      line: lineAt(lineStarts, start),
+      start,
+      end: start + full.trimEnd().length,
+      nodeId: locate(start)
+    });
+  }
+  return statutes;
+}
+
+// --- POINT D'ENTRÉE ---
+
+/**
+ * Analyse le texte brut du cours et en construit une représentation structurée :
+ * le plan (parties, chapitres, sections, I/A/1), les définitions, les arrêts et les textes cités.
+ * Les identifiants sont dérivés du plan et des libellés, et restent donc stables d'une édition à l'autre.
+ */
+export function parseCourse(text: string): ParsedCourse {
+  const lines = text.split('\n');
+  const lineStarts = computeLineStarts(text);
+  const { root, headings } = parseOutline(text, lines, lineStarts);
+
+  const partial: ParsedCourse = { root, headings, definitions: [], decisions: [], statutes: [] };
+  const locate = (offset: number) => findNodeAt(partial, offset).id;
+
+  partial.definitions = parseDefinitions(lines, lineStarts, locate);
+  partial.decisions = parseDecisions(text, lineStarts, locate);
+  partial.statutes = parseStatutes(text, lineStarts, locate);
+  return partial;
+}
@@ -0,0 +1,66 @@
+import { CourseConfig, CoursePersona } from '../types';
+import { DEFAULT_RETRIEVAL_CONFIG } from './retrieval';
+import { DEFAULT_MODEL_SETTINGS } from './llmProvider';
+import { DEFAULT_CASE_RUBRIC } from './caseStudy';
+import { DEFAULT_COURSE_CONTENT, DEFAULT_SYSTEM_INSTRUCTION } from '../constants';
+
+/** Cours d'origine de l'application : sans contenu publié, il reprend le cours intégré (constants.ts). */
+export const DEFAULT_COURSE_ID = 'droit-administratif';
+
+export const DEFAULT_PERSONA: CoursePersona = {
+  assistantName: 'Ada',
+  professorName: 'Professeur Coulibaly',
+  subject: 'Droit administratif',
+  assistantIntro: "Je suis Ada, l'assistante pédagogique virtuelle du Professeur Coulibaly, spécialisée en Droit administratif. Le professeur Coulibaly m’a donné ce nom, en hommage à Ada Lovelace, la femme qui a conçu et décrit, au 19e siècle, le premier programme informatique.",
+  professorBio: "Le professeur Coulibaly est professeur agrégé de droit public. Il est en poste à l’Université Toulouse Capitole. Il est l’auteur du cours sur lequel sont basées mes questions et mes réponses."
+};
+
+/**
+ * Persona proposée pour un nouveau cours : les présentations s'appuient sur les autres champs.
+ */
+export function blankPersona(subject: string): CoursePersona {
+  return {
+    assistantName: 'Ada',
+    professorName: '',
+    subject,
+    assistantIntro: "Je suis {{ASSISTANT}}, l'assistante pédagogique virtuelle du {{PROFESSEUR}}, spécialisée en {{MATIERE}}.",
+    professorBio: "Le {{PROFESSEUR}} est l'auteur du cours sur lequel sont basées mes questions et mes réponses."
+  };
+}
+
+/** Marqueurs utilisables dans l'instruction système, le message d'accueil et les présentations. */
+export const PERSONA_PLACEHOLDERS: { token: string; field: keyof CoursePersona; label: string }[] = [
+  { token: '{{ASSISTANT}}', field: 'assistantName', label: "Nom de l'assistante" },
+  { token: '{{PROFESSEUR}}', field: 'professorName', label: 'Professeur (après « du »)' },
+  { token: '{{MATIERE}}', field: 'subject', label: 'Matière' },
+  { token: '{{PRESENTATION_ASSISTANT}}', field: 'assistantIntro', label: "Présentation de l'assistante" },
+  { token: '{{PRESENTATION_PROFESSEUR}}', field: 'professorBio', label: 'Présentation du professeur' }
+];
+
+export const WELCOME_TEMPLATE = "Bonjour ! Je suis **{{ASSISTANT}}**, votre assistante juridique **virtuelle**, spécialisée en {{MATIERE}}. Posez-moi une question sur le cours, ou demandez-moi de générer un Quiz ou un Cas Pratique.";
+
+/**
+ * Remplace les marqueurs {{...}} par la persona du cours.
+ * Les présentations sont remplacées en premier : elles peuvent elles-mêmes contenir des marqueurs.
+ */
+export function applyPersona(text: string, persona: CoursePersona): string {
+  return [...PERSONA_PLACEHOLDERS]
+    .reverse()
+    .reduce((acc, { token, field }) => acc.split(token).join(persona[field]), text);
+}
+
+/**
+ * Configuration complète d'un cours à partir de ce qui a été publié ; les champs absents
+ * prennent les valeurs par défaut (le cours intégré pour le cours d'origine, un cours vide sinon).
+ */
+export function resolveCourseConfig(courseId: string, stored: Partial<CourseConfig> & { title?: string }): CourseConfig {
+  const isDefault = courseId === DEFAULT_COURSE_ID;
+  return {
+    courseContent: stored.courseContent ?? (isDefault ? DEFAULT_COURSE_CONTENT : ''),
+    systemInstruction: stored.systemInstruction || DEFAULT_SYSTEM_INSTRUCTION,
+    retrievalConfig: { ...DEFAULT_RETRIEVAL_CONFIG, ...stored.retrievalConfig },
+    modelSettings: { ...DEFAULT_MODEL_SETTINGS, ...stored.modelSettings },
+    persona: { ...(isDefault ? DEFAULT_PERSONA : blankPersona(stored.title || '')), ...stored.persona },
+    caseRubric: stored.caseRubric?.length ? stored.caseRubric : DEFAULT_CASE_RUBRIC
+  };
+}
@@ -0,0 +1,175 @@
+// --- COMPARAISON DE VERSIONS (diff ligne à ligne, algorithme de Myers) ---
+
+export interface DiffLine {
+  type: 'equal' | 'delete' | 'insert';
+  text: string;
+}
+
+export interface DiffCell {
+  lineNo: number;      // numéro de ligne (à partir de 1) dans sa version
+  text: string;
+}
+
+export type DiffRow =
+  | { type: 'equal' | 'change' | 'delete' | 'insert'; left: DiffCell | null; right: DiffCell | null }
+  | { type: 'skip'; count: number };
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Au-delà, le diff exact coûterait trop cher en mémoire : les blocs sont présentés comme entièrement remplacés.
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Script d'édition minimal entre deux listes de lignes (Myers, "An O(ND) Difference Algorithm").
+ * Seul l'intervalle utile de V est conservé à chaque étape : la mémoire reste en O(D²).
+ */
+function myers(a: string[], b: string[]): DiffLine[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace);
+    }
+  }
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      lines.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+    if (x === prevX) lines.push({ type: 'insert', text: b[--y] });
+    else lines.push({ type: 'delete', text: a[--x] });
+  }
+  while (x > 0 && y > 0) {
+    lines.push({ type: 'equal', text: a[--x] });
+    y--;
+  }
+  return lines.reverse();
+}
+
+/**
+ * Différences ligne à ligne entre deux textes. Le début et la fin communs sont écartés avant
+ * l'algorithme : une retouche locale d'un long cours reste instantanée.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myers(middleA, middleB) || [
+    ...middleA.map(text => ({ type: 'delete' as const, text })),
+    ...middleB.map(text => ({ type: 'insert' as const, text }))
+  ];
+
+  return [
+    ...a.slice(0, start).map(text => ({ type: 'equal' as const, text })),
+    ...middle,
+    ...a.slice(endA).map(text => ({ type: 'equal' as const, text }))
+  ];
+}
+
+export function diffStats(lines: DiffLine[]): DiffStats {
+  return {
+    added: lines.filter(l => l.type === 'insert').length,
+    removed: lines.filter(l => l.type === 'delete').length
+  };
+}
+
+/**
+ * Mise en regard des deux versions : les suppressions et ajouts d'un même bloc sont alignés
+ * ligne à ligne, et les passages identiques éloignés des modifications sont repliés
+ * (`context` lignes conservées de part et d'autre).
+ */
+export function sideBySide(lines: DiffLine[], context = 3): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let oldNo = 0;
+  let newNo = 0;
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].type === 'equal') {
+      const text = lines[i++].text;
+      rows.push({ type: 'equal', left: { lineNo: ++oldNo, text }, right: { lineNo: ++newNo, text } });
+      continue;
+    }
+    const removed: DiffCell[] = [];
+    const added: DiffCell[] = [];
+    while (i < lines.length && lines[i].type !== 'equal') {
+      const { type, text } = lines[i++];
+      if (type === 'delete') removed.push({ lineNo: ++oldNo, text });
+      else added.push({ lineNo: ++newNo, text });
+    }
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      const left = removed[j] || null;
+      const right = added[j] || null;
+      rows.push({ type: left && right ? 'change' : left ? 'delete' : 'insert', left, right });
+    }
+  }
+
+  // Repli des longues plages identiques
+  const folded: DiffRow[] = [];
+  let run: DiffRow[] = [];
+  const flush = (isStart: boolean, isEnd: boolean) => {
+    const keepBefore = isStart ? 0 : context;
+    const keepAfter = isEnd ? 0 : context;
+    if (run.length > keepBefore + keepAfter + 1) {
+      folded.push(...run.slice(0, keepBefore));
+      folded.push({ type: 'skip', count: run.length - keepBefore - keepAfter });
+      folded.push(...run.slice(run.length - keepAfter));
+    } else {
+      folded.push(...run);
+    }
+    run = [];
+  };
+  rows.forEach(row => {
+    if (row.type === 'equal') {
+      run.push(row);
+      return;
+    }
+    flush(folded.length === 0, false);
+    folded.push(row);
+  });
+  flush(folded.length === 0, true);
+  return folded;
+}
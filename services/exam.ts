@@ -0,0 +1,362 @@
+import {
+  CaseGrade,
+  CaseStudy,
+  CourseContext,
+  CourseNode,
+  ExamAnswers,
+  ExamAttempt,
+  ExamPaper,
+  ExamQuestion,
+  ExamQuestionResult,
+  ExamReport,
+  ExamSectionResult
+} from '../types';
+import { ResponseSchema } from './llmProvider';
+import { ANSWER_STEPS, caseSections, sectionPath } from './caseStudy';
+
+// --- EXAMEN BLANC (sujet fixe, épreuve chronométrée, rapport noté) ---
+
+export const EXAM_QUESTION_COUNTS = [5, 10, 15, 20];
+export const EXAM_DURATIONS = [30, 60, 90, 120, 180];
+export const DEFAULT_QUESTION_COUNT = 10;
+export const DEFAULT_DURATION = 90;
+
+/** Barème : un point par QCM, deux par question de cours, le cas pratique ramené à huit points. */
+const QCM_POINTS = 1;
+const SHORT_POINTS = 2;
+const CASE_POINTS = 8;
+/** Part des QCM dans les questions du sujet. */
+const QCM_SHARE = 0.6;
+/** Taille maximale des chapitres envoyés au modèle (≈ 4 caractères par token). */
+const MAX_EXAM_TOKENS = 24000;
+/** En dessous de cette proportion des points, une section est signalée comme à revoir. */
+export const WEAK_SECTION_RATIO = 0.5;
+
+type ExamSection = CaseStudy['section'];
+
+/**
+ * Erreur levée quand la réponse du modèle n'est pas un sujet ou une correction exploitable.
+ */
+export class ExamFormatError extends Error {}
+
+/** Chapitres proposés au choix de l'étudiant ; à défaut, les sections du cours. */
+export function examChapters(course: CourseContext): CourseNode[] {
+  const chapters = course.structure.headings.filter(h => h.kind === 'chapter' && h.title);
+  return chapters.length > 0 ? chapters : caseSections(course);
+}
+
+/** Sections couvertes par les chapitres retenus, qui servent de rubriques au rapport. */
+export function examSections(course: CourseContext, chapters: CourseNode[]): ExamSection[] {
+  const sections = caseSections(course);
+  return chapters.flatMap(chapter => {
+    const inside = sections.filter(s => s.start >= chapter.start && s.start < chapter.end);
+    return (inside.length > 0 ? inside : [chapter]).map(node => ({ nodeId: node.id, path: sectionPath(course, node), title: node.title }));
+  });
+}
+
+export function questionMix(count: number): { qcm: number; short: number } {
+  const qcm = Math.ceil(count * QCM_SHARE);
+  return { qcm, short: count - qcm };
+}
+
+/** Texte des chapitres retenus ; quand ils dépassent le budget, chacun est tronqué à sa part. */
+function chaptersBlock(course: CourseContext, chapters: CourseNode[]): string {
+  const share = Math.floor(MAX_EXAM_TOKENS * 4 / Math.max(1, chapters.length));
+  const texts = chapters.map(chapter => {
+    const text = course.content.slice(chapter.start, chapter.end).trim();
+    return text.length > share ? `${text.slice(0, share)}\n[…]` : text;
+  });
+  return `EXTRAIT DU COURS (Source Unique de Vérité — chapitres au programme de l'examen) :\n${texts.join('\n\n---\n\n')}`;
+}
+
+function readJson(json: string, message: string): Record<string, unknown> {
+  try {
+    const data = JSON.parse(json.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    return data && typeof data === 'object' ? data : {};
+  } catch {
+    throw new ExamFormatError(message);
+  }
+}
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// --- SUJET ---
+
+export function examSchema(sections: ExamSection[], count: number): ResponseSchema {
+  return {
+    type: 'OBJECT',
+    properties: {
+      questions: {
+        type: 'ARRAY',
+        minItems: String(count),
+        maxItems: String(count),
+        items: {
+          type: 'OBJECT',
+          properties: {
+            kind: { type: 'STRING', enum: ['qcm', 'short'] },
+            sectionId: { type: 'STRING', enum: sections.map(s => s.nodeId), description: 'Identifiant de la section du cours testée.' },
+            question: { type: 'STRING', description: 'Énoncé de la question.' },
+            choices: { type: 'ARRAY', items: { type: 'STRING' }, description: 'QCM : 4 choix. Question de cours : liste vide.' },
+            answerIndex: { type: 'INTEGER', description: 'QCM : position (à partir de 0) de la bonne réponse. Question de cours : -1.' },
+            expected: { type: 'STRING', description: 'QCM : correction justifiée. Question de cours : réponse modèle, en quelques phrases.' }
+          },
+          required: ['kind', 'sectionId', 'question', 'choices', 'answerIndex', 'expected'],
+          propertyOrdering: ['kind', 'sectionId', 'question', 'choices', 'answerIndex', 'expected']
+        }
+      }
+    },
+    required: ['questions']
+  };
+}
+
+const EXAM_INSTRUCTION = `EXAMEN BLANC : Rédige les questions d'un sujet d'examen et réponds uniquement par l'objet JSON demandé, sans texte autour.
+- Les questions couvrent l'ensemble des sections listées, sans doublon, et ne portent que sur l'extrait du cours ci-dessous.
+- QCM (kind "qcm") : 4 choix plausibles dont un seul exact.
+- Question de cours (kind "short") : appelle une réponse rédigée de quelques lignes (définition, régime, portée d'un arrêt).
+- Les corrections citent les définitions et les arrêts du cours exactement.`;
+
+export function questionsRequest(course: CourseContext, chapters: CourseNode[], count: number): { prompt: string; context: string; sections: ExamSection[] } {
+  const sections = examSections(course, chapters);
+  const { qcm, short } = questionMix(count);
+  const list = sections.map(s => `- ${s.nodeId} — ${s.path} : ${s.title}`).join('\n');
+  return {
+    prompt: `Rédige ${count} questions d'examen : ${qcm} QCM puis ${short} questions de cours.`,
+    context: `${EXAM_INSTRUCTION}\n\nSECTIONS AU PROGRAMME :\n${list}\n\n${chaptersBlock(course, chapters)}`,
+    sections
+  };
+}
+
+/**
+ * Lit les questions du sujet : les questions mal formées sont écartées, les autres numérotées et notées selon leur type.
+ * Une section inconnue est remplacée par la première du programme.
+ */
+export function parseExamQuestions(json: string, sections: ExamSection[], count: number): ExamQuestion[] {
+  const data = readJson(json, 'Le sujet reçu est illisible.');
+  const raw = Array.isArray(data.questions) ? data.questions as Record<string, unknown>[] : [];
+  const questions: ExamQuestion[] = [];
+
+  for (const item of raw) {
+    if (!item || typeof item !== 'object' || questions.length >= count) continue;
+    const question = asText(item.question);
+    const expected = asText(item.expected);
+    const section = sections.find(s => s.nodeId === item.sectionId) || sections[0];
+    if (!question || !section) continue;
+
+    if (item.kind === 'qcm') {
+      const choices = Array.isArray(item.choices) ? item.choices.map(asText).filter(Boolean) : [];
+      const answerIndex = Number(item.answerIndex);
+      if (choices.length < 2 || !Number.isInteger(answerIndex) || answerIndex < 0 || answerIndex >= choices.length) continue;
+      questions.push({ id: `q${questions.length + 1}`, kind: 'qcm', question, choices, answerIndex, expected, points: QCM_POINTS, section });
+    } else if (item.kind === 'short' && expected) {
+      questions.push({ id: `q${questions.length + 1}`, kind: 'short', question, choices: [], answerIndex: -1, expected, points: SHORT_POINTS, section });
+    }
+  }
+  if (questions.length === 0) throw new ExamFormatError('Le sujet reçu ne comporte aucune question exploitable.');
+  // Les QCM d'abord, comme sur une copie d'examen
+  return [...questions.filter(q => q.kind === 'qcm'), ...questions.filter(q => q.kind === 'short')]
+    .map((q, i) => ({ ...q, id: `q${i + 1}` }));
+}
+
+/** Section, tirée au hasard parmi celles du programme, sur laquelle porte le cas pratique. */
+export function pickCaseSection(course: CourseContext, chapters: CourseNode[]): CourseNode {
+  const ids = new Set(examSections(course, chapters).map(s => s.nodeId));
+  const candidates = course.structure.headings.filter(h => ids.has(h.id));
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
+
+export function createPaper(chapterIds: string[], durationMinutes: number, questions: ExamQuestion[], caseStudy: CaseStudy): ExamPaper {
+  return { chapterIds, durationMinutes, questions, caseStudy, casePoints: CASE_POINTS };
+}
+
+// --- CORRECTION ---
+
+export function shortGradeSchema(questions: ExamQuestion[]): ResponseSchema {
+  return {
+    type: 'OBJECT',
+    properties: {
+      grades: {
+        type: 'ARRAY',
+        items: {
+          type: 'OBJECT',
+          properties: {
+            questionId: { type: 'STRING', enum: questions.map(q => q.id) },
+            score: { type: 'NUMBER', description: 'Points obtenus, par demi-points, entre 0 et le barème de la question.' },
+            comment: { type: 'STRING', description: "Appréciation de la réponse : ce qui est juste, ce qui manque." }
+          },
+          required: ['questionId', 'score', 'comment'],
+          propertyOrdering: ['questionId', 'score', 'comment']
+        }
+      }
+    },
+    required: ['grades']
+  };
+}
+
+const SHORT_GRADE_INSTRUCTION = `CORRECTION D'EXAMEN : Corrige les réponses de l'étudiant aux questions de cours et réponds uniquement par l'objet JSON demandé.
+- La réponse modèle, tirée du cours, sert de corrigé : une réponse équivalente mais formulée autrement obtient les points.
+- Note chaque question une fois, sans dépasser son barème ; une réponse hors sujet ou sans rapport avec le cours obtient zéro.
+- Les commentaires s'adressent à l'étudiant (vouvoiement) et tiennent en une ou deux phrases.`;
+
+/** Questions de cours rédigées par l'étudiant ; celles laissées blanches valent zéro sans passer par le modèle. */
+export function answeredShortQuestions(paper: ExamPaper, answers: ExamAnswers): ExamQuestion[] {
+  return paper.questions.filter(q => q.kind === 'short' && answers.texts[q.id]?.trim());
+}
+
+export function shortGradeRequest(questions: ExamQuestion[], answers: ExamAnswers): { prompt: string; context: string } {
+  const copy = questions.map(q =>
+    `### ${q.id} (${q.points} pts) — ${q.question}\nRÉPONSE MODÈLE : ${q.expected}\nRÉPONSE DE L'ÉTUDIANT : ${answers.texts[q.id].trim()}`
+  ).join('\n\n');
+  return { prompt: `QUESTIONS DE COURS À CORRIGER :\n\n${copy}`, context: SHORT_GRADE_INSTRUCTION };
+}
+
+function parseShortGrades(json: string | null): Map<string, { score: number; comment: string }> {
+  const grades = new Map<string, { score: number; comment: string }>();
+  if (json === null) return grades;
+  const data = readJson(json, 'La correction reçue est illisible.');
+  for (const entry of Array.isArray(data.grades) ? data.grades as Record<string, unknown>[] : []) {
+    if (entry && typeof entry.questionId === 'string' && !grades.has(entry.questionId)) {
+      grades.set(entry.questionId, { score: Number(entry.score), comment: asText(entry.comment) });
+    }
+  }
+  return grades;
+}
+
+const halfPoints = (value: number, max: number) => (Number.isFinite(value) ? Math.min(max, Math.max(0, Math.round(value * 2) / 2)) : 0);
+
+/**
+ * Rapport de l'examen : QCM corrigés d'après le sujet, questions de cours d'après la correction du modèle,
+ * cas pratique ramené à sa part de la note, puis points regroupés par section (les plus faibles d'abord).
+ */
+export function buildReport(paper: ExamPaper, answers: ExamAnswers, shortGradesJson: string | null, caseGrade: CaseGrade): ExamReport {
+  const shortGrades = parseShortGrades(shortGradesJson);
+
+  const questions: ExamQuestionResult[] = paper.questions.map(q => {
+    if (q.kind === 'qcm') {
+      const chosen = answers.choices[q.id];
+      const score = chosen === q.answerIndex ? q.points : 0;
+      return { questionId: q.id, score, points: q.points, comment: chosen === undefined ? 'Sans réponse.' : q.expected };
+    }
+    if (!answers.texts[q.id]?.trim()) return { questionId: q.id, score: 0, points: q.points, comment: 'Sans réponse.' };
+    const grade = shortGrades.get(q.id);
+    return {
+      questionId: q.id,
+      score: halfPoints(grade?.score ?? NaN, q.points),
+      points: q.points,
+      comment: grade?.comment || 'Réponse non évaluée par la correction.'
+    };
+  });
+
+  const caseScore = caseGrade.maxTotal > 0 ? halfPoints(caseGrade.total / caseGrade.maxTotal * paper.casePoints, paper.casePoints) : 0;
+
+  const bySection = new Map<string, ExamSectionResult>();
+  const addToSection = (section: ExamSection, score: number, points: number) => {
+    const entry = bySection.get(section.nodeId) || { ...section, score: 0, points: 0 };
+    bySection.set(section.nodeId, { ...entry, score: entry.score + score, points: entry.points + points });
+  };
+  paper.questions.forEach((q, i) => addToSection(q.section, questions[i].score, q.points));
+  addToSection(paper.caseStudy.section, caseScore, paper.casePoints);
+
+  const total = questions.reduce((sum, q) => sum + q.score, 0) + caseScore;
+  const maxTotal = questions.reduce((sum, q) => sum + q.points, 0) + paper.casePoints;
+  return {
+    questions,
+    caseGrade,
+    caseScore,
+    total,
+    maxTotal,
+    sections: [...bySection.values()].sort((a, b) => a.score / a.points - b.score / b.points)
+  };
+}
+
+/** Note ramenée sur 20, au demi-point. */
+export function markOn20(report: ExamReport): number {
+  return report.maxTotal > 0 ? Math.round(report.total / report.maxTotal * 40) / 2 : 0;
+}
+
+export const formatPoints = (value: number) => value.toLocaleString('fr-FR');
+
+export function isWeakSection(section: ExamSectionResult): boolean {
+  return section.points > 0 && section.score / section.points < WEAK_SECTION_RATIO;
+}
+
+// --- EXPORT ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraphs = (text: string) =>
+  escapeHtml(text).split(/\n{2,}/).map(p => `<p>${p.replace(/\n/g, '<br>')}</p>`).join('');
+
+/**
+ * Rapport complet au format HTML autonome, mis en page pour l'impression : le navigateur
+ * l'enregistre en PDF depuis sa boîte de dialogue d'impression.
+ */
+export function reportHtml(attempt: ExamAttempt, courseTitle: string): string {
+  const { paper, answers, report } = attempt;
+  const date = new Date(attempt.submittedAt).toLocaleString('fr-FR', { dateStyle: 'long', timeStyle: 'short' });
+  const minutes = Math.round((new Date(attempt.submittedAt).getTime() - new Date(attempt.startedAt).getTime()) / 60000);
+
+  const sections = report.sections.map(s =>
+    `<tr class="${isWeakSection(s) ? 'weak' : ''}"><td>${escapeHtml(s.path)} — ${escapeHtml(s.title)}</td><td>${formatPoints(s.score)} / ${formatPoints(s.points)}</td><td>${isWeakSection(s) ? 'À revoir' : ''}</td></tr>`
+  ).join('');
+
+  const questions = paper.questions.map((q, i) => {
+    const result = report.questions[i];
+    const answer = q.kind === 'qcm'
+      ? (answers.choices[q.id] === undefined ? '<em>Sans réponse</em>' : escapeHtml(q.choices[answers.choices[q.id]]))
+      : (answers.texts[q.id]?.trim() ? paragraphs(answers.texts[q.id]) : '<em>Sans réponse</em>');
+    const expected = q.kind === 'qcm' ? `<p><strong>Bonne réponse :</strong> ${escapeHtml(q.choices[q.answerIndex])}</p>` : `<p><strong>Réponse modèle :</strong> ${escapeHtml(q.expected)}</p>`;
+    return `<section class="question">
+      <h3>${i + 1}. ${escapeHtml(q.question)} <span class="score">${formatPoints(result.score)} / ${formatPoints(result.points)}</span></h3>
+      <p class="path">${escapeHtml(q.section.path)}</p>
+      <div class="answer">${answer}</div>
+      ${expected}
+      <p class="comment">${escapeHtml(result.comment)}</p>
+    </section>`;
+  }).join('');
+
+  const caseCopy = ANSWER_STEPS.map(step =>
+    `<h4>${step.label}</h4>${answers.caseAnswer[step.field].trim() ? paragraphs(answers.caseAnswer[step.field]) : '<p><em>Non rédigé</em></p>'}`
+  ).join('');
+  const caseCriteria = report.caseGrade.criteria.map(c =>
+    `<tr><td>${escapeHtml(c.label)}</td><td>${formatPoints(c.score)} / ${formatPoints(c.points)}</td><td>${escapeHtml(c.comment)}</td></tr>`
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+<meta charset="utf-8">
+<title>Examen blanc — ${escapeHtml(courseTitle)}</title>
+<style>
+  body { font-family: Georgia, serif; color: #1e293b; margin: 2cm; line-height: 1.5; font-size: 11pt; }
+  h1 { font-size: 18pt; margin: 0; } h2 { font-size: 14pt; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; margin-top: 28px; }
+  h3 { font-size: 11pt; } h4 { font-size: 10pt; margin-bottom: 2px; text-transform: uppercase; color: #475569; }
+  .meta, .path { color: #64748b; font-size: 9pt; } .mark { font-size: 28pt; font-weight: bold; margin: 12px 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 10pt; } td { border-bottom: 1px solid #e2e8f0; padding: 4px 6px; vertical-align: top; }
+  tr.weak td { color: #b91c1c; } .score { float: right; font-family: sans-serif; }
+  .question { page-break-inside: avoid; } .answer { border-left: 3px solid #cbd5e1; padding-left: 10px; }
+  .comment { font-style: italic; color: #475569; }
+</style>
+</head>
+<body>
+  <h1>Examen blanc — ${escapeHtml(courseTitle)}</h1>
+  <p class="meta">Rendu le ${date}, en ${minutes} min sur ${paper.durationMinutes}${attempt.timedOut ? ' (temps écoulé)' : ''}.</p>
+  <p class="mark">${formatPoints(markOn20(report))} / 20</p>
+  <p class="meta">${formatPoints(report.total)} points sur ${formatPoints(report.maxTotal)}.</p>
+
+  <h2>Bilan par section</h2>
+  <table>${sections}</table>
+
+  <h2>Questions</h2>
+  ${questions}
+
+  <h2>Cas pratique — ${formatPoints(report.caseScore)} / ${formatPoints(paper.casePoints)}</h2>
+  <h3>${escapeHtml(paper.caseStudy.title)}</h3>
+  ${paragraphs(paper.caseStudy.facts)}
+  <p><strong>${escapeHtml(paper.caseStudy.question)}</strong></p>
+  ${caseCopy}
+  <table>${caseCriteria}</table>
+  ${report.caseGrade.feedback ? paragraphs(report.caseGrade.feedback) : ''}
+</body>
+</html>`;
+}
@@ -0,0 +1,237 @@
+import { CourseContext, CourseDecision, SourceReference } from '../types';
+import { getNodePath, slugify } from './courseParser';
+import { buildGlossary, definitionSource } from './glossary';
+
+// --- PAQUET DE FICHES (définitions et grands arrêts du cours) ---
+
+export type FlashcardKind = 'definition' | 'decision';
+
+export interface Flashcard {
+  id: string;          // stable tant que le terme ou l'arrêt figure dans le cours
+  kind: FlashcardKind;
+  front: string;
+  prompt: string;      // consigne affichée sous le recto
+  back: string;
+  context?: string;    // phrase du cours où l'arrêt est cité
+  path: string;
+  source: SourceReference;
+}
+
+/** Formations qui signalent un arrêt de principe. */
+const MAJOR_FORMATIONS = ['Assemblée', 'Section'];
+const MAX_CONTEXT_CHARS = 500;
+
+/**
+ * Grands arrêts : ceux qui ont un nom d'usage et que le cours cite plusieurs fois,
+ * ou rendus en formation solennelle, ou par le Tribunal des conflits.
+ */
+export function isMajorDecision(decision: CourseDecision): boolean {
+  return Boolean(decision.shortName) && (
+    decision.occurrences.length >= 2 ||
+    MAJOR_FORMATIONS.includes(decision.formation || '') ||
+    decision.court === 'Tribunal des conflits'
+  );
+}
+
+export function decisionReference(decision: CourseDecision): string {
+  return [decision.court, decision.formation, decision.dateLabel, decision.parties].filter(Boolean).join(', ');
+}
+
+/** Ligne du cours qui contient une citation, réduite à une longueur lisible au verso d'une fiche. */
+function citingLine(content: string, start: number): string {
+  const lineStart = content.lastIndexOf('\n', start) + 1;
+  const lineEnd = content.indexOf('\n', start);
+  const line = content.slice(lineStart, lineEnd === -1 ? content.length : lineEnd).trim();
+  return line.length > MAX_CONTEXT_CHARS ? `${line.slice(0, MAX_CONTEXT_CHARS)}…` : line;
+}
+
+/**
+ * Construit le paquet de fiches d'un cours : une fiche par notion définie ("Définition :")
+ * et une par grand arrêt, dans l'ordre du cours.
+ */
+export function buildDeck(course: CourseContext): Flashcard[] {
+  const { content, structure } = course;
+  const pathOf = (nodeId: string) => getNodePath(structure, nodeId).map(n => n.label).join(' › ');
+
+  const definitions = buildGlossary(structure).entries.map((entry): Flashcard & { start: number } => ({
+    id: `definition:${slugify(entry.term)}`,
+    kind: 'definition',
+    front: entry.term,
+    prompt: 'Donnez la définition du cours.',
+    back: entry.text,
+    path: entry.path,
+    source: definitionSource(entry, content),
+    start: entry.definition.start
+  }));
+
+  const decisions = structure.decisions.filter(isMajorDecision).map((decision): Flashcard & { start: number } => {
+    // La citation la plus développée du cours sert de contexte
+    const occurrence = decision.occurrences.reduce((best, o) =>
+      citingLine(content, o.start).length > citingLine(content, best.start).length ? o : best
+    );
+    return {
+      id: `decision:${decision.id}`,
+      kind: 'decision',
+      front: decision.shortName,
+      prompt: 'Donnez la référence complète et l’apport de l’arrêt.',
+      back: decisionReference(decision),
+      context: citingLine(content, occurrence.start),
+      path: pathOf(occurrence.nodeId),
+      source: {
+        marker: 1,
+        nodeId: occurrence.nodeId,
+        path: pathOf(occurrence.nodeId),
+        start: occurrence.start,
+        end: occurrence.end,
+        excerpt: content.slice(occurrence.start, occurrence.end)
+      },
+      start: decision.occurrences[0].start
+    };
+  });
+
+  // Un même terme défini dans plusieurs sections ne donne qu'une fiche (la première définition)
+  const seen = new Set<string>();
+  return [...definitions, ...decisions]
+    .sort((a, b) => a.start - b.start)
+    .filter(card => !seen.has(card.id) && seen.add(card.id))
+    .map(({ start: _start, ...card }) => card);
+}
+
+// --- PLANIFICATION DES RÉVISIONS (SM-2) ---
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/** Qualité de la réponse au sens de SM-2 (0 à 5) pour chacun des quatre boutons. */
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'À revoir',
+  hard: 'Difficile',
+  good: 'Correct',
+  easy: 'Facile'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+/** Une fiche oubliée revient dans la même séance. */
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+export const NEW_CARDS_PER_DAY = 20;
+
+export interface CardState {
+  repetitions: number;   // réussites consécutives
+  interval: number;      // jours
+  ease: number;
+  lapses: number;
+  due: number;           // epoch ms
+  lastReview: number;
+}
+
+export interface ReviewLog {
+  cardId: string;
+  grade: ReviewGrade;
+  reviewedAt: number;
+  interval: number;      // intervalle obtenu, en jours
+}
+
+/**
+ * Nouvel état d'une fiche après une réponse (algorithme SM-2 : 1 jour, 6 jours, puis intervalle × facilité).
+ * Une fiche oubliée repart de zéro et revient dix minutes plus tard.
+ */
+export function scheduleReview(state: CardState | undefined, grade: ReviewGrade, now: number): CardState {
+  const previous = state || { repetitions: 0, interval: 0, ease: INITIAL_EASE, lapses: 0, due: now, lastReview: now };
+  const quality = GRADE_QUALITY[grade];
+  const ease = Math.max(MIN_EASE, previous.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  if (quality < 3) {
+    return { repetitions: 0, interval: 0, ease, lapses: previous.lapses + (state ? 1 : 0), due: now + RELEARN_DELAY_MS, lastReview: now };
+  }
+  const interval = previous.repetitions === 0 ? 1 : previous.repetitions === 1 ? 6 : Math.round(previous.interval * ease);
+  return { repetitions: previous.repetitions + 1, interval, ease, lapses: previous.lapses, due: now + interval * DAY_MS, lastReview: now };
+}
+
+/** Délai avant la prochaine présentation, pour l'afficher sur les boutons. */
+export function formatDelay(state: CardState, now: number): string {
+  const minutes = Math.round((state.due - now) / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const days = Math.round((state.due - now) / DAY_MS);
+  if (days < 31) return `${days} j`;
+  if (days < 365) return `${Math.round(days / 30)} mois`;
+  return `${(days / 365).toFixed(1).replace('.', ',')} an${days >= 730 ? 's' : ''}`;
+}
+
+export const endOfDay = (now: number) => new Date(now).setHours(23, 59, 59, 999);
+const startOfDay = (now: number) => new Date(now).setHours(0, 0, 0, 0);
+
+export interface DeckCounts {
+  due: number;           // fiches déjà vues à revoir aujourd'hui
+  fresh: number;         // nouvelles fiches encore proposées aujourd'hui
+  unseen: number;        // fiches jamais révisées
+  learned: number;       // fiches révisées au moins une fois
+  reviewedToday: number;
+  retention: number | null;   // part des réponses justes sur les trente derniers jours
+}
+
+export function deckCounts(deck: Flashcard[], states: Record<string, CardState>, history: ReviewLog[], now: number): DeckCounts {
+  const limit = endOfDay(now);
+  const todayStart = startOfDay(now);
+  const today = history.filter(log => log.reviewedAt >= todayStart);
+  const newToday = new Set(today.filter(log => !history.some(o => o.cardId === log.cardId && o.reviewedAt < todayStart)).map(log => log.cardId)).size;
+  const unseen = deck.filter(card => !states[card.id]).length;
+  const recent = history.filter(log => log.reviewedAt >= now - 30 * DAY_MS);
+  return {
+    due: deck.filter(card => states[card.id] && states[card.id].due <= limit).length,
+    fresh: Math.min(unseen, Math.max(0, NEW_CARDS_PER_DAY - newToday)),
+    unseen,
+    learned: deck.length - unseen,
+    reviewedToday: today.length,
+    retention: recent.length ? recent.filter(log => log.grade !== 'again').length / recent.length : null
+  };
+}
+
+/**
+ * Fiches de la séance du jour : celles dont l'échéance est passée (les plus en retard d'abord),
+ * puis les nouvelles fiches dans l'ordre du cours, dans la limite quotidienne.
+ */
+export function dueQueue(deck: Flashcard[], states: Record<string, CardState>, fresh: number, now: number): Flashcard[] {
+  const limit = endOfDay(now);
+  const due = deck
+    .filter(card => states[card.id] && states[card.id].due <= limit)
+    .sort((a, b) => states[a.id].due - states[b.id].due);
+  return [...due, ...deck.filter(card => !states[card.id]).slice(0, fresh)];
+}
+
+// --- EXPORT ANKI ---
+
+const toAnkiField = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\t/g, ' ')
+    .replace(/\r?\n/g, '<br>');
+
+const toAnkiTag = (text: string) => slugify(text).replace(/-/g, '_') || 'cours';
+
+/**
+ * Fichier texte importable dans Anki (Fichier › Importer) : une note "Basique" par fiche,
+ * recto, verso et étiquettes séparés par des tabulations, paquet nommé d'après le cours.
+ */
+export function exportAnki(deck: Flashcard[], courseTitle: string): string {
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    '#notetype:Basic',
+    `#deck:${courseTitle.replace(/[\t\r\n]/g, ' ')}`,
+    '#tags column:3'
+  ];
+  const rows = deck.map(card => {
+    const front = `${toAnkiField(card.front)}<br><small>${toAnkiField(card.prompt)}</small>`;
+    const back = [toAnkiField(card.back), card.context && `<i>${toAnkiField(card.context)}</i>`, `<small>${toAnkiField(card.path)}</small>`]
+      .filter(Boolean)
+      .join('<br><br>');
+    const tags = [card.kind === 'definition' ? 'definition' : 'arret', toAnkiTag(card.path.split(' › ')[0] || '')].join(' ');
+    return [front, back, tags].join('\t');
+  });
+  return [...header, ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,167 @@
+import { GoogleGenAI, Schema } from '@google/genai';
+import { LlmProvider, GenerateRequest, LiveSessionConfig, LiveSessionHandlers, LiveConnection, DEFAULT_MODEL_SETTINGS, RateLimitError } from './llmProvider';
+
+/**
+ * L'API Live attend un nom complet ("models/..."), le SDK accepte les deux formes.
+ */
+function toModelName(id: string): string {
+  const trimmed = id.trim();
+  return trimmed.startsWith('models/') ? trimmed : `models/${trimmed}`;
+}
+
+/**
+ * Durée au format protobuf JSON ("10s", "1.5s") en millisecondes ; 0 si illisible.
+ */
+function parseDuration(value: unknown): number {
+  const seconds = parseFloat(String(value ?? ''));
+  return Number.isFinite(seconds) ? seconds * 1000 : 0;
+}
+
+/**
+ * Fournisseur Google Gemini, joint uniquement à travers le proxy du serveur (qui détient la clé) :
+ * SDK officiel pour le texte, WebSocket brut pour l'API Live.
+ */
+export function createGeminiProvider(proxyUrl: string): LlmProvider {
+  const httpBase = new URL(proxyUrl, window.location.origin);
+  const liveUrl = `${httpBase.href.replace(/^http/, 'ws').replace(/\/$/, '')}/live`;
+
+  // Le SDK exige une clé dans le navigateur : le proxy la remplace par la vraie.
+  const ai = new GoogleGenAI({ apiKey: 'proxy', httpOptions: { baseUrl: httpBase.href } });
+
+  async function* generateStream(request: GenerateRequest): AsyncGenerator<string> {
+    const settings = request.settings || DEFAULT_MODEL_SETTINGS;
+    try {
+      const stream = await ai.models.generateContentStream({
+        model: toModelName(settings.textModel || DEFAULT_MODEL_SETTINGS.textModel),
+        contents: request.contents.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+        config: {
+          systemInstruction: request.systemInstruction,
+          abortSignal: request.signal,
+          // Paramètres laissés à null : valeur par défaut du modèle
+          ...(settings.temperature !== null && { temperature: settings.temperature }),
+          ...(settings.topP !== null && { topP: settings.topP }),
+          ...(settings.maxOutputTokens !== null && { maxOutputTokens: settings.maxOutputTokens }),
+          ...(settings.thinkingBudget !== null && { thinkingConfig: { thinkingBudget: settings.thinkingBudget } }),
+          ...(request.responseSchema && { responseMimeType: 'application/json', responseSchema: request.responseSchema as Schema })
+        }
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    } catch (error) {
+      // Quota du proxy dépassé : le message (en français) est inclus dans le corps JSON de l'erreur
+      if ((error as { status?: number })?.status === 429) {
+        const message = String((error as Error).message).match(/"message":\s*"([^"]*)"/)?.[1];
+        throw new RateLimitError(message || 'Trop de requêtes. Réessayez dans un instant.');
+      }
+      throw error;
+    }
+  }
+
+  const connectLive = (config: LiveSessionConfig, handlers: LiveSessionHandlers): LiveConnection => {
+    const settings = config.settings || DEFAULT_MODEL_SETTINGS;
+    const ws = new WebSocket(liveUrl);
+
+    ws.onopen = () => {
+      console.log("✅ [SOCKET] Connecté au proxy Gemini.");
+      // Handshake (Configuration)
+      const setupMessage = {
+        setup: {
+          model: toModelName(settings.liveModel || DEFAULT_MODEL_SETTINGS.liveModel),
+          generation_config: {
+            response_modalities: ["AUDIO"],
+            ...(settings.temperature !== null && { temperature: settings.temperature }),
+            ...(settings.topP !== null && { top_p: settings.topP }),
+            ...(settings.maxOutputTokens !== null && { max_output_tokens: settings.maxOutputTokens }),
+            ...(settings.thinkingBudget !== null && { thinking_config: { thinking_budget: settings.thinkingBudget } }),
+            speech_config: {
+              voice_config: {
+                prebuilt_voice_config: {
+                  voice_name: settings.voiceName || DEFAULT_MODEL_SETTINGS.voiceName
+                }
+              }
+            }
+          },
+          system_instruction: {
+            parts: [{ text: config.systemInstruction }]
+          },
+          // Sous-titres des deux côtés de la conversation, conservés ensuite comme une conversation écrite
+          input_audio_transcription: {},
+          output_audio_transcription: {},
+          // Jetons de reprise après coupure, et fenêtre glissante pour dépasser la durée maximale d'une séance audio
+          session_resumption: config.resumptionHandle ? { handle: config.resumptionHandle } : {},
+          context_window_compression: { sliding_window: {} },
+          // Prises de parole signalées par le client : la détection automatique du serveur est désactivée
+          ...(config.manualActivity && { realtime_input_config: { automatic_activity_detection: { disabled: true } } })
+        }
+      };
+      ws.send(JSON.stringify(setupMessage));
+      console.log("📨 [SETUP] Configuration envoyée.");
+      handlers.onOpen();
+    };
+
+    ws.onmessage = async (event) => {
+      // Réception des données (souvent un Blob) ; une trame illisible est signalée sans interrompre la séance
+      let data;
+      try {
+        data = JSON.parse(event.data instanceof Blob ? await event.data.text() : event.data);
+      } catch (error) {
+        handlers.onError(error);
+        return;
+      }
+
+      if (data.setupComplete) handlers.onSetupComplete();
+      const update = data.sessionResumptionUpdate;
+      if (update?.resumable && update.newHandle) handlers.onResumptionHandle(update.newHandle);
+      if (data.goAway) handlers.onGoAway(parseDuration(data.goAway.timeLeft));
+
+      const content = data.serverContent;
+      if (!content) return;
+
+      for (const part of content.modelTurn?.parts || []) {
+        if (part.inlineData) handlers.onAudio(part.inlineData.data);
+      }
+      if (content.inputTranscription?.text) handlers.onTranscription('user', content.inputTranscription.text);
+      if (content.outputTranscription?.text) handlers.onTranscription('model', content.outputTranscription.text);
+
+      if (content.interrupted) handlers.onInterrupted();
+      if (content.turnComplete) handlers.onTurnComplete();
+    };
+
+    ws.onclose = () => {
+      console.log("❌ [SOCKET] Déconnecté.");
+      handlers.onClose();
+    };
+
+    ws.onerror = (error) => {
+      console.log("⚠️ [SOCKET] Erreur:", error);
+      handlers.onError(error);
+    };
+
+    const send = (message: object) => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      try {
+        ws.send(JSON.stringify(message));
+      } catch (error) { /* Ignore */ }
+    };
+
+    return {
+      sendAudio: (base64Pcm) => send({
+        realtime_input: {
+          media_chunks: [{ mime_type: "audio/pcm", data: base64Pcm }]
+        }
+      }),
+      sendActivityStart: () => send({ realtime_input: { activity_start: {} } }),
+      sendActivityEnd: () => send({ realtime_input: { activity_end: {} } }),
+      sendText: (text) => send({
+        client_content: {
+          turns: [{ role: "user", parts: [{ text }] }],
+          turn_complete: true
+        }
+      }),
+      close: () => ws.close()
+    };
+  };
+
+  return { id: 'gemini', label: 'Google Gemini', generateStream, connectLive };
+}
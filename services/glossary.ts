@@ -0,0 +1,135 @@
+import { CourseDefinition, CourseNode, CourseNodeKind, ParsedCourse, SourceReference } from '../types';
+import { formatNodeLabel, getNodePath, slugify } from './courseParser';
+
+// --- GLOSSAIRE (définitions du cours regroupées par section) ---
+
+export interface GlossaryEntry {
+  id: string;
+  term: string;
+  text: string;                      // formulation de la première occurrence, citée telle quelle
+  definition: CourseDefinition;      // première occurrence dans la section
+  occurrences: CourseDefinition[];   // toutes les occurrences du terme dans la section (rappels compris)
+  path: string;
+}
+
+export interface GlossaryGroup {
+  node: CourseNode;
+  title: string;
+  entries: GlossaryEntry[];
+}
+
+export interface GlossaryIndex {
+  groups: GlossaryGroup[];
+  entries: GlossaryEntry[];
+  byTerm: Map<string, GlossaryEntry>;
+  termRe: RegExp | null;
+}
+
+export interface GlossaryTermMatch {
+  start: number;
+  end: number;
+  entry: GlossaryEntry;
+}
+
+/** Niveaux qui servent de rubriques au glossaire, du plus précis au plus large. */
+const GROUP_KINDS: CourseNodeKind[] = ['section', 'chapter', 'part'];
+
+const termKey = (term: string) => slugify(term);
+
+/** Rubrique d'une définition : la section qui la contient, à défaut le chapitre ou la partie. */
+function groupNode(path: CourseNode[], root: CourseNode): CourseNode {
+  for (const kind of GROUP_KINDS) {
+    const node = [...path].reverse().find(n => n.kind === kind);
+    if (node) return node;
+  }
+  return root;
+}
+
+/**
+ * Motif qui retrouve un terme dans une réponse : insensible à la casse, aux apostrophes
+ * (droite ou typographique) et aux espaces multiples, sans couper un mot.
+ */
+function termPattern(term: string): string {
+  return term
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/['’]/g, `['’]`)
+    .replace(/\s+/g, '\\s+');
+}
+
+/**
+ * Construit le glossaire à partir des lignes "Définition :" du cours.
+ * Le cours rappelle souvent une définition en tête de section avant de la reprendre plus loin :
+ * dans une même rubrique, les occurrences d'un même terme forment une seule entrée.
+ */
+export function buildGlossary(course: ParsedCourse): GlossaryIndex {
+  const groups = new Map<string, GlossaryGroup>();
+  const entries: GlossaryEntry[] = [];
+
+  for (const definition of course.definitions) {
+    const path = getNodePath(course, definition.nodeId);
+    const node = groupNode(path, course.root);
+    let group = groups.get(node.id);
+    if (!group) {
+      const title = node === course.root
+        ? 'Introduction'
+        : getNodePath(course, node.id).map(formatNodeLabel).join(' › ');
+      group = { node, title, entries: [] };
+      groups.set(node.id, group);
+    }
+
+    const existing = group.entries.find(entry => termKey(entry.term) === termKey(definition.term));
+    if (existing) {
+      existing.occurrences.push(definition);
+      continue;
+    }
+    const entry: GlossaryEntry = {
+      id: definition.id,
+      term: definition.term,
+      text: definition.text,
+      definition,
+      occurrences: [definition],
+      path: path.map(n => n.label).join(' › ')
+    };
+    group.entries.push(entry);
+    entries.push(entry);
+  }
+
+  // Pour le repérage dans les réponses, un terme renvoie à sa première définition dans le cours.
+  // Les variantes entre parenthèses ("circulaire (caractère impératif)") ne se retrouvent pas telles quelles dans un texte.
+  const byTerm = new Map<string, GlossaryEntry>();
+  entries.forEach(entry => {
+    const key = termKey(entry.term);
+    if (key && !entry.term.includes('(') && !byTerm.has(key)) byTerm.set(key, entry);
+  });
+  // Les termes les plus longs d'abord : "contrat de concession de service public" l'emporte sur "service public"
+  const terms = [...byTerm.values()].map(entry => entry.term).sort((a, b) => b.length - a.length);
+  const termRe = terms.length > 0
+    ? new RegExp(`(?<!\\p{L})(?:${terms.map(termPattern).join('|')})(?!\\p{L})`, 'giu')
+    : null;
+
+  return { groups: [...groups.values()], entries, byTerm, termRe };
+}
+
+/** Termes du glossaire présents dans un texte, dans l'ordre où ils apparaissent. */
+export function findGlossaryTerms(text: string, glossary: GlossaryIndex): GlossaryTermMatch[] {
+  if (!glossary.termRe) return [];
+  const matches: GlossaryTermMatch[] = [];
+  for (const m of text.matchAll(glossary.termRe)) {
+    const entry = glossary.byTerm.get(termKey(m[0]));
+    if (entry) matches.push({ start: m.index!, end: m.index! + m[0].length, entry });
+  }
+  return matches;
+}
+
+/** Passage du cours où figure la définition, sous la forme attendue par le panneau de lecture. */
+export function definitionSource(entry: GlossaryEntry, content: string): SourceReference {
+  const { definition } = entry;
+  return {
+    marker: 1,
+    nodeId: definition.nodeId,
+    path: entry.path,
+    start: definition.start,
+    end: definition.end,
+    excerpt: content.slice(definition.start, definition.end)
+  };
+}
@@ -0,0 +1,143 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { ModelSettings } from '../types';
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/** Réglages par défaut du modèle, ceux de l'application avant leur ouverture au professeur. */
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  textModel: 'models/gemini-2.0-flash',
+  liveModel: 'models/gemini-2.0-flash-exp',
+  voiceName: 'Charon',
+  temperature: null,
+  topP: null,
+  maxOutputTokens: null,
+  thinkingBudget: null
+};
+
+/** Voix préconfigurées proposées par l'API Live. */
+export const LIVE_VOICES = ['Charon', 'Puck', 'Kore', 'Fenrir', 'Aoede', 'Orus', 'Leda', 'Zephyr'];
+
+/**
+ * Schéma de réponse structurée, dans le sous-ensemble OpenAPI accepté par Gemini
+ * (types en majuscules : "OBJECT", "ARRAY", "STRING"...).
+ */
+export interface ResponseSchema {
+  type: 'OBJECT' | 'ARRAY' | 'STRING' | 'INTEGER' | 'NUMBER' | 'BOOLEAN';
+  description?: string;
+  enum?: string[];
+  items?: ResponseSchema;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  propertyOrdering?: string[];
+  minItems?: string;
+  maxItems?: string;
+}
+
+export interface GenerateRequest {
+  systemInstruction: string;
+  contents: ChatTurn[];
+  settings?: ModelSettings;   // DEFAULT_MODEL_SETTINGS sinon
+  signal?: AbortSignal;
+  /** Réponse en JSON conforme à ce schéma plutôt qu'en texte libre (le flux contient alors le JSON par morceaux). */
+  responseSchema?: ResponseSchema;
+}
+
+export interface LiveSessionConfig {
+  systemInstruction: string;
+  settings?: ModelSettings;
+  /** Jeton de reprise reçu pendant une session précédente : le serveur en restaure le contexte. */
+  resumptionHandle?: string | null;
+  /** Détection de la parole par le client (porte vocale, bouton à maintenir) : le serveur attend alors sendActivityStart/End. */
+  manualActivity?: boolean;
+}
+
+/**
+ * Événements d'une session vocale en temps réel.
+ * L'audio reçu est du PCM 16 bits mono à 24 kHz encodé en Base64 (format de l'API Live de Gemini).
+ */
+export interface LiveSessionHandlers {
+  onOpen: () => void;
+  /** Configuration acceptée par le serveur : la séance est réellement ouverte. */
+  onSetupComplete: () => void;
+  onAudio: (base64Pcm: string) => void;
+  onInterrupted: () => void;
+  /** Transcription (par fragments) de ce que dit l'étudiant ("user") ou le professeur ("model"). */
+  onTranscription: (role: ChatTurn['role'], text: string) => void;
+  /** Fin du tour de parole du professeur. */
+  onTurnComplete: () => void;
+  /** Nouveau jeton permettant de reprendre la session après une coupure. */
+  onResumptionHandle: (handle: string) => void;
+  /** Le serveur va fermer la connexion (durée maximale atteinte) dans le délai indiqué. */
+  onGoAway: (timeLeftMs: number) => void;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+export interface LiveConnection {
+  /** PCM 16 bits mono à 16 kHz, en Base64. */
+  sendAudio: (base64Pcm: string) => void;
+  /** Début et fin d'une prise de parole, en mode manualActivity uniquement. */
+  sendActivityStart: () => void;
+  sendActivityEnd: () => void;
+  sendText: (text: string) => void;
+  close: () => void;
+}
+
+/**
+ * Contrat commun à tous les fournisseurs de modèles (Gemini, simulateur hors ligne...).
+ */
+export interface LlmProvider {
+  id: ProviderId;
+  label: string;
+  /** Génère une réponse par morceaux de texte successifs. */
+  generateStream: (request: GenerateRequest) => AsyncGenerator<string>;
+  connectLive: (config: LiveSessionConfig, handlers: LiveSessionHandlers) => LiveConnection;
+}
+
+export interface ProviderConfig {
+  id: ProviderId;
+  /** Adresse du proxy serveur qui détient la clé Gemini. */
+  proxyUrl?: string;
+  /** Raison pour laquelle le simulateur a été retenu à la place du fournisseur demandé. */
+  fallbackReason?: string;
+}
+
+export const GEMINI_PROXY_URL = '/api/gemini';
+
+/**
+ * Erreur de quota renvoyée par le proxy (trop de requêtes d'un même étudiant).
+ */
+export class RateLimitError extends Error {}
+
+/**
+ * Choisit le fournisseur d'après VITE_LLM_PROVIDER et la présence du proxy Gemini (clé configurée côté serveur).
+ * Sans proxy, l'application démarre avec le simulateur hors ligne au lieu de refuser de s'ouvrir.
+ */
+export function resolveProviderConfig(
+  requested: string = import.meta.env.VITE_LLM_PROVIDER || '',
+  proxyEnabled: boolean = process.env.GEMINI_PROXY_ENABLED === 'true'
+): ProviderConfig {
+  const wanted = requested.toLowerCase();
+
+  if (wanted === 'mock') return { id: 'mock' };
+  if (!proxyEnabled) {
+    return {
+      id: 'mock',
+      fallbackReason: wanted === 'gemini' ? 'Clé API Gemini manquante côté serveur (GEMINI_API_KEY).' : undefined
+    };
+  }
+  return { id: 'gemini', proxyUrl: GEMINI_PROXY_URL };
+}
+
+export function createProvider(config: ProviderConfig): LlmProvider {
+  switch (config.id) {
+    case 'gemini': return createGeminiProvider(config.proxyUrl || GEMINI_PROXY_URL);
+    case 'mock': return createMockProvider();
+  }
+}
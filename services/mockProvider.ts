@@ -0,0 +1,315 @@
+import { LlmProvider, GenerateRequest, LiveSessionConfig, LiveSessionHandlers, LiveConnection } from './llmProvider';
+import { arrayBufferToBase64 } from './audioUtils';
+
+// --- TEXTE ---
+
+const WORD_DELAY_MS = 15;
+
+interface ScriptedAnswer {
+  match: RegExp;
+  answer: string;
+}
+
+// Réponses fixes pour les actions rapides : le simulateur reste déterministe d'une exécution à l'autre.
+const SCRIPTED_ANSWERS: ScriptedAnswer[] = [
+  {
+    match: /\b(qui es-tu|ton nom|qui êtes-vous)\b/i,
+    answer: "Je suis **Ada**, en **mode démonstration hors ligne**. Mes réponses sont simulées : aucune requête n'est envoyée à un modèle d'IA."
+  },
+  {
+    match: /\bQCM\b/i,
+    answer: "### QCM (démonstration)\n\nQuel est l'objet principal d'un service public ?\n\n- **A.** Réaliser un profit\n- **B.** Répondre à un besoin d'intérêt général\n- **C.** Édicter des règles de police\n\nRépondez par A, B ou C."
+  },
+  {
+    match: /\bvrai ou faux\b|\bvrai\/faux\b/i,
+    answer: "### Vrai ou Faux (démonstration)\n\n« Le principe de continuité du service public interdit toute grève dans les services publics. »\n\nVrai ou faux ?"
+  },
+  {
+    match: /\bcas pratique\b/i,
+    answer: "### Cas pratique (démonstration)\n\nUne commune confie à une société privée la gestion de sa piscine municipale, en lui laissant le risque d'exploitation.\n\nQuel est le contrat conclu ?"
+  },
+  {
+    match: /\bquiz\b/i,
+    answer: "### Quiz (démonstration)\n\nQuels sont les deux critères jurisprudentiels de l'identification d'un service public ?"
+  }
+];
+
+/**
+ * Premier extrait numéroté du bloc "EXTRAITS DU COURS" de l'instruction système, s'il existe.
+ */
+function firstExcerpt(systemInstruction: string): string | null {
+  const m = systemInstruction.match(/\n\[1\] [^\n]*\n([\s\S]*?)(?:\n\n---\n\n|$)/);
+  if (!m) return null;
+  const text = m[1].trim();
+  return text.length > 600 ? `${text.slice(0, 600)}…` : text;
+}
+
+// Questions fixes des exercices structurés, tirées des mêmes exemples que les réponses scriptées.
+const SCRIPTED_QUIZ_ITEMS = [
+  {
+    type: 'qcm',
+    question: "Quel est l'objet principal d'un service public ?",
+    choices: ['Réaliser un profit', "Répondre à un besoin d'intérêt général", 'Édicter des règles de police'],
+    answerIndex: 1,
+    explanation: "Un service public est avant tout une activité d'intérêt général (réponse simulée)."
+  },
+  {
+    type: 'vrai-faux',
+    question: "Le principe de continuité du service public interdit toute grève dans les services publics.",
+    choices: ['Vrai', 'Faux'],
+    answerIndex: 1,
+    explanation: "Faux : la continuité se concilie avec le droit de grève (réponse simulée)."
+  },
+  {
+    type: 'qcm',
+    question: "Une commune confie la gestion de sa piscine à une société privée qui supporte le risque d'exploitation. Quel contrat est conclu ?",
+    choices: ['Un marché public', 'Une délégation de service public', 'Un contrat de travail'],
+    answerIndex: 1,
+    explanation: "Le transfert du risque d'exploitation caractérise la délégation de service public (réponse simulée)."
+  },
+  {
+    type: 'vrai-faux',
+    question: "Un service public peut être géré par une personne privée.",
+    choices: ['Vrai', 'Faux'],
+    answerIndex: 0,
+    explanation: "Vrai : la gestion d'un service public peut être confiée à une personne privée (réponse simulée)."
+  }
+];
+
+const SCRIPTED_SHORT_QUESTION = {
+  question: 'Définissez le service public et citez ses trois principes de fonctionnement.',
+  expected: "Le service public est une activité d'intérêt général assurée ou contrôlée par une personne publique ; il obéit aux principes de continuité, d'égalité et de mutabilité (réponse simulée)."
+};
+
+const SCRIPTED_CASE = {
+  title: 'La piscine de Saint-Amand (démonstration)',
+  facts: "La commune de Saint-Amand confie par contrat à la société Aquaval la gestion de sa piscine municipale. La société se rémunère sur les entrées et supporte les pertes éventuelles. Après deux saisons déficitaires, elle ferme le bassin pendant l'été sans l'accord de la commune.",
+  question: "Quelle est la nature du contrat conclu, et la commune peut-elle exiger la réouverture de la piscine ?",
+  expectedIssues: [
+    "Qualifier le contrat de délégation de service public (transfert du risque d'exploitation).",
+    'Rappeler le principe de continuité du service public.',
+    "Appliquer ces règles à la fermeture décidée par le délégataire."
+  ]
+};
+
+/**
+ * Réponse structurée au format demandé par le schéma, reconnu à ses propriétés :
+ * quiz (types de questions autorisés repris, chaque question renvoyant au premier paragraphe du premier extrait),
+ * énoncé de cas pratique, correction (la moitié des points à chaque critère de la grille),
+ * sujet d'examen blanc (QCM scriptés puis une question de cours) ou correction des questions de cours (un point chacune).
+ */
+function buildStructuredAnswer(request: GenerateRequest): string {
+  const properties = request.responseSchema?.properties || {};
+
+  if (properties.criteria) {
+    const criterionIds = properties.criteria.items?.properties?.criterionId?.enum || [];
+    const pointsOf = (id: string) => Number(request.systemInstruction.match(new RegExp(`- ${id} — .*?\\((\\d+(?:[.,]\\d+)?) pts\\)`))?.[1]?.replace(',', '.')) || 2;
+    return JSON.stringify({
+      criteria: criterionIds.map(id => ({ criterionId: id, score: pointsOf(id) / 2, comment: 'Évaluation simulée : la moitié des points est attribuée.' })),
+      feedback: '*Mode démonstration hors ligne — correction simulée.*'
+    });
+  }
+
+  if (properties.facts) return JSON.stringify(SCRIPTED_CASE);
+
+  if (properties.grades) {
+    const questionIds = properties.grades.items?.properties?.questionId?.enum || [];
+    return JSON.stringify({
+      grades: questionIds.map(id => ({ questionId: id, score: 1, comment: 'Évaluation simulée : un point est attribué.' }))
+    });
+  }
+
+  if (properties.questions) {
+    const sectionIds = properties.questions.items?.properties?.sectionId?.enum || [];
+    const count = Number(properties.questions.maxItems) || 5;
+    const qcm = Math.ceil(count * 0.6);
+    const scripted = SCRIPTED_QUIZ_ITEMS.filter(item => item.type === 'qcm');
+    return JSON.stringify({
+      questions: Array.from({ length: count }, (_, i) => ({
+        sectionId: sectionIds[i % Math.max(1, sectionIds.length)],
+        ...(i < qcm
+          ? { kind: 'qcm', ...scripted[i % scripted.length], expected: scripted[i % scripted.length].explanation }
+          : { kind: 'short', question: SCRIPTED_SHORT_QUESTION.question, choices: [], answerIndex: -1, expected: SCRIPTED_SHORT_QUESTION.expected })
+      }))
+    });
+  }
+
+  const itemSchema = properties.items;
+  const allowed = itemSchema?.items?.properties?.type?.enum || ['qcm', 'vrai-faux'];
+  const count = Number(itemSchema?.maxItems) || 3;
+  const lines = (firstExcerpt(request.systemInstruction) || '').split('\n').map(l => l.trim());
+  const passage = lines.find(l => l.length > 60 && !l.endsWith('…')) || '';
+  const items = SCRIPTED_QUIZ_ITEMS.filter(item => allowed.includes(item.type)).slice(0, count);
+  return JSON.stringify({ items: items.map(item => ({ ...item, passage })) });
+}
+
+function buildAnswer(request: GenerateRequest): string {
+  if (request.responseSchema) return buildStructuredAnswer(request);
+  const question = [...request.contents].reverse().find(t => t.role === 'user')?.text || '';
+  const scripted = SCRIPTED_ANSWERS.find(s => s.match.test(question));
+  if (scripted) return scripted.answer;
+
+  const excerpt = firstExcerpt(request.systemInstruction);
+  return [
+    `*Mode démonstration hors ligne — réponse simulée.*`,
+    `Vous avez demandé : « ${question.trim()} ».`,
+    excerpt
+      ? `Voici le passage du cours qui semble le plus pertinent [1] :\n\n> ${excerpt.replace(/\n+/g, '\n> ')}`
+      : `Cette précision ne figure pas dans les extraits transmis au simulateur.`
+  ].join('\n\n');
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// --- AUDIO ---
+
+const OUTPUT_RATE = 24000;
+const INPUT_RATE = 16000;
+const CHUNK_MS = 100;
+const SPEECH_THRESHOLD = 0.02;
+const END_OF_TURN_SILENCE_MS = 800;
+
+// Sous-titres simulés : l'audio de l'étudiant n'est pas reconnu, seule sa prise de parole est signalée
+const SCRIPTED_USER_CAPTION = "(intervention de l'étudiant — transcription simulée)";
+const SCRIPTED_GREETING = "Bonjour ! Je vous entends parfaitement. Sur quelle partie du cours souhaitez-vous travailler aujourd'hui ?";
+const SCRIPTED_REPLY = "C'est une bonne question. Reprenons la définition du cours avant de l'appliquer à votre exemple (réponse simulée).";
+
+/**
+ * "Voix" synthétique : quelques harmoniques modulées, assez proche d'une syllabe pour tester la lecture.
+ */
+function synthesizeReply(durationMs: number): string[] {
+  const samplesPerChunk = OUTPUT_RATE * CHUNK_MS / 1000;
+  const total = Math.round(OUTPUT_RATE * durationMs / 1000);
+  const chunks: string[] = [];
+  for (let offset = 0; offset < total; offset += samplesPerChunk) {
+    const pcm = new Int16Array(Math.min(samplesPerChunk, total - offset));
+    for (let i = 0; i < pcm.length; i++) {
+      const t = (offset + i) / OUTPUT_RATE;
+      const syllable = Math.max(0, Math.sin(Math.PI * 4 * t));
+      const voice = 0.6 * Math.sin(2 * Math.PI * 140 * t) + 0.3 * Math.sin(2 * Math.PI * 280 * t) + 0.1 * Math.sin(2 * Math.PI * 420 * t);
+      pcm[i] = Math.round(voice * syllable * 0.3 * 0x7FFF);
+    }
+    chunks.push(arrayBufferToBase64(pcm.buffer));
+  }
+  return chunks;
+}
+
+function rmsOf(base64Pcm: string): { rms: number; durationMs: number } {
+  const binary = atob(base64Pcm);
+  const samples = Math.floor(binary.length / 2);
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    let v = binary.charCodeAt(2 * i) | (binary.charCodeAt(2 * i + 1) << 8);
+    if (v >= 0x8000) v -= 0x10000;
+    sum += (v / 0x8000) ** 2;
+  }
+  return { rms: samples ? Math.sqrt(sum / samples) : 0, durationMs: samples * 1000 / INPUT_RATE };
+}
+
+/**
+ * Simulateur hors ligne : réponses scriptées ou en écho pour le texte, voix synthétique pour le mode oral.
+ * Permet de développer, de faire une démonstration ou de tester l'application sans réseau ni clé API.
+ */
+export function createMockProvider(): LlmProvider {
+  async function* generateStream(request: GenerateRequest): AsyncGenerator<string> {
+    const words = buildAnswer(request).split(/(?<=\s)/);
+    // Longueur de sortie : même estimation grossière que le reste de l'application (≈ 4 caractères par token)
+    let remainingChars = (request.settings?.maxOutputTokens ?? Infinity) * 4;
+    for (const word of words) {
+      if (request.signal?.aborted || remainingChars <= 0) return;
+      remainingChars -= word.length;
+      await wait(WORD_DELAY_MS);
+      yield word;
+    }
+  }
+
+  const connectLive = (config: LiveSessionConfig, handlers: LiveSessionHandlers): LiveConnection => {
+    let closed = false;
+    let timers: ReturnType<typeof setTimeout>[] = [];
+    let userSpeaking = false;
+    let silenceMs = 0;
+    let replying = false;
+
+    const clearTimers = () => {
+      timers.forEach(clearTimeout);
+      timers = [];
+    };
+
+    // Voix synthétique accompagnée de sa transcription, mot à mot sur la durée de la réponse
+    const reply = (durationMs: number, caption: string) => {
+      clearTimers();
+      replying = true;
+      const chunks = synthesizeReply(durationMs);
+      chunks.forEach((chunk, i) => {
+        timers.push(setTimeout(() => !closed && handlers.onAudio(chunk), i * CHUNK_MS));
+      });
+      const words = caption.split(/(?<=\s)/);
+      words.forEach((word, i) => {
+        timers.push(setTimeout(() => !closed && handlers.onTranscription('model', word), i * durationMs / words.length));
+      });
+      timers.push(setTimeout(() => {
+        replying = false;
+        if (!closed) handlers.onTurnComplete();
+      }, chunks.length * CHUNK_MS));
+    };
+
+    timers.push(setTimeout(() => {
+      if (closed) return;
+      handlers.onOpen();
+      handlers.onSetupComplete();
+      // Comme le serveur, le simulateur fournit un jeton de reprise (sans contexte à restaurer)
+      handlers.onResumptionHandle(`simulateur-${Date.now()}`);
+    }, 200));
+
+    // L'étudiant coupe la parole : même comportement que le serveur ("interrupted")
+    const startSpeaking = () => {
+      if (replying) {
+        clearTimers();
+        replying = false;
+        handlers.onInterrupted();
+      }
+      userSpeaking = true;
+      silenceMs = 0;
+    };
+
+    const endOfTurn = () => {
+      if (!userSpeaking) return;
+      userSpeaking = false;
+      silenceMs = 0;
+      handlers.onTranscription('user', SCRIPTED_USER_CAPTION);
+      reply(4000, SCRIPTED_REPLY);
+    };
+
+    return {
+      sendAudio: (base64Pcm) => {
+        // En mode manuel, les prises de parole sont signalées par le client
+        if (closed || config.manualActivity) return;
+        const { rms, durationMs } = rmsOf(base64Pcm);
+        if (rms > SPEECH_THRESHOLD) {
+          startSpeaking();
+          return;
+        }
+        if (!userSpeaking) return;
+        silenceMs += durationMs;
+        if (silenceMs >= END_OF_TURN_SILENCE_MS) endOfTurn();
+      },
+      sendActivityStart: () => {
+        if (!closed) startSpeaking();
+      },
+      sendActivityEnd: () => {
+        if (!closed) endOfTurn();
+      },
+      sendText: () => {
+        if (!closed) reply(3500, SCRIPTED_GREETING);
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        clearTimers();
+        handlers.onClose();
+      }
+    };
+  };
+
+  return { id: 'mock', label: 'Simulateur hors ligne', generateStream, connectLive };
+}
@@ -0,0 +1,50 @@
+import { PCM_CAPTURE_PROCESSOR, createDownsampler, floatTo16BitPCM, levelOf } from './audioUtils';
+
+// --- CAPTURE DU MICRO (AudioWorklet, hors du fil principal) ---
+// Chargé par audioWorklet.addModule() : ce module s'exécute dans l'AudioWorkletGlobalScope,
+// sans accès au DOM (ni window, ni btoa). L'encodage Base64 reste donc au fil principal.
+
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+/** Format attendu par l'API Live : PCM 16 bits mono à 16 kHz. */
+const TARGET_RATE = 16000;
+/** Morceaux de 100 ms, la cadence des envois au serveur et des mises à jour du volumètre. */
+const CHUNK_SAMPLES = TARGET_RATE / 10;
+
+/**
+ * Rééchantillonne le micro à 16 kHz, l'encode en PCM 16 bits et mesure son niveau,
+ * puis poste des morceaux prêts à l'envoi : { pcm: ArrayBuffer, level: number }.
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private downsample = createDownsampler(sampleRate, TARGET_RATE);
+  private chunk = new Float32Array(CHUNK_SAMPLES);
+  private filled = 0;
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    const samples = this.downsample(channel);
+    let offset = 0;
+    while (offset < samples.length) {
+      const count = Math.min(samples.length - offset, CHUNK_SAMPLES - this.filled);
+      this.chunk.set(samples.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === CHUNK_SAMPLES) this.flush();
+    }
+    return true;
+  }
+
+  private flush() {
+    const pcm = floatTo16BitPCM(this.chunk) as ArrayBuffer;
+    this.port.postMessage({ pcm, level: levelOf(this.chunk) }, [pcm]);
+    this.filled = 0;
+  }
+}
+
+registerProcessor(PCM_CAPTURE_PROCESSOR, PcmCaptureProcessor);
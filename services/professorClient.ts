@@ -0,0 +1,159 @@
+import { ContentVersion, CourseConfig, CourseSummary, ProfessorAccount, QuoteDeviation, QuoteReport, TeacherSession, VersionedField } from '../types';
+
+/**
+ * Session absente, expirée ou révoquée côté serveur : il faut se reconnecter.
+ */
+export class AuthError extends Error {}
+
+export type PublishedCourse = Partial<CourseConfig> & { id: string; title: string; description: string; updatedAt?: string };
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json();
+    return body?.error?.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Appel authentifié à l'API de l'espace de travail. Lève AuthError sur 401, une erreur prête à afficher sinon.
+ */
+async function request<T>(token: string, method: string, url: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  if (response.status === 401) throw new AuthError(await errorMessage(response, 'Session expirée.'));
+  if (!response.ok) throw new Error(await errorMessage(response, "Échec de l'opération."));
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+/**
+ * Réponse JSON d'une route publique ; `null` si l'API n'est pas disponible (site statique sans serveur).
+ */
+async function fetchPublic<T>(url: string): Promise<T | null> {
+  try {
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok || !response.headers.get('content-type')?.includes('application/json')) return null;
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ouvre une session professeur. Le mot de passe est vérifié par le serveur, jamais dans le navigateur.
+ * Lève une erreur dont le message est prêt à afficher (identifiants incorrects, verrouillage...).
+ */
+export async function login(username: string, password: string): Promise<TeacherSession> {
+  let response: Response;
+  try {
+    response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    });
+  } catch {
+    throw new Error('Serveur injoignable.');
+  }
+  if (!response.ok) throw new Error(await errorMessage(response, 'Connexion impossible.'));
+  return response.json();
+}
+
+export async function logout(token: string): Promise<void> {
+  await fetch('/api/auth/logout', { method: 'POST', headers: { Authorization: `Bearer ${token}` } });
+}
+
+/**
+ * Vérifie auprès du serveur qu'une session conservée dans l'onglet est toujours valide (et relit les droits du compte).
+ * Renvoie `null` seulement si le serveur refuse la session : une panne passagère la laisse telle quelle.
+ */
+export async function checkSession(session: TeacherSession): Promise<TeacherSession | null> {
+  try {
+    const { expiresAt, account } = await request<{ expiresAt: number; account: ProfessorAccount }>(session.token, 'GET', '/api/auth/session');
+    return { token: session.token, expiresAt, account };
+  } catch (error) {
+    return error instanceof AuthError ? null : session;
+  }
+}
+
+export const fetchCatalogue = () => fetchPublic<CourseSummary[]>('/api/courses');
+
+/**
+ * Configuration publiée d'un cours. Contrairement au catalogue, un échec lève une erreur prête à afficher :
+ * le confondre avec un cours sans réglages ferait afficher, puis republier, le contenu par défaut.
+ */
+export async function fetchCourse(courseId: string): Promise<PublishedCourse> {
+  let response: Response;
+  try {
+    response = await fetch(`/api/courses/${encodeURIComponent(courseId)}`, { headers: { Accept: 'application/json' } });
+  } catch {
+    throw new Error('Serveur injoignable.');
+  }
+  if (!response.ok) throw new Error(await errorMessage(response, 'Chargement du cours impossible.'));
+  return response.json();
+}
+
+/**
+ * Publie une modification du cours. Un changement du contenu ou de l'instruction crée une version,
+ * accompagnée de `versionMessage` s'il est fourni.
+ */
+export function saveCourse(
+  token: string,
+  courseId: string,
+  patch: Partial<CourseConfig> & { title?: string; description?: string; versionMessage?: string }
+): Promise<PublishedCourse> {
+  return request(token, 'PUT', `/api/courses/${encodeURIComponent(courseId)}`, patch);
+}
+
+export function fetchVersions(token: string, courseId: string, field: VersionedField): Promise<ContentVersion[]> {
+  return request(token, 'GET', `/api/courses/${encodeURIComponent(courseId)}/history/${field}`);
+}
+
+export async function fetchVersion(token: string, courseId: string, field: VersionedField, versionId: string): Promise<string> {
+  const { text } = await request<{ text: string }>(token, 'GET', `/api/courses/${encodeURIComponent(courseId)}/history/${field}/${encodeURIComponent(versionId)}`);
+  return text;
+}
+
+/**
+ * Signale au professeur les citations du cours qu'une réponse n'a pas reproduites fidèlement.
+ * Sans serveur (site statique) ou en cas d'échec, le signalement est simplement perdu : l'étudiant n'en est pas gêné.
+ */
+export async function reportQuoteDeviations(courseId: string, report: { question: string; deviations: QuoteDeviation[] }): Promise<void> {
+  try {
+    await fetch(`/api/courses/${encodeURIComponent(courseId)}/quote-reports`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question: report.question, deviations: report.deviations.map(({ source, ...deviation }) => deviation) })
+    });
+  } catch {
+    // Signalement perdu, sans conséquence pour l'étudiant
+  }
+}
+
+export function fetchQuoteReports(token: string, courseId: string): Promise<QuoteReport[]> {
+  return request(token, 'GET', `/api/courses/${encodeURIComponent(courseId)}/quote-reports`);
+}
+
+export function clearQuoteReports(token: string, courseId: string): Promise<void> {
+  return request(token, 'DELETE', `/api/courses/${encodeURIComponent(courseId)}/quote-reports`);
+}
+
+export function createCourse(token: string, course: { title: string; description: string }): Promise<PublishedCourse> {
+  return request(token, 'POST', '/api/courses', course);
+}
+
+export function fetchAccounts(token: string): Promise<ProfessorAccount[]> {
+  return request(token, 'GET', '/api/accounts');
+}
+
+export function saveAccount(token: string, account: Omit<ProfessorAccount, 'isAdmin'> & { isAdmin?: boolean; password?: string }): Promise<ProfessorAccount> {
+  const { username, ...body } = account;
+  return request(token, 'PUT', `/api/accounts/${encodeURIComponent(username)}`, body);
+}
+
+export function deleteAccount(token: string, username: string): Promise<void> {
+  return request(token, 'DELETE', `/api/accounts/${encodeURIComponent(username)}`);
+}
@@ -0,0 +1,195 @@
+import { ChatMessage, CourseContext, Quiz, QuizItem, QuizKind, SourceReference } from '../types';
+import { ResponseSchema } from './llmProvider';
+import { CourseContextBlock, CourseIndex } from './retrieval';
+import { findNodeAt, getNodePath } from './courseParser';
+import { resolveSources } from './citations';
+
+// --- QUIZ, QCM ET VRAI/FAUX STRUCTURÉS ---
+
+const QUIZ_LENGTH = 3;
+const MAX_QUIZ_ITEMS = 5;
+const TRUE_FALSE_CHOICES = ['Vrai', 'Faux'];
+
+export const QUIZ_LABELS: Record<QuizKind, string> = {
+  quiz: 'Quiz rapide',
+  qcm: 'QCM',
+  'vrai-faux': 'Vrai ou faux'
+};
+
+/** Demande affichée dans la conversation (et transmise au modèle) pour chaque type d'exercice. */
+export const QUIZ_PROMPTS: Record<QuizKind, string> = {
+  quiz: `Génère un quiz rapide de ${QUIZ_LENGTH} questions sur le cours, en mêlant QCM et affirmations vrai ou faux.`,
+  qcm: `Crée un QCM de ${QUIZ_LENGTH} questions sur le cours, avec 3 choix par question.`,
+  'vrai-faux': `Donne-moi ${QUIZ_LENGTH} affirmations vrai ou faux à vérifier sur le cours.`
+};
+
+const ITEM_TYPES: Record<QuizKind, QuizItem['type'][]> = {
+  quiz: ['qcm', 'vrai-faux'],
+  qcm: ['qcm'],
+  'vrai-faux': ['vrai-faux']
+};
+
+/**
+ * Schéma imposé au modèle : des questions corrigées, chacune rattachée au passage du cours qu'elle teste.
+ */
+export function quizSchema(kind: QuizKind): ResponseSchema {
+  return {
+    type: 'OBJECT',
+    properties: {
+      items: {
+        type: 'ARRAY',
+        minItems: String(QUIZ_LENGTH),
+        maxItems: String(QUIZ_LENGTH),
+        items: {
+          type: 'OBJECT',
+          properties: {
+            type: { type: 'STRING', enum: ITEM_TYPES[kind] },
+            question: { type: 'STRING', description: "Énoncé de la question, ou affirmation à juger pour un vrai/faux." },
+            choices: { type: 'ARRAY', items: { type: 'STRING' }, description: 'Choix proposés ; exactement ["Vrai", "Faux"] pour un vrai/faux.' },
+            answerIndex: { type: 'INTEGER', description: 'Position (à partir de 0) de la bonne réponse dans choices.' },
+            explanation: { type: 'STRING', description: 'Correction justifiée par le cours, avec les renvois [n] aux extraits.' },
+            passage: { type: 'STRING', description: 'Phrase du cours testée par la question, recopiée mot pour mot.' }
+          },
+          required: ['type', 'question', 'choices', 'answerIndex', 'explanation', 'passage'],
+          propertyOrdering: ['type', 'question', 'choices', 'answerIndex', 'explanation', 'passage']
+        }
+      }
+    },
+    required: ['items']
+  };
+}
+
+export const QUIZ_INSTRUCTION = `EXERCICE STRUCTURÉ : Réponds uniquement par l'objet JSON demandé, sans texte autour.
+- Chaque question porte sur un point précis du cours, jamais sur une connaissance extérieure ; les questions portent sur des points différents.
+- QCM : 3 choix plausibles dont un seul exact. Vrai ou faux : une affirmation, choix ["Vrai", "Faux"].
+- "passage" recopie mot pour mot la phrase du cours qui permet de répondre.
+- "explanation" corrige la question en s'appuyant sur le cours et cite les définitions et arrêts exactement.`;
+
+/**
+ * Erreur levée quand la réponse du modèle n'est pas un exercice exploitable.
+ */
+export class QuizFormatError extends Error {}
+
+function toItem(raw: unknown, kind: QuizKind): (QuizItem & { passage: string }) | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const item = raw as Record<string, unknown>;
+  const type = ITEM_TYPES[kind].includes(item.type as QuizItem['type']) ? item.type as QuizItem['type'] : null;
+  const question = typeof item.question === 'string' ? item.question.trim() : '';
+  if (!type || !question) return null;
+
+  let choices = Array.isArray(item.choices)
+    ? item.choices.filter((c): c is string => typeof c === 'string' && c.trim() !== '').map(c => c.trim())
+    : [];
+  let answerIndex = Number(item.answerIndex);
+  if (type === 'vrai-faux') {
+    // "Faux" seul ou des libellés en minuscules : la réponse est relue d'après le libellé choisi
+    const label = choices[answerIndex]?.toLowerCase();
+    answerIndex = label === 'faux' ? 1 : label === 'vrai' ? 0 : answerIndex;
+    choices = TRUE_FALSE_CHOICES;
+  }
+  if (choices.length < 2 || !Number.isInteger(answerIndex) || answerIndex < 0 || answerIndex >= choices.length) return null;
+
+  return {
+    type,
+    question,
+    choices,
+    answerIndex,
+    explanation: typeof item.explanation === 'string' ? item.explanation.trim() : '',
+    passage: typeof item.passage === 'string' ? item.passage.trim() : ''
+  };
+}
+
+/**
+ * Position du passage testé par une question. Le passage recopié par le modèle est cherché tel quel dans le cours ;
+ * à défaut, c'est le passage le plus proche de la question et de sa correction qui est retenu.
+ */
+function locateItem(
+  index: CourseIndex,
+  course: CourseContext,
+  block: CourseContextBlock,
+  item: QuizItem,
+  passage: string,
+  marker: number
+): SourceReference | undefined {
+  const start = passage.length > 20 ? course.content.indexOf(passage) : -1;
+  if (start !== -1) {
+    const nodeId = findNodeAt(course.structure, start).id;
+    return {
+      marker,
+      nodeId,
+      path: getNodePath(course.structure, nodeId).map(n => n.label).join(' › '),
+      start,
+      end: start + passage.length,
+      excerpt: passage
+    };
+  }
+  const [closest] = resolveSources(index, course.content, block, `${item.question} ${item.explanation} ${passage}`);
+  return closest && { ...closest, marker };
+}
+
+/**
+ * Lit l'exercice renvoyé par le modèle : les questions mal formées sont écartées,
+ * et chaque question est rattachée au passage du cours qu'elle teste.
+ */
+export function parseQuiz(kind: QuizKind, json: string, index: CourseIndex, course: CourseContext, block: CourseContextBlock): Quiz {
+  let data: unknown;
+  try {
+    data = JSON.parse(json.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new QuizFormatError("L'exercice reçu est illisible.");
+  }
+  const rawItems = Array.isArray((data as { items?: unknown })?.items) ? (data as { items: unknown[] }).items : [];
+  const items = rawItems
+    .map(raw => toItem(raw, kind))
+    .filter((item): item is QuizItem & { passage: string } => item !== null)
+    .slice(0, MAX_QUIZ_ITEMS)
+    .map(({ passage, ...item }, i) => ({ ...item, source: locateItem(index, course, block, item, passage, i + 1) }));
+  if (items.length === 0) throw new QuizFormatError("L'exercice reçu ne contient aucune question exploitable.");
+  return { kind, items };
+}
+
+/**
+ * Version texte de l'exercice, gardée dans l'historique : le modèle sait ainsi quelles questions
+ * ont été posées, et ce que l'étudiant y a répondu, lorsque la conversation se poursuit.
+ */
+export function quizToText(quiz: Quiz): string {
+  const letter = (i: number) => String.fromCharCode(65 + i);
+  const items = quiz.items.map((item, i) => {
+    const choices = item.choices.map((choice, c) => `   - ${letter(c)}. ${choice}`).join('\n');
+    const response = item.response === undefined
+      ? "Pas encore de réponse de l'étudiant."
+      : `Réponse de l'étudiant : ${letter(item.response)} (${item.response === item.answerIndex ? 'juste' : 'fausse'}).`;
+    return `${i + 1}. ${item.question}\n${choices}\n   Bonne réponse : ${letter(item.answerIndex)}. ${item.explanation}\n   ${response}`;
+  });
+  return `### ${QUIZ_LABELS[quiz.kind]}\n\n${items.join('\n\n')}`;
+}
+
+export interface QuizScore {
+  correct: number;
+  answered: number;
+  total: number;
+}
+
+/** Score des exercices d'une conversation. */
+export function quizScore(messages: ChatMessage[]): QuizScore {
+  const items = messages.flatMap(m => m.quiz?.items || []);
+  const answered = items.filter(item => item.response !== undefined);
+  return {
+    correct: answered.filter(item => item.response === item.answerIndex).length,
+    answered: answered.length,
+    total: items.length
+  };
+}
+
+/**
+ * Thème de l'exercice pour la sélection des extraits : la dernière question de l'étudiant,
+ * ou une section du cours tirée au hasard au début d'une conversation.
+ */
+export function quizTopic(course: CourseContext, history: ChatMessage[]): { query: string; section?: string } {
+  const lastQuestion = [...history].reverse().find(m => m.role === 'user' && !Object.values(QUIZ_PROMPTS).some(p => m.text.startsWith(p)));
+  if (lastQuestion) return { query: lastQuestion.text };
+  const sections = course.structure.headings.filter(h => h.kind === 'section' && h.title);
+  if (sections.length === 0) return { query: '' };
+  const section = sections[Math.floor(Math.random() * sections.length)];
+  return { query: `${section.label} ${section.title}`, section: section.title };
+}
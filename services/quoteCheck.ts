@@ -0,0 +1,268 @@
+import { CourseContext, CourseDefinition, CourseOccurrence, ParsedCourse, QuoteDeviation, SourceReference } from '../types';
+import { getNodePath, parseCourse, slugify } from './courseParser';
+
+// --- CONTRÔLE DES CITATIONS (définitions, arrêts et textes reproduits mot pour mot) ---
+
+/** Longueur des suites de mots comparées entre la réponse et les définitions du cours. */
+const SHINGLE = 3;
+const MIN_DEFINITION_WORDS = 6;
+const MIN_SHARED_SHINGLES = 3;
+/** Part des suites d'une définition retrouvées dans la réponse à partir de laquelle la réponse est tenue pour la citer. */
+const QUOTE_THRESHOLD = 0.4;
+/** Mots étrangers à la définition tolérés à l'intérieur d'une citation (mots ajoutés ou remplacés). */
+const MAX_GAP = 6;
+/** Signes qui bornent la phrase ou la proposition dans laquelle une définition est citée. */
+const CLAUSE_BOUNDARY = /[.!?;:«»“”"\n]/;
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface QuotableDefinition {
+  definition: CourseDefinition;
+  words: string[];
+  shingles: Set<string>;
+}
+
+export interface QuoteIndex {
+  course: CourseContext;
+  definitions: QuotableDefinition[];
+}
+
+// Comparaison insensible à la casse, à la ponctuation et aux guillemets, mais pas aux accents ni à l'ordre des mots
+function toWords(text: string): Word[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+/gu)].map(m => ({ text: m[0].toLowerCase(), start: m.index!, end: m.index! + m[0].length }));
+}
+
+const shingleAt = (words: string[], i: number) => words.slice(i, i + SHINGLE).join(' ');
+
+/** Part des mots communs aux deux textes, dans le même ordre (plus longue sous-suite commune). */
+function similarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return (2 * previous[b.length]) / (a.length + b.length);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Texte de la réponse débarrassé de la mise en forme Markdown et des renvois "[n]",
+ * pour que "**Conseil d'État**, *27 juillet 1923*" se lise comme dans le cours.
+ */
+function plainText(answer: string): string {
+  return answer
+    .replace(/\[\d{1,2}\]/g, '')
+    .replace(/^\s{0,3}(?:#{1,6}|>|[-+*])\s+/gm, '')
+    .replace(/[*_`]/g, '');
+}
+
+function occurrenceSource(course: CourseContext, occurrence: { nodeId: string; start: number; end: number }): SourceReference {
+  return {
+    marker: 1,
+    nodeId: occurrence.nodeId,
+    path: getNodePath(course.structure, occurrence.nodeId).map(n => n.label).join(' › '),
+    start: occurrence.start,
+    end: occurrence.end,
+    excerpt: course.content.slice(occurrence.start, occurrence.end)
+  };
+}
+
+/**
+ * Prépare le contrôle des citations d'un cours : les définitions (sans leurs rappels identiques)
+ * et les suites de mots qui permettent de les reconnaître dans une réponse.
+ */
+export function buildQuoteIndex(course: CourseContext): QuoteIndex {
+  const seen = new Set<string>();
+  const definitions: QuotableDefinition[] = [];
+  for (const definition of course.structure.definitions) {
+    const words = toWords(definition.text).map(w => w.text);
+    const key = words.join(' ');
+    if (words.length < MIN_DEFINITION_WORDS || seen.has(key)) continue;
+    seen.add(key);
+    const shingles = new Set<string>();
+    for (let i = 0; i + SHINGLE <= words.length; i++) shingles.add(shingleAt(words, i));
+    definitions.push({ definition, words, shingles });
+  }
+  return { course, definitions };
+}
+
+interface DefinitionCandidate {
+  quotable: QuotableDefinition;
+  from: number;        // premier et dernier mot de la réponse couverts par la citation
+  to: number;
+  exact: boolean;
+  similarity: number;
+}
+
+/**
+ * Étend un passage de la réponse à la proposition qui le contient (entre guillemets, deux-points,
+ * points-virgules ou fins de phrase) : les mots qui encadrent la citation en font partie.
+ */
+function clauseAround(text: string, words: Word[], from: number, to: number): { from: number; to: number } {
+  let left = words[from].start;
+  while (left > 0 && !CLAUSE_BOUNDARY.test(text[left - 1])) left--;
+  let right = words[to].end;
+  while (right < text.length && !CLAUSE_BOUNDARY.test(text[right])) right++;
+  while (from > 0 && words[from - 1].start >= left) from--;
+  while (to < words.length - 1 && words[to + 1].end <= right) to++;
+  return { from, to };
+}
+
+function checkDefinitions(index: QuoteIndex, text: string): QuoteDeviation[] {
+  const answerWords = toWords(text);
+  const answerTexts = answerWords.map(w => w.text);
+  const answerShingles = answerTexts.map((_, i) => shingleAt(answerTexts, i));
+  const candidates: DefinitionCandidate[] = [];
+
+  for (const quotable of index.definitions) {
+    const hits: number[] = [];
+    for (let i = 0; i + SHINGLE <= answerTexts.length; i++) {
+      if (quotable.shingles.has(answerShingles[i])) hits.push(i);
+    }
+    if (hits.length < MIN_SHARED_SHINGLES) continue;
+
+    // Série la plus fournie de suites proches les unes des autres : le passage qui cite la définition
+    let best = { from: hits[0], to: hits[0], count: 1 };
+    let run = { ...best };
+    for (let k = 1; k < hits.length; k++) {
+      run = hits[k] - hits[k - 1] <= MAX_GAP ? { ...run, to: hits[k], count: run.count + 1 } : { from: hits[k], to: hits[k], count: 1 };
+      if (run.count > best.count) best = run;
+    }
+    if (best.count < Math.max(MIN_SHARED_SHINGLES, quotable.shingles.size * QUOTE_THRESHOLD)) continue;
+
+    const to = best.to + SHINGLE - 1;
+    const quoted = answerTexts.slice(best.from, to + 1);
+    candidates.push({
+      quotable,
+      from: best.from,
+      to,
+      exact: quoted.join(' ') === quotable.words.join(' '),
+      similarity: similarity(quoted, quotable.words)
+    });
+  }
+
+  // Un même passage peut ressembler à plusieurs définitions (rappels reformulés dans le cours) :
+  // il est rattaché à celle qu'il reproduit le mieux.
+  candidates.sort((a, b) => Number(b.exact) - Number(a.exact) || b.similarity - a.similarity);
+  const accepted: DefinitionCandidate[] = [];
+  candidates.forEach(candidate => {
+    if (!accepted.some(other => candidate.from <= other.to && other.from <= candidate.to)) accepted.push(candidate);
+  });
+
+  return accepted
+    .sort((a, b) => a.from - b.from)
+    .flatMap(({ quotable, ...match }): QuoteDeviation[] => {
+      // La citation est lue jusqu'au bout de sa proposition : elle n'est tronquée que si elle reprend
+      // exactement le début ou la fin de la définition ; tout autre écart est une modification.
+      const { from, to } = clauseAround(text, answerWords, match.from, match.to);
+      const quoted = answerTexts.slice(from, to + 1);
+      const quotedWords = quoted.join(' ');
+      const expectedWords = quotable.words.join(' ');
+      if (quotedWords === expectedWords) return [];
+      const truncated = expectedWords.startsWith(quotedWords + ' ') || expectedWords.endsWith(' ' + quotedWords);
+      return [{
+        kind: 'definition',
+        reason: truncated ? 'truncated' : 'modified',
+        quoted: text.slice(answerWords[from].start, answerWords[to].end),
+        expected: quotable.definition.text,
+        similarity: round(similarity(quoted, quotable.words)),
+        source: occurrenceSource(index.course, quotable.definition)
+      }];
+    });
+}
+
+/** Occurrence du cours la plus proche d'une citation de la réponse. */
+function closestOccurrence(occurrences: CourseOccurrence[], raw: string): { occurrence: CourseOccurrence; similarity: number } {
+  const words = toWords(raw).map(w => w.text);
+  return occurrences
+    .map(occurrence => ({ occurrence, similarity: similarity(words, toWords(occurrence.raw).map(w => w.text)) }))
+    .reduce((a, b) => (b.similarity > a.similarity ? b : a));
+}
+
+function checkDecisions(index: QuoteIndex, cited: ParsedCourse): QuoteDeviation[] {
+  const { decisions } = index.course.structure;
+  const deviations: QuoteDeviation[] = [];
+
+  for (const decision of cited.decisions) {
+    const raw = decision.occurrences[0].raw;
+    // Même juridiction et même date ; à défaut, même nom d'usage (date ou juridiction erronée)
+    const sameDate = decisions.filter(d => d.court === decision.court && d.date === decision.date);
+    const candidates = sameDate.length > 0
+      ? sameDate
+      : decisions.filter(d => decision.shortName && slugify(d.shortName) === slugify(decision.shortName));
+
+    if (candidates.length === 0) {
+      deviations.push({ kind: 'decision', reason: 'unknown', quoted: raw, expected: '', similarity: 0 });
+      continue;
+    }
+
+    // Les abréviations usuelles ("CE", "Sect.") sont admises : seuls comptent juridiction, formation, date et parties.
+    const faithful = candidates.some(d =>
+      d.court === decision.court &&
+      d.date === decision.date &&
+      slugify(d.parties) === slugify(decision.parties) &&
+      (!decision.formation || !d.formation || d.formation === decision.formation)
+    );
+    if (faithful) continue;
+
+    const { occurrence, similarity: score } = closestOccurrence(candidates.flatMap(d => d.occurrences), raw);
+    deviations.push({
+      kind: 'decision',
+      reason: !decision.parties && sameDate.length > 0 ? 'truncated' : 'modified',
+      quoted: raw,
+      expected: occurrence.raw,
+      similarity: round(score),
+      source: occurrenceSource(index.course, occurrence)
+    });
+  }
+  return deviations;
+}
+
+function checkStatutes(index: QuoteIndex, cited: ParsedCourse): QuoteDeviation[] {
+  const { statutes } = index.course.structure;
+  const deviations: QuoteDeviation[] = [];
+
+  for (const statute of cited.statutes) {
+    const raw = statute.occurrences[0].raw;
+    const match = statutes.find(s => s.id === statute.id) || statutes.find(s => s.type === statute.type && s.date === statute.date);
+    if (!match) {
+      deviations.push({ kind: 'statute', reason: 'unknown', quoted: raw, expected: '', similarity: 0 });
+      continue;
+    }
+
+    const sameNumber = !statute.number || !match.number || statute.number === match.number;
+    const sameTitle = !statute.title || !match.title || slugify(match.title).startsWith(slugify(statute.title));
+    if (match.date === statute.date && sameNumber && sameTitle) continue;
+
+    const { occurrence, similarity: score } = closestOccurrence(match.occurrences, raw);
+    deviations.push({
+      kind: 'statute',
+      reason: 'modified',
+      quoted: raw,
+      expected: occurrence.raw,
+      similarity: round(score),
+      source: occurrenceSource(index.course, occurrence)
+    });
+  }
+  return deviations;
+}
+
+/**
+ * Vérifie qu'une réponse reproduit fidèlement les définitions, arrêts et textes du cours qu'elle cite
+ * (règles 5 à 8 de l'instruction). Renvoie les écarts constatés : citation modifiée ou tronquée,
+ * arrêt ou texte absent du cours. Une citation exacte ne donne lieu à aucun écart.
+ */
+export function checkQuotes(index: QuoteIndex, answer: string): QuoteDeviation[] {
+  const text = plainText(answer);
+  const cited = parseCourse(text);
+  return [...checkDefinitions(index, text), ...checkDecisions(index, cited), ...checkStatutes(index, cited)];
+}
@@ -0,0 +1,234 @@
+import { ChatMessage, CourseContext, RetrievalConfig } from '../types';
+import { getNodePath } from './courseParser';
+
+// --- DÉCOUPAGE ---
+
+export interface CourseChunk {
+  id: string;
+  nodeId: string;
+  path: string;        // "CHAPITRE I › SECTION I › II › B › 1"
+  start: number;       // offsets dans le texte du cours
+  end: number;
+  text: string;
+}
+
+export interface CourseIndex {
+  chunks: CourseChunk[];
+  totalTokens: number;
+  // BM25
+  termFreqs: Map<string, number>[];
+  docFreq: Map<string, number>;
+  lengths: number[];
+  avgLength: number;
+}
+
+export interface RankedPassage {
+  chunk: CourseChunk;
+  score: number;
+}
+
+export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
+  mode: 'retrieval',
+  tokenBudget: 6000
+};
+
+const MAX_CHUNK_CHARS = 1600;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Poids des messages précédents par rapport à la question courante.
+const HISTORY_WEIGHT = 0.35;
+const HISTORY_TURNS = 4;
+// Les passages dont le score est trop loin du meilleur ne sont pas envoyés, même si le budget le permet.
+const MIN_RELATIVE_SCORE = 0.25;
+
+/**
+ * Estimation grossière du nombre de tokens (≈ 4 caractères par token pour le français).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const STOPWORDS = new Set((
+  'a au aux avec ce ces cet cette dans de des du elle en est et eux il ils je la le les leur leurs lui ma mais me meme mes moi mon ne nos notre nous on ou par pas pour qu que qui sa se ses son sur ta te tes toi ton tu un une vos votre vous c d j l m n s t y ete etre avoir sont ont fait faire comme plus tout tous toute toutes ainsi donc or ni car si quoi quel quelle quels quelles est-ce cela ca celle celui ceux dont entre lorsque selon sans sous vers peut doit explique expliquer definition cours question'
+).split(' '));
+
+/**
+ * Découpe un texte en termes normalisés (minuscules, sans accents, sans mots vides, pluriels réduits).
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t))
+    .map(t => (t.length > 4 && /[sx]$/.test(t) ? t.slice(0, -1) : t));
+}
+
+/**
+ * Découpe le cours en passages alignés sur le plan : chaque titre ouvre un nouveau passage,
+ * et les passages trop longs sont coupés aux lignes vides (ou aux fins de ligne à défaut).
+ */
+export function chunkCourse(course: CourseContext): CourseChunk[] {
+  const { content, structure } = course;
+  const boundaries = [0, ...structure.headings.map(h => h.start), content.length]
+    .filter((v, i, arr) => i === 0 || v > arr[i - 1]);
+
+  const chunks: CourseChunk[] = [];
+  const pathCache = new Map<string, string>();
+  const pathFor = (nodeId: string) => {
+    if (!pathCache.has(nodeId)) {
+      pathCache.set(nodeId, getNodePath(structure, nodeId).map(n => n.label).join(' › '));
+    }
+    return pathCache.get(nodeId)!;
+  };
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const blockStart = boundaries[i];
+    const blockEnd = boundaries[i + 1];
+    const heading = structure.headings.find(h => h.start === blockStart);
+    const nodeId = heading ? heading.id : structure.root.id;
+
+    let start = blockStart;
+    while (start < blockEnd) {
+      let end = Math.min(blockEnd, start + MAX_CHUNK_CHARS);
+      if (end < blockEnd) {
+        const slice = content.slice(start, end);
+        const cut = Math.max(slice.lastIndexOf('\n\n'), slice.lastIndexOf('\n'));
+        if (cut > MAX_CHUNK_CHARS / 3) end = start + cut + 1;
+      }
+      const text = content.slice(start, end);
+      if (text.trim()) {
+        chunks.push({ id: `${nodeId}#${chunks.length}`, nodeId, path: pathFor(nodeId), start, end, text });
+      }
+      start = end;
+    }
+  }
+  return chunks;
+}
+
+// --- INDEX BM25 ---
+
+export function buildCourseIndex(course: CourseContext): CourseIndex {
+  const chunks = chunkCourse(course);
+  const termFreqs: Map<string, number>[] = [];
+  const docFreq = new Map<string, number>();
+  const lengths: number[] = [];
+
+  for (const chunk of chunks) {
+    // Le chemin du plan est indexé avec le passage : "police administrative" retrouve toute la section.
+    const tokens = tokenize(`${chunk.path} ${chunk.text}`);
+    const tf = new Map<string, number>();
+    for (const t of tokens) tf.set(t, (tf.get(t) || 0) + 1);
+    tf.forEach((_, t) => docFreq.set(t, (docFreq.get(t) || 0) + 1));
+    termFreqs.push(tf);
+    lengths.push(tokens.length);
+  }
+
+  return {
+    chunks,
+    totalTokens: estimateTokens(course.content),
+    termFreqs,
+    docFreq,
+    lengths,
+    avgLength: lengths.reduce((a, b) => a + b, 0) / Math.max(1, lengths.length)
+  };
+}
+
+function weightedQuery(question: string, history: ChatMessage[]): Map<string, number> {
+  const weights = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const t of tokenize(text)) weights.set(t, Math.max(weights.get(t) || 0, weight));
+  };
+  history.filter(m => !m.isError).slice(-HISTORY_TURNS).forEach(m => add(m.text, HISTORY_WEIGHT));
+  add(question, 1);
+  return weights;
+}
+
+/**
+ * Classe les passages du cours par pertinence (BM25) pour la question et la conversation en cours.
+ */
+export function rankPassages(index: CourseIndex, question: string, history: ChatMessage[] = []): RankedPassage[] {
+  const query = weightedQuery(question, history);
+  const n = index.chunks.length;
+  const ranked: RankedPassage[] = [];
+
+  index.chunks.forEach((chunk, i) => {
+    const tf = index.termFreqs[i];
+    let score = 0;
+    query.forEach((weight, term) => {
+      const f = tf.get(term);
+      if (!f) return;
+      const df = index.docFreq.get(term) || 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      const norm = f * (BM25_K1 + 1) / (f + BM25_K1 * (1 - BM25_B + BM25_B * index.lengths[i] / index.avgLength));
+      score += weight * idf * norm;
+    });
+    if (score > 0) ranked.push({ chunk, score });
+  });
+
+  return ranked.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Retient les meilleurs passages dans la limite du budget de tokens, puis les remet dans l'ordre du cours.
+ */
+export function selectPassages(index: CourseIndex, question: string, history: ChatMessage[], tokenBudget: number): RankedPassage[] {
+  const ranked = rankPassages(index, question, history);
+  const threshold = ranked.length ? ranked[0].score * MIN_RELATIVE_SCORE : 0;
+  const selected: RankedPassage[] = [];
+  let used = 0;
+  for (const passage of ranked) {
+    if (passage.score < threshold) break;
+    const cost = estimateTokens(passage.chunk.text);
+    if (used + cost > tokenBudget) continue;
+    selected.push(passage);
+    used += cost;
+  }
+  return selected.sort((a, b) => a.chunk.start - b.chunk.start);
+}
+
+// --- CONTEXTE ENVOYÉ AU MODÈLE ---
+
+export interface CourseContextBlock {
+  mode: 'full' | 'retrieval';
+  text: string;
+  passages: RankedPassage[];
+  estimatedTokens: number;
+}
+
+/**
+ * Construit le bloc "cours" à joindre à l'instruction système.
+ * Bascule sur le cours complet si la configuration le demande, si le cours tient dans le budget,
+ * ou si aucun passage pertinent n'a été trouvé.
+ */
+export function buildCourseContextBlock(
+  index: CourseIndex,
+  course: CourseContext,
+  question: string,
+  history: ChatMessage[],
+  config: RetrievalConfig
+): CourseContextBlock {
+  const full = (): CourseContextBlock => ({
+    mode: 'full',
+    text: `CONTENU DU COURS (Source Unique de Vérité) :\n${course.content}`,
+    passages: [],
+    estimatedTokens: index.totalTokens
+  });
+
+  if (config.mode === 'full' || index.totalTokens <= config.tokenBudget || !question.trim()) return full();
+
+  const passages = selectPassages(index, question, history, config.tokenBudget);
+  if (passages.length === 0) return full();
+
+  const excerpts = passages
+    .map((p, i) => `[${i + 1}] ${p.chunk.path}\n${p.chunk.text.trim()}`)
+    .join('\n\n---\n\n');
+
+  return {
+    mode: 'retrieval',
+    text: `EXTRAITS DU COURS (Source Unique de Vérité — passages sélectionnés pour cette question) :\nCes extraits sont tirés du cours complet. Si la réponse ne s'y trouve pas, applique la règle d'honnêteté.\n\n${excerpts}`,
+    passages,
+    estimatedTokens: passages.reduce((sum, p) => sum + estimateTokens(p.chunk.text), 0)
+  };
+}
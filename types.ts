@@ -3,6 +3,57 @@ export interface ChatMessage {
   text: string;
   timestamp: Date;
   isError?: boolean;
+  isPartial?: boolean;   // answer stopped by the student or cut off by an error
+  sources?: SourceReference[];
+  quoteDeviations?: QuoteDeviation[];   // quotes of the course that do not match it word for word
+  quiz?: Quiz;           // structured exercise rendered as an interactive card instead of `text`
+}
+
+// A passage of the course an answer relies on. `excerpt` lets the passage be found again
+// if the course has been edited since the answer was given.
+export interface SourceReference {
+  marker: number;      // footnote number, matches "[n]" in the answer when the model cited it
+  nodeId: string;
+  path: string;        // "CHAPITRE I › SECTION I › II › B › 1"
+  start: number;
+  end: number;
+  excerpt: string;
+}
+
+// A definition, decision or statute quoted in an answer that differs from the course.
+export interface QuoteDeviation {
+  kind: 'definition' | 'decision' | 'statute';
+  reason: 'modified' | 'truncated' | 'unknown';   // unknown: cited in the answer but absent from the course
+  quoted: string;        // as written in the answer
+  expected: string;      // closest wording in the course, empty when absent
+  similarity: number;    // 0 to 1, share of words in common
+  source?: SourceReference;
+}
+
+// Deviations found in one answer, kept on the server for the professor.
+export interface QuoteReport {
+  id: string;
+  createdAt: string;
+  question: string;
+  deviations: QuoteDeviation[];
+}
+
+export type QuizKind = 'quiz' | 'qcm' | 'vrai-faux';
+
+// One question of a quiz: a QCM (3 or 4 choices) or a true/false statement.
+export interface QuizItem {
+  type: 'qcm' | 'vrai-faux';
+  question: string;
+  choices: string[];     // ["Vrai", "Faux"] for a true/false statement
+  answerIndex: number;   // 0-based index of the right choice
+  explanation: string;
+  source?: SourceReference;   // passage of the course the question tests
+  response?: number;     // choice submitted by the student, absent until answered
+}
+
+export interface Quiz {
+  kind: QuizKind;
+  items: QuizItem[];
 }
 
 export interface ChatSession {
@@ -10,17 +61,281 @@ export interface ChatSession {
   title: string;
   messages: ChatMessage[];
   updatedAt: number; // Timestamp for sorting
+  kind?: 'text' | 'oral';   // oral: transcript of a voice session; absent for written conversations
 }
 
 export enum AppMode {
   TEXT = 'text',
   VOICE = 'voice',
+  JURISPRUDENCE = 'jurisprudence',
+  GLOSSARY = 'glossary',
+  FLASHCARDS = 'flashcards',
+  CASE_STUDY = 'case-study',
+  EXAM = 'exam',
+  CATALOGUE = 'catalogue',
   SETTINGS = 'settings'
 }
 
 export interface CourseContext {
+  id: string;
   content: string;
   title: string;
+  persona: CoursePersona;
+  structure: ParsedCourse;
+}
+
+export type VoiceStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+
+// How the microphone is forwarded: always (server-side turn detection), gated by client-side voice detection, or push-to-talk
+export type VoiceInputMode = 'open' | 'gated' | 'pushToTalk';
+
+export type CourseNodeKind = 'course' | 'part' | 'chapter' | 'section' | 'roman' | 'letter' | 'number' | 'subletter';
+
+// A heading of the course outline (PARTIE → CHAPITRE → SECTION → I → A → 1 → a).
+// Offsets are character positions in the raw course text.
+export interface CourseNode {
+  id: string;
+  kind: CourseNodeKind;
+  label: string;       // e.g. "CHAPITRE I", "II", "A", "2.3.1"
+  title: string;
+  line: number;        // 0-based line of the heading
+  start: number;       // offset of the heading line
+  end: number;         // offset where the next sibling or ancestor heading starts
+  parentId: string | null;
+  children: CourseNode[];
+}
+
+export interface CourseDefinition {
+  id: string;
+  term: string;
+  text: string;        // verbatim, without the "Définition :" prefix
+  line: number;
+  start: number;       // offset of the definition text
+  end: number;
+  nodeId: string;
+}
+
+// One place in the course text where a decision or statute is cited.
+export interface CourseOccurrence {
+  raw: string;
+  line: number;
+  start: number;
+  end: number;
+  nodeId: string;
+}
+
+export interface CourseDecision {
+  id: string;
+  court: string;       // "Conseil d’État", "Tribunal des conflits"...
+  formation?: string;  // "Section", "Assemblée", "Avis"...
+  date: string;        // ISO yyyy-mm-dd
+  dateLabel: string;   // as written, e.g. "22 février 2007"
+  parties: string;
+  shortName: string;   // name the decision is known by, e.g. "APREI", "Gheusi", "Morsang-sur-Orge"
+  occurrences: CourseOccurrence[];
+}
+
+export interface CourseStatute {
+  id: string;
+  type: 'loi' | 'loi organique' | 'décret' | 'ordonnance';
+  number?: string;
+  date: string;
+  dateLabel: string;
+  title?: string;
+  occurrences: CourseOccurrence[];
+}
+
+export interface ParsedCourse {
+  root: CourseNode;
+  headings: CourseNode[];  // document order, root excluded
+  definitions: CourseDefinition[];
+  decisions: CourseDecision[];
+  statutes: CourseStatute[];
 }
 
-export type VoiceStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
\ No newline at end of file
+
+// How much of the course is sent to the model on each turn.
+export interface RetrievalConfig {
+  mode: 'retrieval' | 'full';
+  tokenBudget: number;   // max estimated tokens of course excerpts in retrieval mode
+}
+
+// Model and sampling parameters chosen by the professor; null means "model default".
+export interface ModelSettings {
+  textModel: string;
+  liveModel: string;
+  voiceName: string;
+  temperature: number | null;
+  topP: number | null;
+  maxOutputTokens: number | null;
+  thinkingBudget: number | null;   // 0 disables thinking, -1 lets the model decide
+}
+
+// Who the assistant is and whom it speaks for; fills the {{...}} placeholders of the instruction.
+export interface CoursePersona {
+  assistantName: string;       // {{ASSISTANT}}
+  professorName: string;       // {{PROFESSEUR}}
+  subject: string;             // {{MATIERE}}
+  assistantIntro: string;      // {{PRESENTATION_ASSISTANT}}
+  professorBio: string;        // {{PRESENTATION_PROFESSEUR}}
+}
+
+// Course configuration stored on the server and edited in the Espace Professeur.
+export interface CourseConfig {
+  courseContent: string;
+  systemInstruction: string;
+  retrievalConfig: RetrievalConfig;
+  modelSettings: ModelSettings;
+  persona: CoursePersona;
+  caseRubric: RubricCriterion[];
+}
+
+// One line of the grading grid of the cas pratique, edited by the professor.
+export interface RubricCriterion {
+  id: string;
+  label: string;         // "Problématique", "Majeure"...
+  description: string;   // what the grader expects, sent to the model
+  points: number;
+}
+
+// Fact pattern generated from one part of the course.
+export interface CaseStudy {
+  title: string;
+  facts: string;
+  question: string;
+  expectedIssues: string[];   // points a good answer should raise, shown after grading
+  section: { nodeId: string; path: string; title: string };
+}
+
+// The student's written answer, in the four steps of the syllogism.
+export interface CaseAnswer {
+  problematique: string;
+  majeure: string;
+  mineure: string;
+  conclusion: string;
+}
+
+export interface CriterionGrade {
+  criterionId: string;
+  label: string;
+  score: number;
+  points: number;
+  comment: string;
+}
+
+export interface CaseGrade {
+  criteria: CriterionGrade[];
+  total: number;
+  maxTotal: number;
+  feedback: string;
+}
+
+// A graded answer, kept in the browser.
+export interface CaseAttempt {
+  id: string;
+  createdAt: string;
+  caseStudy: CaseStudy;
+  answer: CaseAnswer;
+  grade: CaseGrade;
+}
+
+// One question of a mock exam paper, tied to the section of the course it tests.
+export interface ExamQuestion {
+  id: string;
+  kind: 'qcm' | 'short';
+  question: string;
+  choices: string[];          // empty for a short answer
+  answerIndex: number;        // -1 for a short answer
+  expected: string;           // QCM explanation, or model answer of a short question
+  points: number;
+  section: CaseStudy['section'];
+}
+
+// Fixed paper generated once at the start of the exam.
+export interface ExamPaper {
+  chapterIds: string[];
+  durationMinutes: number;
+  questions: ExamQuestion[];
+  caseStudy: CaseStudy;
+  casePoints: number;         // share of the cas pratique in the final mark
+}
+
+export interface ExamAnswers {
+  choices: Record<string, number>;
+  texts: Record<string, string>;
+  caseAnswer: CaseAnswer;
+}
+
+export interface ExamQuestionResult {
+  questionId: string;
+  score: number;
+  points: number;
+  comment: string;
+}
+
+export interface ExamSectionResult {
+  nodeId: string;
+  path: string;
+  title: string;
+  score: number;
+  points: number;
+}
+
+export interface ExamReport {
+  questions: ExamQuestionResult[];
+  caseGrade: CaseGrade;
+  caseScore: number;          // cas pratique grade scaled to casePoints
+  total: number;
+  maxTotal: number;
+  sections: ExamSectionResult[];   // weakest first
+}
+
+// An exam in progress, kept so that reloading the page does not reset the clock.
+export interface ExamSession {
+  paper: ExamPaper;
+  answers: ExamAnswers;
+  startedAt: string;
+}
+
+export interface ExamAttempt extends ExamSession {
+  id: string;
+  submittedAt: string;
+  timedOut: boolean;
+  report: ExamReport;
+}
+
+// Catalogue entry shown to students.
+export interface CourseSummary {
+  id: string;
+  title: string;
+  description: string;
+  professorName: string;
+  updatedAt?: string;
+}
+
+// Professor account as seen by the front end (the password hash never leaves the server).
+export interface ProfessorAccount {
+  username: string;
+  displayName: string;
+  courseIds: string[];   // courses this professor may edit
+  isAdmin: boolean;      // may edit every course and manage courses and accounts
+}
+
+// Professor session issued by the server after a successful login.
+export interface TeacherSession {
+  token: string;
+  expiresAt: number;   // epoch ms
+  account: ProfessorAccount;
+}
+
+// Versioned texts of a course: every save of the content or the instruction creates a version.
+export type VersionedField = 'courseContent' | 'systemInstruction';
+
+export interface ContentVersion {
+  id: string;
+  author: string;      // display name of the professor who saved it
+  createdAt: string;   // ISO date
+  updatedAt?: string;  // ISO date of the last auto-save merged into this version
+  message: string;     // optional note, '' for auto-saves
+  length: number;      // characters
+}
@@ -1,14 +1,47 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { geminiProxyPlugin } from './server/geminiProxy';
+import { professorApiPlugin } from './server/professorApi';
+import { hashPassword } from './server/auth';
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  define: {
-    // Cette ligne dit à Vite : "Si tu trouves 'process.env.API_KEY' dans le code, remplace-le par la valeur de VITE_API_KEY"
-    'process.env.API_KEY': JSON.stringify(process.env.VITE_API_KEY || process.env.API_KEY),
-    
-    // Pareil pour le mot de passe professeur
-    'process.env.TEACHER_PASSWORD': JSON.stringify(process.env.VITE_TEACHER_PASSWORD || process.env.TEACHER_PASSWORD),
-  },
+export default defineConfig(({ mode }) => {
+  // Toutes les variables (.env, .env.local, environnement), pas seulement celles préfixées par VITE_
+  const env = { ...loadEnv(mode, process.cwd(), ''), ...process.env };
+
+  // La clé Gemini ne quitte jamais le serveur : le navigateur passe par le proxy /api/gemini
+  const apiKey = env.GEMINI_API_KEY || env.API_KEY || '';
+  if (env.VITE_API_KEY) {
+    console.warn("⚠️  VITE_API_KEY est ignorée : les variables VITE_ sont visibles par les étudiants. Renommez-la en GEMINI_API_KEY.");
+  }
+
+  // Compte administrateur vérifié côté serveur : empreinte scrypt de préférence, sinon mot de passe en clair haché au démarrage
+  const passwordHash = env.TEACHER_PASSWORD_HASH || (env.TEACHER_PASSWORD ? hashPassword(env.TEACHER_PASSWORD) : undefined);
+  if (env.VITE_TEACHER_PASSWORD) {
+    console.warn("⚠️  VITE_TEACHER_PASSWORD est ignorée : les variables VITE_ sont visibles par les étudiants. Utilisez TEACHER_PASSWORD_HASH.");
+  }
+
+  return {
+    plugins: [
+      react(),
+      professorApiPlugin({
+        adminAccount: passwordHash ? { username: (env.TEACHER_USERNAME || 'admin').toLowerCase(), passwordHash } : undefined,
+        sessionTtlMs: (Number(env.TEACHER_SESSION_TTL_MINUTES) || 120) * 60_000,
+        workspaceDir: env.WORKSPACE_DIR || 'data',
+        trustForwardedFor: env.PROXY_TRUST_FORWARDED_FOR === 'true'
+      }),
+      ...(apiKey ? [geminiProxyPlugin({
+        apiKey,
+        requestsPerMinute: Number(env.PROXY_REQUESTS_PER_MINUTE) || undefined,
+        liveSessionsPer10Min: Number(env.PROXY_LIVE_SESSIONS_PER_10_MIN) || undefined,
+        maxConcurrentLiveSessions: Number(env.PROXY_MAX_LIVE_SESSIONS) || undefined,
+        usageLogFile: env.USAGE_LOG_FILE || undefined,
+        trustForwardedFor: env.PROXY_TRUST_FORWARDED_FOR === 'true'
+      })] : [])
+    ],
+    define: {
+      // Indique au navigateur si le proxy Gemini est disponible (jamais la clé elle-même)
+      'process.env.GEMINI_PROXY_ENABLED': JSON.stringify(apiKey ? 'true' : 'false'),
+    },
+  };
 });